@@ -0,0 +1,571 @@
+#!/usr/bin/env tsx
+/**
+ * escrow - command-line client for the Trustless Escrow program
+ *
+ * Built on EscrowSDK with a local keypair file, so it works against any
+ * cluster including a local solana-test-validator.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { parseArgs } from "node:util";
+import { Cluster, Connection, Keypair, LAMPORTS_PER_SOL, PublicKey, clusterApiUrl } from "@solana/web3.js";
+import {
+  CLUSTERS,
+  EscrowRecord,
+  EscrowSDK,
+  FundingLedgerEntry,
+  MAX_REVISIONS,
+  MilestoneParams,
+  PriorityFeeLevel,
+  SDKResult,
+  fromBaseUnits,
+  getAutoReleaseTime,
+  getEscrowStatus,
+  isClusterName,
+} from "../sdk";
+import { Row, print } from "./output";
+
+const USAGE = `Usage: escrow <command> [options]
+
+Commands:
+  create --freelancer <address> --amount <sol> --deadline <when> [--arbiter <address>] [--review <duration>]
+  create --freelancer <address> --milestone <sol>@<when> [--milestone ...] [--arbiter <address>] [--review <duration>]
+  create --freelancer <address> --mint <address> --amount <tokens> --deadline <when> [--review <duration>]
+  accept <escrow>
+  submit <escrow> <ref> [--index <n>]
+  revise <escrow> <reason>
+  approve <escrow> [--index <n>]
+  deposit <escrow> --amount <sol>
+  release-partial <escrow> --amount <sol>
+  ledger <escrow>
+  auto-release <escrow> [--index <n>]
+  refund <escrow>
+  dispute <escrow>
+  resolve <escrow> --freelancer-bps <0-10000>
+  propose-deadline <escrow> --deadline <when>
+  accept-deadline <escrow> | reject-deadline <escrow>
+  propose-settlement <escrow> --freelancer-bps <0-10000>
+  accept-settlement <escrow> --freelancer-bps <0-10000> | reject-settlement <escrow>
+  close <escrow> [<escrow> ...] | close --settled
+  show <escrow>
+  list [--as client|freelancer|arbiter]
+  config
+  pause | unpause
+
+Options:
+  -k, --keypair <path>       Signer keypair file (default: Solana CLI config or ~/.config/solana/id.json)
+  -u, --url <url|moniker>    RPC URL or devnet, testnet, mainnet-beta, localnet (default: Solana CLI config or devnet)
+      --program-id <address> Escrow program ID
+      --config <address>     Platform Config account that sets the fee on new escrows
+      --priority-fee <level> none, low, medium or high (default: none)
+      --json                 Print machine-readable JSON
+  -h, --help                 Show this help
+
+<when> is an ISO date, a unix timestamp in seconds, or a duration from now such as 30m, 12h or 7d.
+--index selects a milestone (0-based) on milestone escrows.
+A proposed deadline replaces the current one only once the other party accepts it.
+A proposed settlement cancels the escrow once the other party accepts it, paying --freelancer-bps of the
+locked funds to the freelancer and the rest to the client. accept-settlement repeats the proposed split.
+Only SOL escrows can be settled; token escrows end by approval, auto-release or refund.
+The freelancer must accept an escrow before submitting; until then the client can refund it at any time.
+--review is how long the client has to review each submission before anyone can auto-release it,
+such as 12h or 0 (default: 3d, at most 30d). Work must be submitted before the deadline.
+revise sends submitted work back before the deadline, up to ${MAX_REVISIONS} times per escrow.
+deposit adds SOL to a single-payment escrow; release-partial pays part of it to the freelancer early
+and must leave some locked. ledger lists every deposit, release and refund, also for closed escrows,
+whose amounts are printed in lamports or token base units.
+close returns the rent of released or refunded escrows to the client; --settled closes all of the signer's.
+--mint locks an SPL token such as USDC instead of SOL; --amount is then in whole tokens.`;
+
+const DURATION_UNITS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400 };
+
+const PRIORITY_FEE_LEVELS: PriorityFeeLevel[] = ["none", "low", "medium", "high"];
+
+class UsageError extends Error {}
+
+/**
+ * Read json_rpc_url and keypair_path from the Solana CLI config, if present
+ */
+function readSolanaConfig(): { url?: string; keypair?: string } {
+  const path = join(homedir(), ".config", "solana", "cli", "config.yml");
+  if (!existsSync(path)) return {};
+
+  const config = readFileSync(path, "utf8");
+  const value = (key: string) => config.match(new RegExp(`^${key}:\\s*["']?([^"'\\n]+)`, "m"))?.[1]?.trim();
+  return { url: value("json_rpc_url"), keypair: value("keypair_path") };
+}
+
+function resolveUrl(url: string): string {
+  if (url === "localhost") return CLUSTERS.localnet.rpcUrl;
+  if (isClusterName(url) && url !== "custom") return CLUSTERS[url].rpcUrl;
+  if (url === "testnet") return clusterApiUrl(url as Cluster);
+  return url;
+}
+
+/**
+ * Program ID registered for a cluster moniker, if the URL is one
+ */
+function resolveProgramId(url: string): string | undefined {
+  return isClusterName(url) ? CLUSTERS[url].programId : undefined;
+}
+
+/**
+ * Config address registered for a cluster moniker, if the URL is one and it has been set
+ */
+function resolveConfigAddress(url: string): string | undefined {
+  return isClusterName(url) ? (CLUSTERS[url].configAddress ?? undefined) : undefined;
+}
+
+function loadKeypair(path: string): Keypair {
+  const resolved = path.startsWith("~") ? join(homedir(), path.slice(1)) : path;
+  if (!existsSync(resolved)) {
+    throw new UsageError(`Keypair file not found: ${resolved}`);
+  }
+  const secret = Uint8Array.from(JSON.parse(readFileSync(resolved, "utf8")));
+  return Keypair.fromSecretKey(secret);
+}
+
+/**
+ * Parse a deadline as a duration from now, unix seconds, or a date string; returns ms
+ */
+function parseDeadline(input: string, now: number = Date.now()): number {
+  const duration = input.match(/^(\d+)([smhd])$/);
+  if (duration) {
+    return now + Number(duration[1]) * DURATION_UNITS[duration[2]] * 1000;
+  }
+  if (/^\d+$/.test(input)) {
+    return Number(input) * 1000;
+  }
+  const parsed = Date.parse(input);
+  if (isNaN(parsed)) {
+    throw new UsageError(`Invalid deadline: ${input}`);
+  }
+  return parsed;
+}
+
+/**
+ * Parse --review as a duration such as 3d, or plain seconds; returns seconds
+ */
+function parseReviewPeriod(input: string | undefined): number | undefined {
+  if (input === undefined) return undefined;
+  const duration = input.match(/^(\d+)([smhd])?$/);
+  if (!duration) throw new UsageError(`Invalid --review: ${input}`);
+  return Number(duration[1]) * DURATION_UNITS[duration[2] ?? "s"];
+}
+
+/**
+ * Parse a "<sol>@<when>" milestone, e.g. 0.5@7d
+ */
+function parseMilestone(input: string): MilestoneParams {
+  const [amount, deadline] = input.split("@");
+  if (!amount || !deadline || isNaN(Number(amount))) {
+    throw new UsageError(`Invalid --milestone: ${input}`);
+  }
+  return { amount: Number(amount), deadline: parseDeadline(deadline) };
+}
+
+/**
+ * Parse --index, if given
+ */
+function parseIndex(input: string | undefined): number | undefined {
+  if (input === undefined) return undefined;
+  if (!/^\d+$/.test(input)) throw new UsageError(`Invalid --index: ${input}`);
+  return Number(input);
+}
+
+/**
+ * Parse --amount as a positive number of SOL or whole tokens
+ */
+function parseAmount(input: string | undefined): number {
+  const amount = Number(input);
+  if (!input || isNaN(amount)) throw new UsageError("Missing or invalid --amount");
+  return amount;
+}
+
+/**
+ * Parse --freelancer-bps, the freelancer's share in basis points
+ */
+function parseFreelancerBps(input: string | undefined): number {
+  if (!input || !/^\d+$/.test(input)) throw new UsageError("Missing or invalid --freelancer-bps");
+  return Number(input);
+}
+
+/**
+ * Parse --priority-fee, defaulting to no priority fee
+ */
+function parsePriorityFee(input: string | undefined): PriorityFeeLevel {
+  if (input === undefined) return "none";
+  if (!PRIORITY_FEE_LEVELS.includes(input as PriorityFeeLevel)) {
+    throw new UsageError(`Invalid --priority-fee: ${input} (expected ${PRIORITY_FEE_LEVELS.join(", ")})`);
+  }
+  return input as PriorityFeeLevel;
+}
+
+function parseAddress(input: string | undefined, name: string): PublicKey {
+  if (!input) throw new UsageError(`Missing ${name}`);
+  try {
+    return new PublicKey(input);
+  } catch {
+    throw new UsageError(`Invalid ${name}: ${input}`);
+  }
+}
+
+/**
+ * Decimals of every mint held by the given escrows
+ */
+async function fetchMintDecimals(sdk: EscrowSDK, records: EscrowRecord[]): Promise<Map<string, number>> {
+  const decimals = new Map<string, number>();
+  for (const { account } of records) {
+    if (account.mint && !decimals.has(account.mint.toBase58())) {
+      decimals.set(account.mint.toBase58(), unwrap(await sdk.fetchMintDecimals(account.mint)));
+    }
+  }
+  return decimals;
+}
+
+function escrowRow({ publicKey, account }: EscrowRecord, decimals: Map<string, number>): Row {
+  const mint = account.mint?.toBase58() ?? null;
+  const autoReleaseAt = getAutoReleaseTime(account);
+  return {
+    address: publicKey.toBase58(),
+    status: getEscrowStatus(account),
+    client: account.client.toBase58(),
+    freelancer: account.freelancer.toBase58(),
+    arbiter: account.arbiter?.toBase58() ?? null,
+    config: account.config.toBase58(),
+    mint,
+    amount: mint ? fromBaseUnits(account.amount, decimals.get(mint)!) : account.amount.toNumber() / LAMPORTS_PER_SOL,
+    deadline: new Date(account.deadline.toNumber() * 1000).toISOString(),
+    reviewPeriod: account.reviewPeriod.toNumber(),
+    autoReleaseAt: autoReleaseAt ? new Date(autoReleaseAt).toISOString() : null,
+    createdAt: new Date(account.createdAt.toNumber() * 1000).toISOString(),
+    submittedAt: account.submittedAt ? new Date(account.submittedAt.toNumber() * 1000).toISOString() : null,
+    releasedAt: account.releasedAt ? new Date(account.releasedAt.toNumber() * 1000).toISOString() : null,
+    proposedDeadline: account.deadlineProposal
+      ? `${new Date(account.deadlineProposal.deadline.toNumber() * 1000).toISOString()} by ${account.deadlineProposal.proposer.toBase58()}`
+      : null,
+    proposedSettlement: account.settlementProposal
+      ? `${account.settlementProposal.freelancerBps} bps to freelancer by ${account.settlementProposal.proposer.toBase58()}`
+      : null,
+    metadataRef: account.metadataRef || null,
+    milestones: account.milestones.length
+      ? `${account.milestones.filter((m) => m.isReleased).length}/${account.milestones.length} released`
+      : null,
+    revisions: account.revisions.length ? `${account.revisions.length}/${MAX_REVISIONS} used` : null,
+    revisionReason: account.revisions[account.revisions.length - 1]?.reasonRef ?? null,
+    escrowId: account.escrowId,
+  };
+}
+
+/**
+ * Unwrap an SDK result or fail the command with its error
+ */
+function unwrap<T>(result: SDKResult<T>): T {
+  if (!result.success) {
+    throw Object.assign(new Error(result.error || "Command failed"), { code: result.code });
+  }
+  return result.data as T;
+}
+
+async function run(argv: string[]): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      keypair: { type: "string", short: "k" },
+      url: { type: "string", short: "u" },
+      "program-id": { type: "string" },
+      config: { type: "string" },
+      "priority-fee": { type: "string" },
+      json: { type: "boolean", default: false },
+      freelancer: { type: "string" },
+      amount: { type: "string" },
+      deadline: { type: "string" },
+      milestone: { type: "string", multiple: true },
+      index: { type: "string" },
+      arbiter: { type: "string" },
+      review: { type: "string" },
+      mint: { type: "string" },
+      "freelancer-bps": { type: "string" },
+      as: { type: "string" },
+      settled: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  const [command, ...args] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+
+  const solanaConfig = readSolanaConfig();
+  const cluster = values.url ?? solanaConfig.url ?? "devnet";
+  const url = resolveUrl(cluster);
+  const signer = loadKeypair(values.keypair ?? solanaConfig.keypair ?? "~/.config/solana/id.json");
+  const sdk = EscrowSDK.fromConnection(new Connection(url, "confirmed"), signer, {
+    programId: values["program-id"] ?? resolveProgramId(cluster),
+    configAddress: values.config ?? resolveConfigAddress(cluster),
+    priorityFee: { level: parsePriorityFee(values["priority-fee"]) },
+  });
+  const json = values.json;
+
+  switch (command) {
+    case "create": {
+      const reviewPeriod = parseReviewPeriod(values.review);
+
+      if (values.milestone) {
+        const created = unwrap(
+          await sdk.createEscrow({
+            escrowId: sdk.generateEscrowId(),
+            freelancer: parseAddress(values.freelancer, "--freelancer").toBase58(),
+            milestones: values.milestone.map(parseMilestone),
+            reviewPeriod,
+            arbiter: values.arbiter,
+          })
+        );
+        print(created, json);
+        return;
+      }
+
+      const amount = parseAmount(values.amount);
+      if (!values.deadline) throw new UsageError("Missing --deadline");
+
+      if (values.mint && values.arbiter) throw new UsageError("Token escrows cannot have an --arbiter");
+
+      const created = unwrap(
+        await sdk.createEscrow(
+          values.mint
+            ? {
+                escrowId: sdk.generateEscrowId(),
+                freelancer: parseAddress(values.freelancer, "--freelancer").toBase58(),
+                mint: parseAddress(values.mint, "--mint").toBase58(),
+                amount,
+                deadline: parseDeadline(values.deadline),
+                reviewPeriod,
+              }
+            : {
+                escrowId: sdk.generateEscrowId(),
+                freelancer: parseAddress(values.freelancer, "--freelancer").toBase58(),
+                amount,
+                deadline: parseDeadline(values.deadline),
+                reviewPeriod,
+                arbiter: values.arbiter,
+              }
+        )
+      );
+      print(created, json);
+      return;
+    }
+
+    case "accept": {
+      print(unwrap(await sdk.acceptEscrow(parseAddress(args[0], "escrow address"))), json);
+      return;
+    }
+
+    case "submit": {
+      const escrow = parseAddress(args[0], "escrow address");
+      if (!args[1]) throw new UsageError("Missing work reference");
+      const index = parseIndex(values.index);
+      const result =
+        index === undefined ? await sdk.submitWork(escrow, args[1]) : await sdk.submitMilestone(escrow, index, args[1]);
+      print(unwrap(result), json);
+      return;
+    }
+
+    case "revise": {
+      const escrow = parseAddress(args[0], "escrow address");
+      if (!args[1]) throw new UsageError("Missing revision reason");
+      print(unwrap(await sdk.requestRevision(escrow, args[1])), json);
+      return;
+    }
+
+    case "approve": {
+      const escrow = parseAddress(args[0], "escrow address");
+      const index = parseIndex(values.index);
+      const result =
+        index === undefined ? await sdk.approveRelease(escrow) : await sdk.approveMilestone(escrow, index);
+      print(unwrap(result), json);
+      return;
+    }
+
+    case "deposit": {
+      const escrow = parseAddress(args[0], "escrow address");
+      print(unwrap(await sdk.depositMore(escrow, parseAmount(values.amount))), json);
+      return;
+    }
+
+    case "release-partial": {
+      const escrow = parseAddress(args[0], "escrow address");
+      print(unwrap(await sdk.releasePartial(escrow, parseAmount(values.amount))), json);
+      return;
+    }
+
+    case "ledger": {
+      const address = parseAddress(args[0], "escrow address");
+      const entries = unwrap(await sdk.fetchFundingLedger(address));
+
+      // Scale to SOL or whole tokens while the escrow still exists; closed escrows keep base units
+      const fetched = await sdk.fetchEscrow(address);
+      if (!fetched.success && fetched.code !== "NotFound") unwrap(fetched);
+      let scale = (amount: FundingLedgerEntry["amount"]): string | number => amount.toString();
+      if (fetched.success) {
+        const record = { publicKey: address, account: fetched.data! };
+        const mint = record.account.mint?.toBase58();
+        const decimals = mint ? (await fetchMintDecimals(sdk, [record])).get(mint)! : null;
+        scale = (amount) => (decimals === null ? amount.toNumber() / LAMPORTS_PER_SOL : fromBaseUnits(amount, decimals));
+      }
+
+      print(
+        entries.map((entry) => ({
+          time: new Date(entry.timestamp).toISOString(),
+          kind: entry.kind,
+          amount: scale(entry.amount),
+          balance: scale(entry.balance),
+          signature: entry.signature,
+        })),
+        json
+      );
+      return;
+    }
+
+    case "auto-release": {
+      const escrow = parseAddress(args[0], "escrow address");
+      const index = parseIndex(values.index);
+      const result =
+        index === undefined
+          ? await sdk.triggerAutoRelease(escrow)
+          : await sdk.triggerMilestoneAutoRelease(escrow, index);
+      print(unwrap(result), json);
+      return;
+    }
+
+    case "refund": {
+      print(unwrap(await sdk.refundEscrow(parseAddress(args[0], "escrow address"))), json);
+      return;
+    }
+
+    case "dispute": {
+      print(unwrap(await sdk.raiseDispute(parseAddress(args[0], "escrow address"))), json);
+      return;
+    }
+
+    case "resolve": {
+      const escrow = parseAddress(args[0], "escrow address");
+      print(unwrap(await sdk.resolveDispute(escrow, parseFreelancerBps(values["freelancer-bps"]))), json);
+      return;
+    }
+
+    case "propose-deadline": {
+      const escrow = parseAddress(args[0], "escrow address");
+      if (!values.deadline) throw new UsageError("Missing --deadline");
+      print(unwrap(await sdk.proposeDeadline(escrow, parseDeadline(values.deadline))), json);
+      return;
+    }
+
+    case "accept-deadline": {
+      print(unwrap(await sdk.acceptDeadline(parseAddress(args[0], "escrow address"))), json);
+      return;
+    }
+
+    case "reject-deadline": {
+      print(unwrap(await sdk.rejectDeadline(parseAddress(args[0], "escrow address"))), json);
+      return;
+    }
+
+    case "propose-settlement": {
+      const escrow = parseAddress(args[0], "escrow address");
+      print(unwrap(await sdk.proposeSettlement(escrow, parseFreelancerBps(values["freelancer-bps"]))), json);
+      return;
+    }
+
+    case "accept-settlement": {
+      const escrow = parseAddress(args[0], "escrow address");
+      print(unwrap(await sdk.acceptSettlement(escrow, parseFreelancerBps(values["freelancer-bps"]))), json);
+      return;
+    }
+
+    case "reject-settlement": {
+      print(unwrap(await sdk.rejectSettlement(parseAddress(args[0], "escrow address"))), json);
+      return;
+    }
+
+    case "close": {
+      let escrows: PublicKey[];
+      if (values.settled) {
+        const status = (record: EscrowRecord) => getEscrowStatus(record.account);
+        escrows = unwrap(await sdk.fetchEscrowsByClient())
+          .filter((record) => status(record) === "completed" || status(record) === "refunded")
+          .map((record) => record.publicKey);
+      } else {
+        if (!args.length) throw new UsageError("Missing escrow address");
+        escrows = args.map((arg) => parseAddress(arg, "escrow address"));
+      }
+      const { signatures } = unwrap(await sdk.closeEscrows(escrows));
+      print({ closed: escrows.length, signatures: signatures.join(" ") || null }, json);
+      return;
+    }
+
+    case "show": {
+      const address = parseAddress(args[0], "escrow address");
+      const record = { publicKey: address, account: unwrap(await sdk.fetchEscrow(address)) };
+      print(escrowRow(record, await fetchMintDecimals(sdk, [record])), json);
+      return;
+    }
+
+    case "config": {
+      const config = unwrap(await sdk.fetchConfig());
+      print(
+        {
+          address: sdk.configAddress.toBase58(),
+          authority: config.authority.toBase58(),
+          treasury: config.treasury.toBase58(),
+          feeBps: config.feeBps,
+          isPaused: config.isPaused,
+        },
+        json
+      );
+      return;
+    }
+
+    case "pause":
+    case "unpause": {
+      print(unwrap(await sdk.setPaused(command === "pause")), json);
+      return;
+    }
+
+    case "list": {
+      const escrows =
+        values.as === "client"
+          ? await sdk.fetchEscrowsByClient()
+          : values.as === "freelancer"
+            ? await sdk.fetchEscrowsByFreelancer()
+            : values.as === "arbiter"
+              ? await sdk.fetchEscrowsByArbiter()
+              : values.as === undefined
+                ? await sdk.fetchEscrowsByParticipant()
+                : null;
+      if (!escrows) throw new UsageError(`Invalid --as: ${values.as}`);
+      const records = unwrap(escrows);
+      const decimals = await fetchMintDecimals(sdk, records);
+      print(records.map((record) => escrowRow(record, decimals)), json);
+      return;
+    }
+
+    default:
+      throw new UsageError(`Unknown command: ${command}`);
+  }
+}
+
+run(process.argv.slice(2)).catch((error) => {
+  const code = error instanceof UsageError ? "Usage" : error.code;
+  if (process.argv.includes("--json")) {
+    console.log(JSON.stringify({ error: error.message, code }, null, 2));
+  } else {
+    console.error(`Error: ${error.message}${code && code !== "Usage" ? ` (${code})` : ""}`);
+    if (error instanceof UsageError) console.error(`\n${USAGE}`);
+  }
+  process.exit(error instanceof UsageError ? 2 : 1);
+});
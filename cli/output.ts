@@ -0,0 +1,47 @@
+/**
+ * CLI output helpers
+ *
+ * Every command produces plain data; it is printed either as JSON for
+ * scripting or as an aligned table for people.
+ */
+
+export type Row = Record<string, string | number | boolean | null | undefined>;
+
+/**
+ * Render rows as an aligned text table
+ */
+export function formatTable(rows: Row[]): string {
+  if (!rows.length) return "(none)";
+
+  const columns = Object.keys(rows[0]);
+  const cells = rows.map((row) => columns.map((c) => String(row[c] ?? "")));
+  const widths = columns.map((c, i) => Math.max(c.length, ...cells.map((r) => r[i].length)));
+
+  const line = (values: string[]) => values.map((v, i) => v.padEnd(widths[i])).join("  ").trimEnd();
+  return [
+    line(columns.map((c) => c.toUpperCase())),
+    line(widths.map((w) => "-".repeat(w))),
+    ...cells.map(line),
+  ].join("\n");
+}
+
+/**
+ * Render a single record as "key: value" lines
+ */
+export function formatRecord(row: Row): string {
+  const width = Math.max(...Object.keys(row).map((k) => k.length));
+  return Object.entries(row)
+    .map(([key, value]) => `${key.padEnd(width)}  ${value ?? ""}`)
+    .join("\n");
+}
+
+/**
+ * Print a command result in the requested format
+ */
+export function print(data: Row | Row[], json: boolean): void {
+  if (json) {
+    console.log(JSON.stringify(data, null, 2));
+  } else {
+    console.log(Array.isArray(data) ? formatTable(data) : formatRecord(data));
+  }
+}
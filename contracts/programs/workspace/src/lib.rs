@@ -1,19 +1,30 @@
 use anchor_lang::prelude::*;
 use anchor_lang::system_program;
+use anchor_spl::token::{self, Mint, Token, TokenAccount};
 
 declare_id!("8EqACgr8ft77u2zCVK8euLWmHBqxDJ1EW6Hb54GmCzw9");
 
+pub const MAX_MILESTONES: usize = 10;
+pub const MAX_REVISIONS: usize = 3;
+// Longest review period a client can set, in seconds
+pub const MAX_REVIEW_PERIOD: i64 = 30 * 24 * 60 * 60;
+// Least time the freelancer gets to resubmit after a revision request, in seconds
+pub const RESUBMISSION_WINDOW: i64 = 3 * 24 * 60 * 60;
+
 #[program]
 pub mod workspace {
     use super::*;
 
     // fee_bps: u16, Platform fee in basis points, 0 = no fee
     // treasury: Pubkey, Fee collection address, 9PJ8I...3555
+    // Only the program's upgrade authority can create the platform Config, once per deployment
     pub fn initialize_config(
         ctx: Context<InitializeConfig>,
         fee_bps: u16,
         treasury: Pubkey,
     ) -> Result<()> {
+        require!(fee_bps <= 10_000, ErrorCode::InvalidFee);
+
         let config = &mut ctx.accounts.config;
         config.bump = ctx.bumps.config;
         config.authority = ctx.accounts.authority.key();
@@ -25,14 +36,25 @@ pub mod workspace {
         Ok(())
     }
 
+    // Emergency stop: while paused no escrows are created and no work is submitted,
+    // but releases and refunds still go through so funds are never trapped
+    pub fn set_paused(ctx: Context<SetPaused>, paused: bool) -> Result<()> {
+        ctx.accounts.config.is_paused = paused;
+        Ok(())
+    }
+
     pub fn create_escrow(
         ctx: Context<CreateEscrow>,
         escrow_id: String,
         amount: u64,
         deadline: i64,
+        review_period: i64,
+        arbiter: Option<Pubkey>,
     ) -> Result<()> {
         require!(escrow_id.len() <= 32, ErrorCode::EscrowIdTooLong);
         require!(amount > 0, ErrorCode::InvalidAmount);
+        validate_review_period(review_period)?;
+        validate_arbiter(arbiter, &ctx.accounts.client.key(), &ctx.accounts.freelancer.key())?;
         
         let clock = Clock::get()?;
         require!(deadline > clock.unix_timestamp, ErrorCode::InvalidDeadline);
@@ -52,13 +74,122 @@ pub mod workspace {
         let escrow = &mut ctx.accounts.escrow;
         escrow.client = ctx.accounts.client.key();
         escrow.freelancer = ctx.accounts.freelancer.key();
+        escrow.arbiter = arbiter;
+        escrow.config = ctx.accounts.config.key();
+        escrow.mint = None;
         escrow.amount = amount;
         escrow.deadline = deadline;
+        escrow.review_period = review_period;
+        escrow.created_at = clock.unix_timestamp;
+        escrow.submitted_at = None;
+        escrow.released_at = None;
+        escrow.deadline_proposal = None;
+        escrow.settlement_proposal = None;
+        escrow.is_accepted = false;
+        escrow.is_submitted = false;
+        escrow.is_released = false;
+        escrow.is_refunded = false;
+        escrow.is_disputed = false;
+        escrow.metadata_ref = String::new();
+        escrow.escrow_id = escrow_id;
+        escrow.bump = ctx.bumps.escrow;
+        escrow.milestones = Vec::new();
+        escrow.revisions = Vec::new();
+        record_movement(escrow, FundMovementKind::Deposit, amount)?;
+
+        Ok(())
+    }
+
+    pub fn create_milestone_escrow(
+        ctx: Context<CreateMilestoneEscrow>,
+        escrow_id: String,
+        milestones: Vec<MilestoneInput>,
+        review_period: i64,
+        arbiter: Option<Pubkey>,
+    ) -> Result<()> {
+        require!(escrow_id.len() <= 32, ErrorCode::EscrowIdTooLong);
+        validate_review_period(review_period)?;
+        validate_arbiter(arbiter, &ctx.accounts.client.key(), &ctx.accounts.freelancer.key())?;
+        require!(
+            !milestones.is_empty() && milestones.len() <= MAX_MILESTONES,
+            ErrorCode::InvalidMilestoneCount
+        );
+
+        // Milestones are ordered, so each deadline must follow the previous one
+        let clock = Clock::get()?;
+        let mut last_deadline = clock.unix_timestamp;
+        let mut total: u64 = 0;
+        for milestone in milestones.iter() {
+            require!(milestone.amount > 0, ErrorCode::InvalidAmount);
+            require!(milestone.deadline > last_deadline, ErrorCode::InvalidDeadline);
+            last_deadline = milestone.deadline;
+            total = total.checked_add(milestone.amount).ok_or(ErrorCode::InvalidAmount)?;
+        }
+
+        // Transfer the sum of all milestones from client to escrow PDA
+        system_program::transfer(
+            CpiContext::new(
+                ctx.accounts.system_program.to_account_info(),
+                system_program::Transfer {
+                    from: ctx.accounts.client.to_account_info(),
+                    to: ctx.accounts.escrow.to_account_info(),
+                },
+            ),
+            total,
+        )?;
+
+        let escrow = &mut ctx.accounts.escrow;
+        escrow.client = ctx.accounts.client.key();
+        escrow.freelancer = ctx.accounts.freelancer.key();
+        escrow.arbiter = arbiter;
+        escrow.config = ctx.accounts.config.key();
+        escrow.mint = None;
+        escrow.amount = total;
+        escrow.deadline = last_deadline;
+        escrow.review_period = review_period;
+        escrow.created_at = clock.unix_timestamp;
+        escrow.submitted_at = None;
+        escrow.released_at = None;
+        escrow.deadline_proposal = None;
+        escrow.settlement_proposal = None;
+        escrow.is_accepted = false;
         escrow.is_submitted = false;
         escrow.is_released = false;
+        escrow.is_refunded = false;
+        escrow.is_disputed = false;
         escrow.metadata_ref = String::new();
         escrow.escrow_id = escrow_id;
         escrow.bump = ctx.bumps.escrow;
+        escrow.milestones = milestones
+            .iter()
+            .map(|milestone| Milestone {
+                amount: milestone.amount,
+                deadline: milestone.deadline,
+                metadata_ref: String::new(),
+                submitted_at: None,
+                is_submitted: false,
+                is_released: false,
+            })
+            .collect();
+        escrow.revisions = Vec::new();
+        record_movement(escrow, FundMovementKind::Deposit, total)?;
+
+        Ok(())
+    }
+
+    // The freelancer agrees to the terms; work can only be submitted from here on
+    pub fn accept_escrow(ctx: Context<AcceptEscrow>) -> Result<()> {
+        let escrow = &mut ctx.accounts.escrow;
+        require!(!escrow.is_accepted, ErrorCode::AlreadyAccepted);
+        require!(!escrow.is_refunded, ErrorCode::AlreadyRefunded);
+
+        let clock = Clock::get()?;
+        require!(
+            clock.unix_timestamp < escrow.current_deadline(),
+            ErrorCode::InvitationExpired
+        );
+
+        escrow.is_accepted = true;
 
         Ok(())
     }
@@ -70,196 +201,1562 @@ pub mod workspace {
         require!(metadata_ref.len() <= 256, ErrorCode::MetadataTooLong);
 
         let escrow = &mut ctx.accounts.escrow;
+        require!(escrow.is_accepted, ErrorCode::NotAccepted);
+        require!(escrow.milestones.is_empty(), ErrorCode::UsesMilestones);
         require!(!escrow.is_released, ErrorCode::AlreadyReleased);
+        require!(!escrow.is_refunded, ErrorCode::AlreadyRefunded);
         require!(!escrow.is_submitted, ErrorCode::AlreadySubmitted);
 
+        let clock = Clock::get()?;
+        require!(clock.unix_timestamp <= escrow.deadline, ErrorCode::SubmissionAfterDeadline);
+
         escrow.metadata_ref = metadata_ref;
         escrow.is_submitted = true;
+        escrow.submitted_at = Some(clock.unix_timestamp);
+
+        Ok(())
+    }
+
+    // reason_ref: String, Reference to the client's requested changes
+    pub fn request_revision(
+        ctx: Context<RequestRevision>,
+        reason_ref: String,
+    ) -> Result<()> {
+        require!(reason_ref.len() <= 256, ErrorCode::MetadataTooLong);
+
+        let escrow = &mut ctx.accounts.escrow;
+        require!(escrow.milestones.is_empty(), ErrorCode::UsesMilestones);
+        require!(escrow.is_submitted, ErrorCode::WorkNotSubmitted);
+        require!(!escrow.is_released, ErrorCode::AlreadyReleased);
+        require!(!escrow.is_refunded, ErrorCode::AlreadyRefunded);
+        require!(!escrow.is_disputed, ErrorCode::EscrowDisputed);
+        require!(escrow.revisions.len() < MAX_REVISIONS, ErrorCode::TooManyRevisions);
+
+        let clock = Clock::get()?;
+        require!(
+            clock.unix_timestamp < escrow.objection_deadline(),
+            ErrorCode::RevisionAfterDeadline
+        );
+
+        // Push the deadline out so a late revision can't be followed straight by a refund
+        escrow.deadline = escrow
+            .deadline
+            .max(clock.unix_timestamp.saturating_add(RESUBMISSION_WINDOW));
+
+        // Keep the rejected submission and reopen the escrow for the freelancer
+        let submission_ref = std::mem::take(&mut escrow.metadata_ref);
+        escrow.revisions.push(Revision {
+            submission_ref,
+            reason_ref,
+        });
+        escrow.is_submitted = false;
+        escrow.submitted_at = None;
 
         Ok(())
     }
 
     pub fn approve_release(ctx: Context<ApproveRelease>) -> Result<()> {
         let escrow = &ctx.accounts.escrow;
+        require!(escrow.mint.is_none(), ErrorCode::UsesToken);
+        require!(escrow.milestones.is_empty(), ErrorCode::UsesMilestones);
         require!(escrow.is_submitted, ErrorCode::WorkNotSubmitted);
         require!(!escrow.is_released, ErrorCode::AlreadyReleased);
 
         // Calculate transfer amount (escrow balance minus rent)
         let escrow_lamports = ctx.accounts.escrow.to_account_info().lamports();
-        let rent_exempt = Rent::get()?.minimum_balance(8 + EscrowAccount::LEN);
+        let rent_exempt = Rent::get()?.minimum_balance(ctx.accounts.escrow.to_account_info().data_len());
         let transfer_amount = escrow_lamports.saturating_sub(rent_exempt);
 
-        // Transfer SOL from escrow PDA to freelancer using lamport manipulation
-        **ctx.accounts.escrow.to_account_info().try_borrow_mut_lamports()? -= transfer_amount;
-        **ctx.accounts.freelancer.to_account_info().try_borrow_mut_lamports()? += transfer_amount;
+        // Pay the freelancer, less the platform fee to the treasury
+        pay_out(
+            &ctx.accounts.escrow.to_account_info(),
+            &ctx.accounts.freelancer.to_account_info(),
+            &ctx.accounts.treasury.to_account_info(),
+            transfer_amount,
+            ctx.accounts.config.fee_bps,
+        )?;
 
         let escrow = &mut ctx.accounts.escrow;
         escrow.is_released = true;
+        escrow.released_at = Some(Clock::get()?.unix_timestamp);
         escrow.amount = 0;
+        record_movement(escrow, FundMovementKind::Release, transfer_amount)?;
+
+        Ok(())
+    }
+
+    // The client adds funds to a single-payment escrow, e.g. when the scope grows
+    pub fn deposit_more(ctx: Context<DepositMore>, amount: u64) -> Result<()> {
+        let escrow = &ctx.accounts.escrow;
+        require!(escrow.mint.is_none(), ErrorCode::UsesToken);
+        require!(escrow.milestones.is_empty(), ErrorCode::UsesMilestones);
+        require!(!escrow.is_released, ErrorCode::AlreadyReleased);
+        require!(!escrow.is_refunded, ErrorCode::AlreadyRefunded);
+        require!(!escrow.is_disputed, ErrorCode::EscrowDisputed);
+        require!(amount > 0, ErrorCode::InvalidAmount);
+
+        system_program::transfer(
+            CpiContext::new(
+                ctx.accounts.system_program.to_account_info(),
+                system_program::Transfer {
+                    from: ctx.accounts.client.to_account_info(),
+                    to: ctx.accounts.escrow.to_account_info(),
+                },
+            ),
+            amount,
+        )?;
+
+        let escrow = &mut ctx.accounts.escrow;
+        escrow.amount = escrow.amount.checked_add(amount).ok_or(ErrorCode::InvalidAmount)?;
+        record_movement(escrow, FundMovementKind::Deposit, amount)?;
+
+        Ok(())
+    }
+
+    // The client pays part of a single-payment escrow early. The rest stays locked
+    // and is released, auto-released or refunded as usual.
+    pub fn release_partial(ctx: Context<ApproveRelease>, amount: u64) -> Result<()> {
+        let escrow = &ctx.accounts.escrow;
+        require!(escrow.mint.is_none(), ErrorCode::UsesToken);
+        require!(escrow.milestones.is_empty(), ErrorCode::UsesMilestones);
+        require!(escrow.is_accepted, ErrorCode::NotAccepted);
+        require!(!escrow.is_released, ErrorCode::AlreadyReleased);
+        require!(!escrow.is_refunded, ErrorCode::AlreadyRefunded);
+        require!(!escrow.is_disputed, ErrorCode::EscrowDisputed);
+        require!(amount > 0, ErrorCode::InvalidAmount);
+        require!(amount < escrow.amount, ErrorCode::PartialReleaseTooLarge);
+
+        // Pay the freelancer, less the platform fee to the treasury
+        pay_out(
+            &ctx.accounts.escrow.to_account_info(),
+            &ctx.accounts.freelancer.to_account_info(),
+            &ctx.accounts.treasury.to_account_info(),
+            amount,
+            ctx.accounts.config.fee_bps,
+        )?;
+
+        let escrow = &mut ctx.accounts.escrow;
+        escrow.amount -= amount;
+        record_movement(escrow, FundMovementKind::Release, amount)?;
 
         Ok(())
     }
 
     pub fn trigger_auto_release(ctx: Context<TriggerAutoRelease>) -> Result<()> {
         let escrow = &ctx.accounts.escrow;
+        require!(escrow.mint.is_none(), ErrorCode::UsesToken);
+        require!(escrow.milestones.is_empty(), ErrorCode::UsesMilestones);
+        require!(!escrow.is_disputed, ErrorCode::EscrowDisputed);
         require!(escrow.is_submitted, ErrorCode::WorkNotSubmitted);
         require!(!escrow.is_released, ErrorCode::AlreadyReleased);
 
         let clock = Clock::get()?;
         require!(clock.unix_timestamp > escrow.deadline, ErrorCode::DeadlineNotPassed);
+        require!(
+            clock.unix_timestamp > escrow.review_ends_at(escrow.submitted_at),
+            ErrorCode::ReviewPeriodActive
+        );
 
         // Calculate transfer amount (escrow balance minus rent)
         let escrow_lamports = ctx.accounts.escrow.to_account_info().lamports();
-        let rent_exempt = Rent::get()?.minimum_balance(8 + EscrowAccount::LEN);
+        let rent_exempt = Rent::get()?.minimum_balance(ctx.accounts.escrow.to_account_info().data_len());
         let transfer_amount = escrow_lamports.saturating_sub(rent_exempt);
 
-        // Transfer SOL from escrow PDA to freelancer using lamport manipulation
-        **ctx.accounts.escrow.to_account_info().try_borrow_mut_lamports()? -= transfer_amount;
-        **ctx.accounts.freelancer.to_account_info().try_borrow_mut_lamports()? += transfer_amount;
+        // Pay the freelancer, less the platform fee to the treasury
+        pay_out(
+            &ctx.accounts.escrow.to_account_info(),
+            &ctx.accounts.freelancer.to_account_info(),
+            &ctx.accounts.treasury.to_account_info(),
+            transfer_amount,
+            ctx.accounts.config.fee_bps,
+        )?;
 
         let escrow = &mut ctx.accounts.escrow;
         escrow.is_released = true;
+        escrow.released_at = Some(clock.unix_timestamp);
         escrow.amount = 0;
+        record_movement(escrow, FundMovementKind::Release, transfer_amount)?;
 
         Ok(())
     }
-}
 
-// ============== ACCOUNT STRUCTURES ==============
+    pub fn refund_escrow(ctx: Context<RefundEscrow>) -> Result<()> {
+        let escrow = &ctx.accounts.escrow;
+        require!(escrow.mint.is_none(), ErrorCode::UsesToken);
+        require!(!escrow.is_released, ErrorCode::AlreadyReleased);
+        require!(!escrow.is_refunded, ErrorCode::AlreadyRefunded);
+        require!(!escrow.is_disputed, ErrorCode::EscrowDisputed);
 
-#[account]
-pub struct Config {
-    pub bump: u8,
-    pub authority: Pubkey,
-    pub is_active: bool,
-    pub is_paused: bool,
-    pub fee_bps: u16,
-    pub treasury: Pubkey,
-    pub version: u8,
-}
+        // Until the freelancer accepts, the client can withdraw at any time.
+        // A milestone escrow is refunded when its current milestone misses the deadline,
+        // returning every milestone not yet released.
+        if escrow.is_accepted {
+            let (is_submitted, deadline) = match escrow.milestones.iter().find(|m| !m.is_released) {
+                Some(milestone) => (milestone.is_submitted, milestone.deadline),
+                None => (escrow.is_submitted, escrow.deadline),
+            };
+            require!(!is_submitted, ErrorCode::AlreadySubmitted);
 
-impl Config {
-    pub const LEN: usize = 1 + 32 + 1 + 1 + 2 + 32 + 1;
-}
+            let clock = Clock::get()?;
+            require!(clock.unix_timestamp > deadline, ErrorCode::RefundBeforeDeadline);
+        }
 
-#[account]
-pub struct EscrowAccount {
-    pub client: Pubkey,
-    pub freelancer: Pubkey,
-    pub amount: u64,
-    pub deadline: i64,
-    pub is_submitted: bool,
-    pub is_released: bool,
-    pub metadata_ref: String,
-    pub escrow_id: String,
-    pub bump: u8,
-}
+        // Calculate refund amount (escrow balance minus rent)
+        let escrow_lamports = ctx.accounts.escrow.to_account_info().lamports();
+        let rent_exempt = Rent::get()?.minimum_balance(ctx.accounts.escrow.to_account_info().data_len());
+        let refund_amount = escrow_lamports.saturating_sub(rent_exempt);
 
-impl EscrowAccount {
-    pub const LEN: usize = 32 + 32 + 8 + 8 + 1 + 1 + (4 + 256) + (4 + 32) + 1;
-}
+        // Return SOL from escrow PDA to client using lamport manipulation
+        **ctx.accounts.escrow.to_account_info().try_borrow_mut_lamports()? -= refund_amount;
+        **ctx.accounts.client.to_account_info().try_borrow_mut_lamports()? += refund_amount;
 
-// ============== CONTEXT STRUCTS ==============
+        let escrow = &mut ctx.accounts.escrow;
+        escrow.is_refunded = true;
+        escrow.amount = 0;
+        record_movement(escrow, FundMovementKind::Refund, refund_amount)?;
 
-#[derive(Accounts)]
-pub struct InitializeConfig<'info> {
-    #[account(
-        init,
-        seeds = [b"config", authority.key().as_ref()],
-        bump,
-        payer = authority,
-        space = 8 + Config::LEN
-    )]
-    pub config: Account<'info, Config>,
-    #[account(mut)]
-    pub authority: Signer<'info>,
-    pub system_program: Program<'info, System>,
-}
+        Ok(())
+    }
 
-#[derive(Accounts)]
-#[instruction(escrow_id: String)]
-pub struct CreateEscrow<'info> {
-    #[account(
-        init,
-        seeds = [
-            b"escrow",
-            client.key().as_ref(),
-            freelancer.key().as_ref(),
-            escrow_id.as_bytes()
-        ],
-        bump,
-        payer = client,
-        space = 8 + EscrowAccount::LEN
-    )]
-    pub escrow: Account<'info, EscrowAccount>,
-    #[account(mut)]
-    pub client: Signer<'info>,
-    /// CHECK: Freelancer account, validated by being stored in escrow
-    pub freelancer: UncheckedAccount<'info>,
-    pub system_program: Program<'info, System>,
-}
+    pub fn submit_milestone(
+        ctx: Context<SubmitWork>,
+        index: u8,
+        metadata_ref: String,
+    ) -> Result<()> {
+        require!(metadata_ref.len() <= 256, ErrorCode::MetadataTooLong);
 
-#[derive(Accounts)]
-pub struct SubmitWork<'info> {
-    #[account(
-        mut,
-        seeds = [
-            b"escrow",
-            escrow.client.as_ref(),
-            freelancer.key().as_ref(),
-            escrow.escrow_id.as_bytes()
-        ],
-        bump = escrow.bump,
-        constraint = escrow.freelancer == freelancer.key() @ ErrorCode::UnauthorizedFreelancer
-    )]
-    pub escrow: Account<'info, EscrowAccount>,
-    #[account(mut)]
-    pub freelancer: Signer<'info>,
-}
+        let escrow = &mut ctx.accounts.escrow;
+        require!(escrow.is_accepted, ErrorCode::NotAccepted);
+        require!(!escrow.is_refunded, ErrorCode::AlreadyRefunded);
+        let index = index as usize;
+        require!(index < escrow.milestones.len(), ErrorCode::InvalidMilestone);
+        require!(
+            escrow.milestones[..index].iter().all(|m| m.is_submitted),
+            ErrorCode::MilestoneOutOfOrder
+        );
 
-#[derive(Accounts)]
-pub struct ApproveRelease<'info> {
-    #[account(
-        mut,
-        seeds = [
-            b"escrow",
-            client.key().as_ref(),
-            escrow.freelancer.as_ref(),
-            escrow.escrow_id.as_bytes()
-        ],
-        bump = escrow.bump,
-        constraint = escrow.client == client.key() @ ErrorCode::UnauthorizedClient
-    )]
-    pub escrow: Account<'info, EscrowAccount>,
-    #[account(mut)]
-    pub client: Signer<'info>,
-    /// CHECK: Freelancer account to receive funds, validated by escrow.freelancer
-    #[account(
-        mut,
-        constraint = freelancer.key() == escrow.freelancer @ ErrorCode::UnauthorizedFreelancer
-    )]
-    pub freelancer: UncheckedAccount<'info>,
-}
+        let milestone = &mut escrow.milestones[index];
+        require!(!milestone.is_released, ErrorCode::AlreadyReleased);
+        require!(!milestone.is_submitted, ErrorCode::AlreadySubmitted);
 
-#[derive(Accounts)]
-pub struct TriggerAutoRelease<'info> {
-    #[account(
-        mut,
-        seeds = [
-            b"escrow",
-            escrow.client.as_ref(),
-            escrow.freelancer.as_ref(),
-            escrow.escrow_id.as_bytes()
-        ],
-        bump = escrow.bump
-    )]
-    pub escrow: Account<'info, EscrowAccount>,
-    /// CHECK: Freelancer account to receive funds, validated by escrow.freelancer
-    #[account(
-        mut,
-        constraint = freelancer.key() == escrow.freelancer @ ErrorCode::UnauthorizedFreelancer
-    )]
-    pub freelancer: UncheckedAccount<'info>,
+        let clock = Clock::get()?;
+        require!(clock.unix_timestamp <= milestone.deadline, ErrorCode::SubmissionAfterDeadline);
+
+        milestone.metadata_ref = metadata_ref;
+        milestone.is_submitted = true;
+        milestone.submitted_at = Some(clock.unix_timestamp);
+
+        escrow.is_submitted = escrow.milestones.iter().all(|m| m.is_submitted);
+        escrow.submitted_at = Some(clock.unix_timestamp);
+
+        Ok(())
+    }
+
+    pub fn approve_milestone(ctx: Context<ApproveRelease>, index: u8) -> Result<()> {
+        let escrow = &ctx.accounts.escrow;
+        let index = index as usize;
+        require!(index < escrow.milestones.len(), ErrorCode::InvalidMilestone);
+        require!(escrow.milestones[index].is_submitted, ErrorCode::WorkNotSubmitted);
+        require!(!escrow.milestones[index].is_released, ErrorCode::AlreadyReleased);
+
+        let freelancer = ctx.accounts.freelancer.to_account_info();
+        let treasury = ctx.accounts.treasury.to_account_info();
+        let fee_bps = ctx.accounts.config.fee_bps;
+        release_milestone(&mut ctx.accounts.escrow, &freelancer, &treasury, fee_bps, index)
+    }
+
+    pub fn trigger_milestone_auto_release(
+        ctx: Context<TriggerAutoRelease>,
+        index: u8,
+    ) -> Result<()> {
+        let escrow = &ctx.accounts.escrow;
+        require!(!escrow.is_disputed, ErrorCode::EscrowDisputed);
+        let index = index as usize;
+        require!(index < escrow.milestones.len(), ErrorCode::InvalidMilestone);
+        require!(escrow.milestones[index].is_submitted, ErrorCode::WorkNotSubmitted);
+        require!(!escrow.milestones[index].is_released, ErrorCode::AlreadyReleased);
+
+        let clock = Clock::get()?;
+        require!(
+            clock.unix_timestamp > escrow.milestones[index].deadline,
+            ErrorCode::DeadlineNotPassed
+        );
+        require!(
+            clock.unix_timestamp > escrow.review_ends_at(escrow.milestones[index].submitted_at),
+            ErrorCode::ReviewPeriodActive
+        );
+
+        let freelancer = ctx.accounts.freelancer.to_account_info();
+        let treasury = ctx.accounts.treasury.to_account_info();
+        let fee_bps = ctx.accounts.config.fee_bps;
+        release_milestone(&mut ctx.accounts.escrow, &freelancer, &treasury, fee_bps, index)
+    }
+
+    // Either party can dispute before the deadline, or until the review period of a
+    // submission ends; this freezes auto-release and refunds until the arbiter resolves it
+    pub fn raise_dispute(ctx: Context<RaiseDispute>) -> Result<()> {
+        let escrow = &mut ctx.accounts.escrow;
+        require!(escrow.arbiter.is_some(), ErrorCode::NoArbiter);
+        require!(escrow.is_accepted, ErrorCode::NotAccepted);
+        require!(!escrow.is_released, ErrorCode::AlreadyReleased);
+        require!(!escrow.is_refunded, ErrorCode::AlreadyRefunded);
+        require!(!escrow.is_disputed, ErrorCode::AlreadyDisputed);
+
+        let clock = Clock::get()?;
+        require!(
+            clock.unix_timestamp < escrow.objection_deadline(),
+            ErrorCode::DisputeAfterDeadline
+        );
+
+        escrow.is_disputed = true;
+
+        Ok(())
+    }
+
+    // Either party proposes a later deadline; it only takes effect once the other
+    // party accepts. A new proposal replaces any pending one.
+    pub fn propose_deadline(ctx: Context<UpdateDeadline>, new_deadline: i64) -> Result<()> {
+        let escrow = &mut ctx.accounts.escrow;
+        require!(escrow.milestones.is_empty(), ErrorCode::UsesMilestones);
+        require!(!escrow.is_released, ErrorCode::AlreadyReleased);
+        require!(!escrow.is_refunded, ErrorCode::AlreadyRefunded);
+        require!(!escrow.is_disputed, ErrorCode::EscrowDisputed);
+
+        let clock = Clock::get()?;
+        require!(
+            new_deadline > escrow.deadline && new_deadline > clock.unix_timestamp,
+            ErrorCode::InvalidDeadline
+        );
+
+        escrow.deadline_proposal = Some(DeadlineProposal {
+            proposer: ctx.accounts.party.key(),
+            deadline: new_deadline,
+        });
+
+        Ok(())
+    }
+
+    pub fn accept_deadline(ctx: Context<UpdateDeadline>) -> Result<()> {
+        let escrow = &mut ctx.accounts.escrow;
+        let proposal = escrow
+            .deadline_proposal
+            .clone()
+            .ok_or(ErrorCode::NoDeadlineProposal)?;
+        require!(
+            proposal.proposer != ctx.accounts.party.key(),
+            ErrorCode::OwnDeadlineProposal
+        );
+        require!(!escrow.is_released, ErrorCode::AlreadyReleased);
+        require!(!escrow.is_refunded, ErrorCode::AlreadyRefunded);
+        require!(!escrow.is_disputed, ErrorCode::EscrowDisputed);
+
+        let clock = Clock::get()?;
+        require!(proposal.deadline > clock.unix_timestamp, ErrorCode::InvalidDeadline);
+
+        escrow.deadline = proposal.deadline;
+        escrow.deadline_proposal = None;
+
+        Ok(())
+    }
+
+    // The other party rejects the pending proposal, or its proposer withdraws it
+    pub fn reject_deadline(ctx: Context<UpdateDeadline>) -> Result<()> {
+        let escrow = &mut ctx.accounts.escrow;
+        require!(escrow.deadline_proposal.is_some(), ErrorCode::NoDeadlineProposal);
+
+        escrow.deadline_proposal = None;
+
+        Ok(())
+    }
+
+    // freelancer_bps: u16, Freelancer's share of the locked funds in basis points,
+    // the client receives the rest
+    pub fn resolve_dispute(ctx: Context<ResolveDispute>, freelancer_bps: u16) -> Result<()> {
+        let escrow = &ctx.accounts.escrow;
+        require!(escrow.is_disputed, ErrorCode::NotDisputed);
+        require!(!escrow.is_released, ErrorCode::AlreadyReleased);
+        require!(freelancer_bps <= 10_000, ErrorCode::InvalidSplit);
+
+        let freelancer_amount = (escrow.amount as u128 * freelancer_bps as u128 / 10_000) as u64;
+        let client_amount = escrow.amount - freelancer_amount;
+
+        // The freelancer's share pays the platform fee like any other release
+        pay_out(
+            &ctx.accounts.escrow.to_account_info(),
+            &ctx.accounts.freelancer.to_account_info(),
+            &ctx.accounts.treasury.to_account_info(),
+            freelancer_amount,
+            ctx.accounts.config.fee_bps,
+        )?;
+        **ctx.accounts.escrow.to_account_info().try_borrow_mut_lamports()? -= client_amount;
+        **ctx.accounts.client.to_account_info().try_borrow_mut_lamports()? += client_amount;
+
+        // is_disputed stays set so the escrow records that the arbiter settled it
+        let escrow = &mut ctx.accounts.escrow;
+        escrow.is_released = true;
+        escrow.released_at = Some(Clock::get()?.unix_timestamp);
+        escrow.amount = 0;
+        record_movement(escrow, FundMovementKind::Release, freelancer_amount)?;
+        record_movement(escrow, FundMovementKind::Refund, client_amount)?;
+
+        Ok(())
+    }
+
+    // Either party proposes splitting the locked funds to cancel the escrow by mutual
+    // agreement. A new proposal replaces any pending one. Only SOL escrows can be settled;
+    // token escrows end by approval, auto-release or refund.
+    pub fn propose_settlement(ctx: Context<UpdateSettlement>, freelancer_bps: u16) -> Result<()> {
+        let escrow = &mut ctx.accounts.escrow;
+        require!(escrow.mint.is_none(), ErrorCode::UsesToken);
+        require!(escrow.is_accepted, ErrorCode::NotAccepted);
+        require!(!escrow.is_released, ErrorCode::AlreadyReleased);
+        require!(!escrow.is_refunded, ErrorCode::AlreadyRefunded);
+        require!(!escrow.is_disputed, ErrorCode::EscrowDisputed);
+        require!(freelancer_bps <= 10_000, ErrorCode::InvalidSplit);
+
+        escrow.settlement_proposal = Some(SettlementProposal {
+            proposer: ctx.accounts.party.key(),
+            freelancer_bps,
+        });
+
+        Ok(())
+    }
+
+    // freelancer_bps: u16, The split the accepting party agreed to. It must match the
+    // pending proposal, so a proposal replaced in the meantime is not accepted by mistake.
+    pub fn accept_settlement(ctx: Context<AcceptSettlement>, freelancer_bps: u16) -> Result<()> {
+        let escrow = &ctx.accounts.escrow;
+        let proposal = escrow
+            .settlement_proposal
+            .clone()
+            .ok_or(ErrorCode::NoSettlementProposal)?;
+        require!(
+            proposal.proposer != ctx.accounts.party.key(),
+            ErrorCode::OwnSettlementProposal
+        );
+        require!(proposal.freelancer_bps == freelancer_bps, ErrorCode::SettlementMismatch);
+        require!(!escrow.is_released, ErrorCode::AlreadyReleased);
+        require!(!escrow.is_refunded, ErrorCode::AlreadyRefunded);
+        require!(!escrow.is_disputed, ErrorCode::EscrowDisputed);
+
+        // The freelancer's share pays the platform fee like any other release
+        let freelancer_amount = (escrow.amount as u128 * freelancer_bps as u128 / 10_000) as u64;
+        pay_out(
+            &ctx.accounts.escrow.to_account_info(),
+            &ctx.accounts.freelancer.to_account_info(),
+            &ctx.accounts.treasury.to_account_info(),
+            freelancer_amount,
+            ctx.accounts.config.fee_bps,
+        )?;
+
+        let client_amount = escrow.amount - freelancer_amount;
+        let escrow = &mut ctx.accounts.escrow;
+        escrow.amount = 0;
+        record_movement(escrow, FundMovementKind::Release, freelancer_amount)?;
+        record_movement(escrow, FundMovementKind::Refund, client_amount)?;
+
+        // The close constraint returns the client's share along with the rent
+        Ok(())
+    }
+
+    // The other party rejects the pending settlement, or its proposer withdraws it
+    pub fn reject_settlement(ctx: Context<UpdateSettlement>) -> Result<()> {
+        let escrow = &mut ctx.accounts.escrow;
+        require!(escrow.settlement_proposal.is_some(), ErrorCode::NoSettlementProposal);
+
+        escrow.settlement_proposal = None;
+
+        Ok(())
+    }
+
+    // SPL token escrows hold `amount` base units of `mint` in a vault token account
+    // owned by the escrow PDA. They have a single payment and no arbiter.
+    pub fn create_token_escrow(
+        ctx: Context<CreateTokenEscrow>,
+        escrow_id: String,
+        amount: u64,
+        deadline: i64,
+        review_period: i64,
+    ) -> Result<()> {
+        require!(escrow_id.len() <= 32, ErrorCode::EscrowIdTooLong);
+        require!(amount > 0, ErrorCode::InvalidAmount);
+        validate_review_period(review_period)?;
+
+        let clock = Clock::get()?;
+        require!(deadline > clock.unix_timestamp, ErrorCode::InvalidDeadline);
+
+        // Transfer tokens from the client's token account to the vault
+        token::transfer(
+            CpiContext::new(
+                ctx.accounts.token_program.to_account_info(),
+                token::Transfer {
+                    from: ctx.accounts.client_token.to_account_info(),
+                    to: ctx.accounts.vault.to_account_info(),
+                    authority: ctx.accounts.client.to_account_info(),
+                },
+            ),
+            amount,
+        )?;
+
+        let escrow = &mut ctx.accounts.escrow;
+        escrow.client = ctx.accounts.client.key();
+        escrow.freelancer = ctx.accounts.freelancer.key();
+        escrow.arbiter = None;
+        escrow.config = ctx.accounts.config.key();
+        escrow.mint = Some(ctx.accounts.mint.key());
+        escrow.amount = amount;
+        escrow.deadline = deadline;
+        escrow.review_period = review_period;
+        escrow.created_at = clock.unix_timestamp;
+        escrow.submitted_at = None;
+        escrow.released_at = None;
+        escrow.deadline_proposal = None;
+        escrow.settlement_proposal = None;
+        escrow.is_accepted = false;
+        escrow.is_submitted = false;
+        escrow.is_released = false;
+        escrow.is_refunded = false;
+        escrow.is_disputed = false;
+        escrow.metadata_ref = String::new();
+        escrow.escrow_id = escrow_id;
+        escrow.bump = ctx.bumps.escrow;
+        escrow.milestones = Vec::new();
+        escrow.revisions = Vec::new();
+        record_movement(escrow, FundMovementKind::Deposit, amount)?;
+
+        Ok(())
+    }
+
+    pub fn approve_token_release(ctx: Context<ApproveTokenRelease>) -> Result<()> {
+        let escrow = &ctx.accounts.escrow;
+        require!(escrow.is_submitted, ErrorCode::WorkNotSubmitted);
+        require!(!escrow.is_released, ErrorCode::AlreadyReleased);
+
+        // Pay the freelancer from the vault, less the platform fee to the treasury
+        pay_out_tokens(
+            escrow,
+            &ctx.accounts.vault,
+            &ctx.accounts.freelancer_token,
+            &ctx.accounts.treasury_token,
+            &ctx.accounts.token_program,
+            escrow.amount,
+            ctx.accounts.config.fee_bps,
+        )?;
+
+        let escrow = &mut ctx.accounts.escrow;
+        let released = escrow.amount;
+        escrow.is_released = true;
+        escrow.released_at = Some(Clock::get()?.unix_timestamp);
+        escrow.amount = 0;
+        record_movement(escrow, FundMovementKind::Release, released)?;
+
+        Ok(())
+    }
+
+    pub fn trigger_token_auto_release(ctx: Context<TriggerTokenAutoRelease>) -> Result<()> {
+        let escrow = &ctx.accounts.escrow;
+        require!(escrow.is_submitted, ErrorCode::WorkNotSubmitted);
+        require!(!escrow.is_released, ErrorCode::AlreadyReleased);
+
+        let clock = Clock::get()?;
+        require!(clock.unix_timestamp > escrow.deadline, ErrorCode::DeadlineNotPassed);
+        require!(
+            clock.unix_timestamp > escrow.review_ends_at(escrow.submitted_at),
+            ErrorCode::ReviewPeriodActive
+        );
+
+        // Pay the freelancer from the vault, less the platform fee to the treasury
+        pay_out_tokens(
+            escrow,
+            &ctx.accounts.vault,
+            &ctx.accounts.freelancer_token,
+            &ctx.accounts.treasury_token,
+            &ctx.accounts.token_program,
+            escrow.amount,
+            ctx.accounts.config.fee_bps,
+        )?;
+
+        let escrow = &mut ctx.accounts.escrow;
+        let released = escrow.amount;
+        escrow.is_released = true;
+        escrow.released_at = Some(clock.unix_timestamp);
+        escrow.amount = 0;
+        record_movement(escrow, FundMovementKind::Release, released)?;
+
+        Ok(())
+    }
+
+    pub fn refund_token_escrow(ctx: Context<RefundTokenEscrow>) -> Result<()> {
+        let escrow = &ctx.accounts.escrow;
+        require!(!escrow.is_released, ErrorCode::AlreadyReleased);
+        require!(!escrow.is_refunded, ErrorCode::AlreadyRefunded);
+
+        // Until the freelancer accepts, the client can withdraw at any time
+        if escrow.is_accepted {
+            require!(!escrow.is_submitted, ErrorCode::AlreadySubmitted);
+
+            let clock = Clock::get()?;
+            require!(clock.unix_timestamp > escrow.deadline, ErrorCode::RefundBeforeDeadline);
+        }
+
+        // Return the tokens from the vault to the client
+        transfer_from_vault(
+            escrow,
+            &ctx.accounts.vault,
+            &ctx.accounts.client_token,
+            &ctx.accounts.token_program,
+            escrow.amount,
+        )?;
+
+        let escrow = &mut ctx.accounts.escrow;
+        let refunded = escrow.amount;
+        escrow.is_refunded = true;
+        escrow.amount = 0;
+        record_movement(escrow, FundMovementKind::Refund, refunded)?;
+
+        Ok(())
+    }
+
+    pub fn close_escrow(ctx: Context<CloseEscrow>) -> Result<()> {
+        let escrow = &ctx.accounts.escrow;
+        require!(escrow.mint.is_none(), ErrorCode::UsesToken);
+        require!(escrow.is_released || escrow.is_refunded, ErrorCode::NotSettled);
+
+        // The close constraint returns the remaining rent to the client
+        Ok(())
+    }
+
+    pub fn close_token_escrow(ctx: Context<CloseTokenEscrow>) -> Result<()> {
+        let escrow = &ctx.accounts.escrow;
+        require!(escrow.is_released || escrow.is_refunded, ErrorCode::NotSettled);
+
+        // Settlement only moves escrow.amount, so tokens sent straight to the vault are
+        // still there; sweep them to the party the escrow paid so the vault can be closed
+        transfer_from_vault(
+            escrow,
+            &ctx.accounts.vault,
+            &ctx.accounts.recipient_token,
+            &ctx.accounts.token_program,
+            ctx.accounts.vault.amount,
+        )?;
+
+        // Close the vault too so its rent goes back to the client
+        close_vault(
+            escrow,
+            &ctx.accounts.vault,
+            &ctx.accounts.client,
+            &ctx.accounts.token_program,
+        )
+    }
+}
+
+fn validate_arbiter(arbiter: Option<Pubkey>, client: &Pubkey, freelancer: &Pubkey) -> Result<()> {
+    if let Some(arbiter) = arbiter {
+        require!(
+            arbiter != *client && arbiter != *freelancer,
+            ErrorCode::InvalidArbiter
+        );
+    }
+    Ok(())
+}
+
+// Log a movement of escrowed funds for the escrow's funding ledger.
+// Events outlive the account, so the ledger stays readable after close.
+fn record_movement<'info>(escrow: &Account<'info, EscrowAccount>, kind: FundMovementKind, amount: u64) -> Result<()> {
+    emit!(FundsMoved {
+        escrow: escrow.key(),
+        kind,
+        amount,
+        balance: escrow.amount,
+        timestamp: Clock::get()?.unix_timestamp,
+    });
+    Ok(())
+}
+
+fn validate_review_period(review_period: i64) -> Result<()> {
+    require!(
+        (0..=MAX_REVIEW_PERIOD).contains(&review_period),
+        ErrorCode::InvalidReviewPeriod
+    );
+    Ok(())
+}
+
+// Move amount out of the escrow: fee_bps of it to the treasury, the rest to the freelancer
+fn pay_out<'info>(
+    escrow: &AccountInfo<'info>,
+    freelancer: &AccountInfo<'info>,
+    treasury: &AccountInfo<'info>,
+    amount: u64,
+    fee_bps: u16,
+) -> Result<()> {
+    let fee = (amount as u128 * fee_bps as u128 / 10_000) as u64;
+    **escrow.try_borrow_mut_lamports()? -= amount;
+    **treasury.try_borrow_mut_lamports()? += fee;
+    **freelancer.try_borrow_mut_lamports()? += amount - fee;
+    Ok(())
+}
+
+// Move tokens out of the vault, signed by the escrow PDA that owns it
+fn transfer_from_vault<'info>(
+    escrow: &Account<'info, EscrowAccount>,
+    vault: &Account<'info, TokenAccount>,
+    to: &Account<'info, TokenAccount>,
+    token_program: &Program<'info, Token>,
+    amount: u64,
+) -> Result<()> {
+    if amount == 0 {
+        return Ok(());
+    }
+
+    let bump = [escrow.bump];
+    let seeds: &[&[u8]] = &[
+        b"escrow",
+        escrow.client.as_ref(),
+        escrow.freelancer.as_ref(),
+        escrow.escrow_id.as_bytes(),
+        &bump,
+    ];
+    token::transfer(
+        CpiContext::new_with_signer(
+            token_program.to_account_info(),
+            token::Transfer {
+                from: vault.to_account_info(),
+                to: to.to_account_info(),
+                authority: escrow.to_account_info(),
+            },
+            &[seeds],
+        ),
+        amount,
+    )
+}
+
+fn close_vault<'info>(
+    escrow: &Account<'info, EscrowAccount>,
+    vault: &Account<'info, TokenAccount>,
+    destination: &Signer<'info>,
+    token_program: &Program<'info, Token>,
+) -> Result<()> {
+    let bump = [escrow.bump];
+    let seeds: &[&[u8]] = &[
+        b"escrow",
+        escrow.client.as_ref(),
+        escrow.freelancer.as_ref(),
+        escrow.escrow_id.as_bytes(),
+        &bump,
+    ];
+    token::close_account(CpiContext::new_with_signer(
+        token_program.to_account_info(),
+        token::CloseAccount {
+            account: vault.to_account_info(),
+            destination: destination.to_account_info(),
+            authority: escrow.to_account_info(),
+        },
+        &[seeds],
+    ))
+}
+
+// Token counterpart of pay_out: fee_bps of amount to the treasury, the rest to the freelancer
+fn pay_out_tokens<'info>(
+    escrow: &Account<'info, EscrowAccount>,
+    vault: &Account<'info, TokenAccount>,
+    freelancer_token: &Account<'info, TokenAccount>,
+    treasury_token: &Account<'info, TokenAccount>,
+    token_program: &Program<'info, Token>,
+    amount: u64,
+    fee_bps: u16,
+) -> Result<()> {
+    let fee = (amount as u128 * fee_bps as u128 / 10_000) as u64;
+    transfer_from_vault(escrow, vault, treasury_token, token_program, fee)?;
+    transfer_from_vault(escrow, vault, freelancer_token, token_program, amount - fee)
+}
+
+// Pay one milestone to the freelancer; the escrow counts as released once all milestones are
+fn release_milestone<'info>(
+    escrow: &mut Account<'info, EscrowAccount>,
+    freelancer: &AccountInfo<'info>,
+    treasury: &AccountInfo<'info>,
+    fee_bps: u16,
+    index: usize,
+) -> Result<()> {
+    let amount = escrow.milestones[index].amount;
+    pay_out(&escrow.to_account_info(), freelancer, treasury, amount, fee_bps)?;
+
+    escrow.milestones[index].is_released = true;
+    escrow.amount = escrow.amount.saturating_sub(amount);
+    escrow.is_released = escrow.milestones.iter().all(|m| m.is_released);
+    if escrow.is_released {
+        escrow.released_at = Some(Clock::get()?.unix_timestamp);
+    }
+    record_movement(escrow, FundMovementKind::Release, amount)?;
+
+    Ok(())
+}
+
+// ============== ACCOUNT STRUCTURES ==============
+
+#[account]
+pub struct Config {
+    pub bump: u8,
+    pub authority: Pubkey,
+    pub is_active: bool,
+    pub is_paused: bool,
+    pub fee_bps: u16,
+    pub treasury: Pubkey,
+    pub version: u8,
+}
+
+impl Config {
+    pub const LEN: usize = 1 + 32 + 1 + 1 + 2 + 32 + 1;
+}
+
+#[account]
+pub struct EscrowAccount {
+    pub client: Pubkey,
+    pub freelancer: Pubkey,
+    // Kept before variable-length fields so escrows can be filtered by arbiter
+    pub arbiter: Option<Pubkey>,
+    // Config whose fee and treasury apply to releases
+    pub config: Pubkey,
+    // SPL mint held in the escrow's vault, None for native SOL
+    pub mint: Option<Pubkey>,
+    pub amount: u64,
+    pub deadline: i64,
+    // Seconds the client has to review a submission before it can be auto-released
+    pub review_period: i64,
+    // Unix timestamps from the Clock sysvar. submitted_at is the latest submission
+    // (of any milestone) and is cleared when a revision is requested.
+    pub created_at: i64,
+    pub submitted_at: Option<i64>,
+    pub released_at: Option<i64>,
+    // Later deadline proposed by one party, applied once the other accepts
+    pub deadline_proposal: Option<DeadlineProposal>,
+    // Split of the locked funds proposed by one party; paid out and closed once the other accepts
+    pub settlement_proposal: Option<SettlementProposal>,
+    // Set once the freelancer signs accept_escrow; until then the client can withdraw
+    pub is_accepted: bool,
+    pub is_submitted: bool,
+    pub is_released: bool,
+    pub is_refunded: bool,
+    pub is_disputed: bool,
+    pub metadata_ref: String,
+    pub escrow_id: String,
+    pub bump: u8,
+    // Empty for single-payment escrows. Otherwise amount is what remains locked,
+    // deadline is the final milestone's, and the flags are set once every milestone is.
+    pub milestones: Vec<Milestone>,
+    // Submissions the client sent back, oldest first. The account grows by one
+    // Revision each time, paid by the client.
+    pub revisions: Vec<Revision>,
+}
+
+impl EscrowAccount {
+    // Size with no milestones or revisions
+    pub const LEN: usize = 32
+        + 32
+        + (1 + 32)
+        + 32
+        + (1 + 32)
+        + 8
+        + 8
+        + 8
+        + 8
+        + (1 + 8)
+        + (1 + 8)
+        + (1 + DeadlineProposal::LEN)
+        + (1 + SettlementProposal::LEN)
+        + 1
+        + 1
+        + 1
+        + 1
+        + 1
+        + (4 + 256)
+        + (4 + 32)
+        + 1
+        + 4
+        + 4;
+
+    pub fn space(milestone_count: usize) -> usize {
+        Self::LEN + milestone_count * Milestone::LEN
+    }
+
+    // End of the review period for a submission; auto-release also waits for the deadline
+    pub fn review_ends_at(&self, submitted_at: Option<i64>) -> i64 {
+        submitted_at
+            .unwrap_or_default()
+            .saturating_add(self.review_period)
+    }
+
+    // Deadline of the first unreleased milestone, or the escrow deadline
+    pub fn current_deadline(&self) -> i64 {
+        self.milestones
+            .iter()
+            .find(|m| !m.is_released)
+            .map_or(self.deadline, |m| m.deadline)
+    }
+
+    // Disputes and revisions stay open until auto-release becomes possible, which needs
+    // both the current deadline and the review period of the current submission to pass
+    pub fn objection_deadline(&self) -> i64 {
+        let submitted_at = self
+            .milestones
+            .iter()
+            .find(|m| !m.is_released)
+            .map_or(self.submitted_at, |m| m.submitted_at);
+        self.current_deadline().max(self.review_ends_at(submitted_at))
+    }
+}
+
+#[derive(AnchorSerialize, AnchorDeserialize, Clone)]
+pub struct DeadlineProposal {
+    pub proposer: Pubkey,
+    pub deadline: i64,
+}
+
+impl DeadlineProposal {
+    pub const LEN: usize = 32 + 8;
+}
+
+#[derive(AnchorSerialize, AnchorDeserialize, Clone)]
+pub struct SettlementProposal {
+    pub proposer: Pubkey,
+    pub freelancer_bps: u16,
+}
+
+impl SettlementProposal {
+    pub const LEN: usize = 32 + 2;
+}
+
+#[derive(AnchorSerialize, AnchorDeserialize, Clone)]
+pub struct Milestone {
+    pub amount: u64,
+    pub deadline: i64,
+    pub metadata_ref: String,
+    pub submitted_at: Option<i64>,
+    pub is_submitted: bool,
+    pub is_released: bool,
+}
+
+impl Milestone {
+    pub const LEN: usize = 8 + 8 + (4 + 256) + (1 + 8) + 1 + 1;
+}
+
+#[derive(AnchorSerialize, AnchorDeserialize, Clone)]
+pub struct Revision {
+    pub submission_ref: String,
+    pub reason_ref: String,
+}
+
+impl Revision {
+    pub const LEN: usize = (4 + 256) + (4 + 256);
+}
+
+#[derive(AnchorSerialize, AnchorDeserialize, Clone, Copy)]
+pub enum FundMovementKind {
+    // Client locked funds, at creation or with deposit_more
+    Deposit,
+    // Paid to the freelancer, before the platform fee
+    Release,
+    // Returned to the client
+    Refund,
+}
+
+#[event]
+pub struct FundsMoved {
+    pub escrow: Pubkey,
+    pub kind: FundMovementKind,
+    // Lamports, or token base units for token escrows
+    pub amount: u64,
+    // Funds still locked in the escrow afterwards
+    pub balance: u64,
+    pub timestamp: i64,
+}
+
+#[derive(AnchorSerialize, AnchorDeserialize, Clone)]
+pub struct MilestoneInput {
+    pub amount: u64,
+    pub deadline: i64,
+}
+
+// ============== CONTEXT STRUCTS ==============
+
+#[derive(Accounts)]
+pub struct InitializeConfig<'info> {
+    #[account(
+        init,
+        seeds = [b"config"],
+        bump,
+        payer = authority,
+        space = 8 + Config::LEN
+    )]
+    pub config: Account<'info, Config>,
+    #[account(mut)]
+    pub authority: Signer<'info>,
+    #[account(
+        constraint = program.programdata_address()? == Some(program_data.key()) @ ErrorCode::UnauthorizedAuthority
+    )]
+    pub program: Program<'info, crate::program::Workspace>,
+    #[account(
+        constraint = program_data.upgrade_authority_address == Some(authority.key()) @ ErrorCode::UnauthorizedAuthority
+    )]
+    pub program_data: Account<'info, ProgramData>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+pub struct SetPaused<'info> {
+    #[account(mut, has_one = authority @ ErrorCode::UnauthorizedAuthority)]
+    pub config: Account<'info, Config>,
+    pub authority: Signer<'info>,
+}
+
+#[derive(Accounts)]
+#[instruction(escrow_id: String)]
+pub struct CreateEscrow<'info> {
+    #[account(
+        init,
+        seeds = [
+            b"escrow",
+            client.key().as_ref(),
+            freelancer.key().as_ref(),
+            escrow_id.as_bytes()
+        ],
+        bump,
+        payer = client,
+        space = 8 + EscrowAccount::LEN
+    )]
+    pub escrow: Account<'info, EscrowAccount>,
+    #[account(mut)]
+    pub client: Signer<'info>,
+    /// CHECK: Freelancer account, validated by being stored in escrow
+    pub freelancer: UncheckedAccount<'info>,
+    #[account(
+        seeds = [b"config"],
+        bump = config.bump,
+        constraint = !config.is_paused @ ErrorCode::ProgramPaused
+    )]
+    pub config: Account<'info, Config>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+#[instruction(escrow_id: String, milestones: Vec<MilestoneInput>)]
+pub struct CreateMilestoneEscrow<'info> {
+    #[account(
+        init,
+        seeds = [
+            b"escrow",
+            client.key().as_ref(),
+            freelancer.key().as_ref(),
+            escrow_id.as_bytes()
+        ],
+        bump,
+        payer = client,
+        space = 8 + EscrowAccount::space(milestones.len())
+    )]
+    pub escrow: Account<'info, EscrowAccount>,
+    #[account(mut)]
+    pub client: Signer<'info>,
+    /// CHECK: Freelancer account, validated by being stored in escrow
+    pub freelancer: UncheckedAccount<'info>,
+    #[account(
+        seeds = [b"config"],
+        bump = config.bump,
+        constraint = !config.is_paused @ ErrorCode::ProgramPaused
+    )]
+    pub config: Account<'info, Config>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+pub struct AcceptEscrow<'info> {
+    #[account(
+        mut,
+        seeds = [
+            b"escrow",
+            escrow.client.as_ref(),
+            freelancer.key().as_ref(),
+            escrow.escrow_id.as_bytes()
+        ],
+        bump = escrow.bump,
+        constraint = escrow.freelancer == freelancer.key() @ ErrorCode::UnauthorizedFreelancer
+    )]
+    pub escrow: Account<'info, EscrowAccount>,
+    pub freelancer: Signer<'info>,
+}
+
+#[derive(Accounts)]
+pub struct SubmitWork<'info> {
+    #[account(
+        mut,
+        seeds = [
+            b"escrow",
+            escrow.client.as_ref(),
+            freelancer.key().as_ref(),
+            escrow.escrow_id.as_bytes()
+        ],
+        bump = escrow.bump,
+        has_one = config @ ErrorCode::InvalidConfig,
+        constraint = escrow.freelancer == freelancer.key() @ ErrorCode::UnauthorizedFreelancer
+    )]
+    pub escrow: Account<'info, EscrowAccount>,
+    #[account(mut)]
+    pub freelancer: Signer<'info>,
+    #[account(
+        seeds = [b"config"],
+        bump = config.bump,
+        constraint = !config.is_paused @ ErrorCode::ProgramPaused
+    )]
+    pub config: Account<'info, Config>,
+}
+
+#[derive(Accounts)]
+pub struct RequestRevision<'info> {
+    #[account(
+        mut,
+        seeds = [
+            b"escrow",
+            client.key().as_ref(),
+            escrow.freelancer.as_ref(),
+            escrow.escrow_id.as_bytes()
+        ],
+        bump = escrow.bump,
+        constraint = escrow.client == client.key() @ ErrorCode::UnauthorizedClient,
+        realloc = escrow.to_account_info().data_len() + Revision::LEN,
+        realloc::payer = client,
+        realloc::zero = false
+    )]
+    pub escrow: Account<'info, EscrowAccount>,
+    #[account(mut)]
+    pub client: Signer<'info>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+pub struct ApproveRelease<'info> {
+    #[account(
+        mut,
+        seeds = [
+            b"escrow",
+            client.key().as_ref(),
+            escrow.freelancer.as_ref(),
+            escrow.escrow_id.as_bytes()
+        ],
+        bump = escrow.bump,
+        has_one = config @ ErrorCode::InvalidConfig,
+        constraint = escrow.client == client.key() @ ErrorCode::UnauthorizedClient
+    )]
+    pub escrow: Account<'info, EscrowAccount>,
+    #[account(mut)]
+    pub client: Signer<'info>,
+    /// CHECK: Freelancer account to receive funds, validated by escrow.freelancer
+    #[account(
+        mut,
+        constraint = freelancer.key() == escrow.freelancer @ ErrorCode::UnauthorizedFreelancer
+    )]
+    pub freelancer: UncheckedAccount<'info>,
+    #[account(has_one = treasury @ ErrorCode::InvalidTreasury)]
+    pub config: Account<'info, Config>,
+    /// CHECK: Fee recipient, validated by config.treasury
+    #[account(mut)]
+    pub treasury: UncheckedAccount<'info>,
+}
+
+#[derive(Accounts)]
+pub struct DepositMore<'info> {
+    #[account(
+        mut,
+        seeds = [
+            b"escrow",
+            client.key().as_ref(),
+            escrow.freelancer.as_ref(),
+            escrow.escrow_id.as_bytes()
+        ],
+        bump = escrow.bump,
+        has_one = config @ ErrorCode::InvalidConfig,
+        constraint = escrow.client == client.key() @ ErrorCode::UnauthorizedClient
+    )]
+    pub escrow: Account<'info, EscrowAccount>,
+    #[account(mut)]
+    pub client: Signer<'info>,
+    #[account(
+        seeds = [b"config"],
+        bump = config.bump,
+        constraint = !config.is_paused @ ErrorCode::ProgramPaused
+    )]
+    pub config: Account<'info, Config>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+pub struct TriggerAutoRelease<'info> {
+    #[account(
+        mut,
+        seeds = [
+            b"escrow",
+            escrow.client.as_ref(),
+            escrow.freelancer.as_ref(),
+            escrow.escrow_id.as_bytes()
+        ],
+        bump = escrow.bump,
+        has_one = config @ ErrorCode::InvalidConfig
+    )]
+    pub escrow: Account<'info, EscrowAccount>,
+    /// CHECK: Freelancer account to receive funds, validated by escrow.freelancer
+    #[account(
+        mut,
+        constraint = freelancer.key() == escrow.freelancer @ ErrorCode::UnauthorizedFreelancer
+    )]
+    pub freelancer: UncheckedAccount<'info>,
+    #[account(has_one = treasury @ ErrorCode::InvalidTreasury)]
+    pub config: Account<'info, Config>,
+    /// CHECK: Fee recipient, validated by config.treasury
+    #[account(mut)]
+    pub treasury: UncheckedAccount<'info>,
+}
+
+#[derive(Accounts)]
+pub struct RefundEscrow<'info> {
+    #[account(
+        mut,
+        seeds = [
+            b"escrow",
+            client.key().as_ref(),
+            escrow.freelancer.as_ref(),
+            escrow.escrow_id.as_bytes()
+        ],
+        bump = escrow.bump,
+        constraint = escrow.client == client.key() @ ErrorCode::UnauthorizedClient
+    )]
+    pub escrow: Account<'info, EscrowAccount>,
+    #[account(mut)]
+    pub client: Signer<'info>,
+}
+
+#[derive(Accounts)]
+pub struct RaiseDispute<'info> {
+    #[account(
+        mut,
+        seeds = [
+            b"escrow",
+            escrow.client.as_ref(),
+            escrow.freelancer.as_ref(),
+            escrow.escrow_id.as_bytes()
+        ],
+        bump = escrow.bump,
+        constraint = party.key() == escrow.client || party.key() == escrow.freelancer @ ErrorCode::UnauthorizedParty
+    )]
+    pub escrow: Account<'info, EscrowAccount>,
+    pub party: Signer<'info>,
+}
+
+#[derive(Accounts)]
+pub struct UpdateDeadline<'info> {
+    #[account(
+        mut,
+        seeds = [
+            b"escrow",
+            escrow.client.as_ref(),
+            escrow.freelancer.as_ref(),
+            escrow.escrow_id.as_bytes()
+        ],
+        bump = escrow.bump,
+        constraint = party.key() == escrow.client || party.key() == escrow.freelancer @ ErrorCode::UnauthorizedParty
+    )]
+    pub escrow: Account<'info, EscrowAccount>,
+    pub party: Signer<'info>,
+}
+
+#[derive(Accounts)]
+pub struct ResolveDispute<'info> {
+    #[account(
+        mut,
+        seeds = [
+            b"escrow",
+            escrow.client.as_ref(),
+            escrow.freelancer.as_ref(),
+            escrow.escrow_id.as_bytes()
+        ],
+        bump = escrow.bump,
+        has_one = config @ ErrorCode::InvalidConfig,
+        constraint = escrow.arbiter == Some(arbiter.key()) @ ErrorCode::UnauthorizedArbiter
+    )]
+    pub escrow: Account<'info, EscrowAccount>,
+    pub arbiter: Signer<'info>,
+    /// CHECK: Client account to receive its share, validated by escrow.client
+    #[account(
+        mut,
+        constraint = client.key() == escrow.client @ ErrorCode::UnauthorizedClient
+    )]
+    pub client: UncheckedAccount<'info>,
+    /// CHECK: Freelancer account to receive its share, validated by escrow.freelancer
+    #[account(
+        mut,
+        constraint = freelancer.key() == escrow.freelancer @ ErrorCode::UnauthorizedFreelancer
+    )]
+    pub freelancer: UncheckedAccount<'info>,
+    #[account(has_one = treasury @ ErrorCode::InvalidTreasury)]
+    pub config: Account<'info, Config>,
+    /// CHECK: Fee recipient, validated by config.treasury
+    #[account(mut)]
+    pub treasury: UncheckedAccount<'info>,
+}
+
+#[derive(Accounts)]
+pub struct UpdateSettlement<'info> {
+    #[account(
+        mut,
+        seeds = [
+            b"escrow",
+            escrow.client.as_ref(),
+            escrow.freelancer.as_ref(),
+            escrow.escrow_id.as_bytes()
+        ],
+        bump = escrow.bump,
+        constraint = party.key() == escrow.client || party.key() == escrow.freelancer @ ErrorCode::UnauthorizedParty
+    )]
+    pub escrow: Account<'info, EscrowAccount>,
+    pub party: Signer<'info>,
+}
+
+#[derive(Accounts)]
+pub struct AcceptSettlement<'info> {
+    #[account(
+        mut,
+        seeds = [
+            b"escrow",
+            escrow.client.as_ref(),
+            escrow.freelancer.as_ref(),
+            escrow.escrow_id.as_bytes()
+        ],
+        bump = escrow.bump,
+        has_one = config @ ErrorCode::InvalidConfig,
+        constraint = party.key() == escrow.client || party.key() == escrow.freelancer @ ErrorCode::UnauthorizedParty,
+        close = client
+    )]
+    pub escrow: Account<'info, EscrowAccount>,
+    pub party: Signer<'info>,
+    /// CHECK: Client account to receive its share and the rent, validated by escrow.client
+    #[account(
+        mut,
+        constraint = client.key() == escrow.client @ ErrorCode::UnauthorizedClient
+    )]
+    pub client: UncheckedAccount<'info>,
+    /// CHECK: Freelancer account to receive its share, validated by escrow.freelancer
+    #[account(
+        mut,
+        constraint = freelancer.key() == escrow.freelancer @ ErrorCode::UnauthorizedFreelancer
+    )]
+    pub freelancer: UncheckedAccount<'info>,
+    #[account(has_one = treasury @ ErrorCode::InvalidTreasury)]
+    pub config: Account<'info, Config>,
+    /// CHECK: Fee recipient, validated by config.treasury
+    #[account(mut)]
+    pub treasury: UncheckedAccount<'info>,
+}
+
+#[derive(Accounts)]
+#[instruction(escrow_id: String)]
+pub struct CreateTokenEscrow<'info> {
+    #[account(
+        init,
+        seeds = [
+            b"escrow",
+            client.key().as_ref(),
+            freelancer.key().as_ref(),
+            escrow_id.as_bytes()
+        ],
+        bump,
+        payer = client,
+        space = 8 + EscrowAccount::LEN
+    )]
+    pub escrow: Account<'info, EscrowAccount>,
+    #[account(mut)]
+    pub client: Signer<'info>,
+    /// CHECK: Freelancer account, validated by being stored in escrow
+    pub freelancer: UncheckedAccount<'info>,
+    #[account(
+        seeds = [b"config"],
+        bump = config.bump,
+        constraint = !config.is_paused @ ErrorCode::ProgramPaused
+    )]
+    pub config: Account<'info, Config>,
+    pub mint: Account<'info, Mint>,
+    #[account(
+        mut,
+        token::mint = mint,
+        token::authority = client
+    )]
+    pub client_token: Account<'info, TokenAccount>,
+    #[account(
+        init,
+        seeds = [b"vault", escrow.key().as_ref()],
+        bump,
+        payer = client,
+        token::mint = mint,
+        token::authority = escrow
+    )]
+    pub vault: Account<'info, TokenAccount>,
+    pub token_program: Program<'info, Token>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+pub struct ApproveTokenRelease<'info> {
+    #[account(
+        mut,
+        seeds = [
+            b"escrow",
+            client.key().as_ref(),
+            escrow.freelancer.as_ref(),
+            escrow.escrow_id.as_bytes()
+        ],
+        bump = escrow.bump,
+        has_one = config @ ErrorCode::InvalidConfig,
+        constraint = escrow.client == client.key() @ ErrorCode::UnauthorizedClient
+    )]
+    pub escrow: Account<'info, EscrowAccount>,
+    #[account(mut)]
+    pub client: Signer<'info>,
+    #[account(
+        mut,
+        seeds = [b"vault", escrow.key().as_ref()],
+        bump
+    )]
+    pub vault: Account<'info, TokenAccount>,
+    #[account(
+        mut,
+        constraint = freelancer_token.owner == escrow.freelancer @ ErrorCode::UnauthorizedFreelancer,
+        constraint = freelancer_token.mint == vault.mint @ ErrorCode::InvalidMint
+    )]
+    pub freelancer_token: Account<'info, TokenAccount>,
+    pub config: Account<'info, Config>,
+    #[account(
+        mut,
+        constraint = treasury_token.owner == config.treasury @ ErrorCode::InvalidTreasury,
+        constraint = treasury_token.mint == vault.mint @ ErrorCode::InvalidMint
+    )]
+    pub treasury_token: Account<'info, TokenAccount>,
+    pub token_program: Program<'info, Token>,
+}
+
+#[derive(Accounts)]
+pub struct TriggerTokenAutoRelease<'info> {
+    #[account(
+        mut,
+        seeds = [
+            b"escrow",
+            escrow.client.as_ref(),
+            escrow.freelancer.as_ref(),
+            escrow.escrow_id.as_bytes()
+        ],
+        bump = escrow.bump,
+        has_one = config @ ErrorCode::InvalidConfig
+    )]
+    pub escrow: Account<'info, EscrowAccount>,
+    #[account(
+        mut,
+        seeds = [b"vault", escrow.key().as_ref()],
+        bump
+    )]
+    pub vault: Account<'info, TokenAccount>,
+    #[account(
+        mut,
+        constraint = freelancer_token.owner == escrow.freelancer @ ErrorCode::UnauthorizedFreelancer,
+        constraint = freelancer_token.mint == vault.mint @ ErrorCode::InvalidMint
+    )]
+    pub freelancer_token: Account<'info, TokenAccount>,
+    pub config: Account<'info, Config>,
+    #[account(
+        mut,
+        constraint = treasury_token.owner == config.treasury @ ErrorCode::InvalidTreasury,
+        constraint = treasury_token.mint == vault.mint @ ErrorCode::InvalidMint
+    )]
+    pub treasury_token: Account<'info, TokenAccount>,
+    pub token_program: Program<'info, Token>,
+}
+
+#[derive(Accounts)]
+pub struct RefundTokenEscrow<'info> {
+    #[account(
+        mut,
+        seeds = [
+            b"escrow",
+            client.key().as_ref(),
+            escrow.freelancer.as_ref(),
+            escrow.escrow_id.as_bytes()
+        ],
+        bump = escrow.bump,
+        constraint = escrow.client == client.key() @ ErrorCode::UnauthorizedClient
+    )]
+    pub escrow: Account<'info, EscrowAccount>,
+    #[account(mut)]
+    pub client: Signer<'info>,
+    #[account(
+        mut,
+        seeds = [b"vault", escrow.key().as_ref()],
+        bump
+    )]
+    pub vault: Account<'info, TokenAccount>,
+    #[account(
+        mut,
+        constraint = client_token.owner == client.key() @ ErrorCode::UnauthorizedClient,
+        constraint = client_token.mint == vault.mint @ ErrorCode::InvalidMint
+    )]
+    pub client_token: Account<'info, TokenAccount>,
+    pub token_program: Program<'info, Token>,
+}
+
+#[derive(Accounts)]
+pub struct CloseEscrow<'info> {
+    #[account(
+        mut,
+        seeds = [
+            b"escrow",
+            client.key().as_ref(),
+            escrow.freelancer.as_ref(),
+            escrow.escrow_id.as_bytes()
+        ],
+        bump = escrow.bump,
+        constraint = escrow.client == client.key() @ ErrorCode::UnauthorizedClient,
+        close = client
+    )]
+    pub escrow: Account<'info, EscrowAccount>,
+    #[account(mut)]
+    pub client: Signer<'info>,
+}
+
+#[derive(Accounts)]
+pub struct CloseTokenEscrow<'info> {
+    #[account(
+        mut,
+        seeds = [
+            b"escrow",
+            client.key().as_ref(),
+            escrow.freelancer.as_ref(),
+            escrow.escrow_id.as_bytes()
+        ],
+        bump = escrow.bump,
+        constraint = escrow.client == client.key() @ ErrorCode::UnauthorizedClient,
+        close = client
+    )]
+    pub escrow: Account<'info, EscrowAccount>,
+    #[account(mut)]
+    pub client: Signer<'info>,
+    #[account(
+        mut,
+        seeds = [b"vault", escrow.key().as_ref()],
+        bump
+    )]
+    pub vault: Account<'info, TokenAccount>,
+    // The freelancer's token account for a released escrow, the client's for a refunded one
+    #[account(
+        mut,
+        constraint = recipient_token.owner == if escrow.is_released { escrow.freelancer } else { client.key() }
+            @ ErrorCode::InvalidRecipient,
+        constraint = recipient_token.mint == vault.mint @ ErrorCode::InvalidMint
+    )]
+    pub recipient_token: Account<'info, TokenAccount>,
+    pub token_program: Program<'info, Token>,
 }
 
 // ============== ERROR CODES ==============
@@ -286,4 +1783,80 @@ pub enum ErrorCode {
     MetadataTooLong,
     #[msg("Escrow ID exceeds max length")]
     EscrowIdTooLong,
+    #[msg("Funds already refunded to client")]
+    AlreadyRefunded,
+    #[msg("Cannot refund before deadline")]
+    RefundBeforeDeadline,
+    #[msg("Milestone count must be between 1 and 10")]
+    InvalidMilestoneCount,
+    #[msg("Milestone index out of range")]
+    InvalidMilestone,
+    #[msg("Earlier milestones must be submitted first")]
+    MilestoneOutOfOrder,
+    #[msg("Escrow has milestones, use the milestone instructions")]
+    UsesMilestones,
+    #[msg("Arbiter must differ from client and freelancer")]
+    InvalidArbiter,
+    #[msg("Escrow has no arbiter")]
+    NoArbiter,
+    #[msg("Only client or freelancer can raise a dispute")]
+    UnauthorizedParty,
+    #[msg("Only the arbiter can resolve the dispute")]
+    UnauthorizedArbiter,
+    #[msg("Escrow is already disputed")]
+    AlreadyDisputed,
+    #[msg("Escrow is not disputed")]
+    NotDisputed,
+    #[msg("Escrow is under dispute")]
+    EscrowDisputed,
+    #[msg("Cannot raise a dispute after the deadline or the review period")]
+    DisputeAfterDeadline,
+    #[msg("Freelancer share must be at most 10000 basis points")]
+    InvalidSplit,
+    #[msg("Fee must be at most 10000 basis points")]
+    InvalidFee,
+    #[msg("Config does not match the escrow")]
+    InvalidConfig,
+    #[msg("Treasury does not match the config")]
+    InvalidTreasury,
+    #[msg("Program is paused")]
+    ProgramPaused,
+    #[msg("Only the config authority can do this")]
+    UnauthorizedAuthority,
+    #[msg("Escrow holds SPL tokens, use the token instructions")]
+    UsesToken,
+    #[msg("Token account mint does not match the escrow")]
+    InvalidMint,
+    #[msg("Escrow must be released or refunded before it is closed")]
+    NotSettled,
+    #[msg("No deadline extension has been proposed")]
+    NoDeadlineProposal,
+    #[msg("The other party must accept a deadline extension")]
+    OwnDeadlineProposal,
+    #[msg("Revisions can only be requested before the deadline or the end of the review period")]
+    RevisionAfterDeadline,
+    #[msg("Maximum revision rounds reached")]
+    TooManyRevisions,
+    #[msg("Freelancer has not accepted the escrow")]
+    NotAccepted,
+    #[msg("Freelancer has already accepted the escrow")]
+    AlreadyAccepted,
+    #[msg("Cannot accept an escrow after its deadline")]
+    InvitationExpired,
+    #[msg("Review period must be between 0 and 30 days")]
+    InvalidReviewPeriod,
+    #[msg("Work must be submitted before the deadline")]
+    SubmissionAfterDeadline,
+    #[msg("The client's review period has not ended")]
+    ReviewPeriodActive,
+    #[msg("No settlement has been proposed")]
+    NoSettlementProposal,
+    #[msg("The other party must accept the proposed settlement")]
+    OwnSettlementProposal,
+    #[msg("The proposed settlement has changed")]
+    SettlementMismatch,
+    #[msg("A partial release must leave funds in the escrow")]
+    PartialReleaseTooLarge,
+    #[msg("Leftover vault tokens must go to the party the escrow paid")]
+    InvalidRecipient,
 }
\ No newline at end of file
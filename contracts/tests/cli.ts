@@ -0,0 +1,168 @@
+import * as anchor from "@coral-xyz/anchor";
+import { expect } from "chai";
+import { execFileSync } from "child_process";
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join, resolve } from "path";
+import { Program } from "@coral-xyz/anchor";
+import { Keypair, LAMPORTS_PER_SOL } from "@solana/web3.js";
+import { Workspace } from "../target/types/workspace";
+import { ensurePlatformConfig } from "./platform";
+
+// Runs the escrow CLI against the local validator started by `anchor test`
+describe("escrow cli", () => {
+  const provider = anchor.AnchorProvider.env();
+  const program = anchor.workspace.Workspace as Program<Workspace>;
+  const tsx = resolve(__dirname, "../../node_modules/.bin/tsx");
+  const cli = resolve(__dirname, "../../cli/escrow.ts");
+
+  let clientKeypairPath: string;
+  let freelancer: Keypair;
+  let freelancerKeypairPath: string;
+  let escrowAddress: string;
+  let configAddress: string;
+
+  const escrow = (keypairPath: string, ...args: string[]) =>
+    JSON.parse(
+      execFileSync(
+        tsx,
+        [
+          cli,
+          ...args,
+          "--url",
+          provider.connection.rpcEndpoint,
+          "--keypair",
+          keypairPath,
+          "--program-id",
+          program.programId.toBase58(),
+          "--config",
+          configAddress,
+          "--json",
+        ],
+        { encoding: "utf8" }
+      )
+    );
+
+  before(async () => {
+    const dir = mkdtempSync(join(tmpdir(), "escrow-cli-"));
+    const client = Keypair.generate();
+    freelancer = Keypair.generate();
+
+    clientKeypairPath = join(dir, "client.json");
+    freelancerKeypairPath = join(dir, "freelancer.json");
+    writeFileSync(
+      clientKeypairPath,
+      JSON.stringify(Array.from(client.secretKey))
+    );
+    writeFileSync(
+      freelancerKeypairPath,
+      JSON.stringify(Array.from(freelancer.secretKey))
+    );
+
+    for (const keypair of [client, freelancer]) {
+      await provider.connection.confirmTransaction(
+        await provider.connection.requestAirdrop(
+          keypair.publicKey,
+          10 * LAMPORTS_PER_SOL
+        )
+      );
+    }
+
+    configAddress = (await ensurePlatformConfig(program, provider)).toBase58();
+  });
+
+  it("create locks SOL for the freelancer", () => {
+    const created = escrow(
+      clientKeypairPath,
+      "create",
+      "--freelancer",
+      freelancer.publicKey.toBase58(),
+      "--amount",
+      "0.5",
+      "--deadline",
+      "1h"
+    );
+    expect(created.signature).to.be.a("string");
+    escrowAddress = created.escrowAddress;
+
+    const shown = escrow(clientKeypairPath, "show", escrowAddress);
+    expect(shown.status).to.equal("awaiting_acceptance");
+    expect(shown.amount).to.equal(0.5);
+    expect(shown.freelancer).to.equal(freelancer.publicKey.toBase58());
+  });
+
+  it("accept binds the freelancer to the escrow", () => {
+    escrow(freelancerKeypairPath, "accept", escrowAddress);
+
+    const shown = escrow(freelancerKeypairPath, "show", escrowAddress);
+    expect(shown.status).to.equal("pending");
+  });
+
+  it("deposit tops up the escrow", () => {
+    escrow(clientKeypairPath, "deposit", escrowAddress, "--amount", "0.25");
+
+    const shown = escrow(clientKeypairPath, "show", escrowAddress);
+    expect(shown.amount).to.equal(0.75);
+  });
+
+  it("submit records the work reference", () => {
+    escrow(
+      freelancerKeypairPath,
+      "submit",
+      escrowAddress,
+      "ipfs://QmCliWorkProof"
+    );
+
+    const shown = escrow(freelancerKeypairPath, "show", escrowAddress);
+    expect(shown.status).to.equal("submitted");
+    expect(shown.metadataRef).to.equal("ipfs://QmCliWorkProof");
+  });
+
+  it("approve releases the funds", () => {
+    escrow(clientKeypairPath, "approve", escrowAddress);
+
+    const shown = escrow(clientKeypairPath, "show", escrowAddress);
+    expect(shown.status).to.equal("completed");
+  });
+
+  it("ledger lists every movement of the funds", () => {
+    const ledger = escrow(clientKeypairPath, "ledger", escrowAddress);
+
+    expect(ledger.map((entry) => entry.kind)).to.deep.equal([
+      "deposit",
+      "deposit",
+      "release",
+    ]);
+    expect(ledger.map((entry) => entry.balance)).to.deep.equal([0.5, 0.75, 0]);
+  });
+
+  it("list filters by role", () => {
+    const asClient = escrow(clientKeypairPath, "list", "--as", "client");
+    const asFreelancer = escrow(
+      clientKeypairPath,
+      "list",
+      "--as",
+      "freelancer"
+    );
+
+    expect(asClient.map((e) => e.address)).to.include(escrowAddress);
+    expect(asFreelancer.map((e) => e.address)).to.not.include(escrowAddress);
+  });
+
+  it("list exits as soon as the escrows are fetched", () => {
+    const start = Date.now();
+    escrow(clientKeypairPath, "list");
+
+    // The fetch timeout is 15s; a leftover timer would hold the process open
+    expect(Date.now() - start).to.be.lessThan(10_000);
+  });
+
+  it("auto-release reports the decoded program error", () => {
+    try {
+      escrow(clientKeypairPath, "auto-release", escrowAddress);
+      expect.fail("Should have thrown AlreadyReleased error");
+    } catch (error) {
+      expect(JSON.parse(error.stdout).code).to.equal("AlreadyReleased");
+    }
+  });
+});
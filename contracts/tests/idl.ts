@@ -0,0 +1,26 @@
+import { expect } from "chai";
+import { readFileSync } from "fs";
+import { resolve } from "path";
+
+// The SDK and frontend decode accounts with the IDL checked in under sdk/idl,
+// so it must stay identical to what `anchor build` generates from lib.rs
+describe("checked-in idl", () => {
+  const built = (path: string) =>
+    readFileSync(resolve(__dirname, "../target", path), "utf8");
+  const checkedIn = (path: string) =>
+    readFileSync(resolve(__dirname, "../../sdk/idl", path), "utf8");
+
+  it("matches the built program IDL", () => {
+    expect(
+      JSON.parse(checkedIn("workspace.json")),
+      "sdk/idl is stale, run `npm run idl:sync`"
+    ).to.deep.equal(JSON.parse(built("idl/workspace.json")));
+  });
+
+  it("matches the built program types", () => {
+    expect(
+      checkedIn("workspace.ts"),
+      "sdk/idl is stale, run `npm run idl:sync`"
+    ).to.equal(built("types/workspace.ts"));
+  });
+});
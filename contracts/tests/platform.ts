@@ -0,0 +1,128 @@
+import * as anchor from "@coral-xyz/anchor";
+import { Program } from "@coral-xyz/anchor";
+import { expect } from "chai";
+import {
+  Keypair,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SystemProgram,
+} from "@solana/web3.js";
+import { Workspace } from "../target/types/workspace";
+
+const BPF_LOADER_UPGRADEABLE = new PublicKey(
+  "BPFLoaderUpgradeab1e11111111111111111111111"
+);
+
+// `anchor test` deploys the program as upgradeable with the provider wallet as
+// its upgrade authority, the only key that can create the platform Config
+export const getPlatformAuthority = (provider: anchor.AnchorProvider) =>
+  (provider.wallet as anchor.Wallet).payer;
+export const platformTreasury = Keypair.generate();
+export const PLATFORM_FEE_BPS = 250; // 2.5%
+
+export const getPlatformConfigPDA = (program: Program<Workspace>) =>
+  PublicKey.findProgramAddressSync(
+    [Buffer.from("config")],
+    program.programId
+  )[0];
+
+export const getProgramDataAddress = (program: Program<Workspace>) =>
+  PublicKey.findProgramAddressSync(
+    [program.programId.toBuffer()],
+    BPF_LOADER_UPGRADEABLE
+  )[0];
+
+const initializeConfig = (
+  program: Program<Workspace>,
+  authority: Keypair,
+  feeBps: number
+) =>
+  program.methods
+    .initializeConfig(feeBps, platformTreasury.publicKey)
+    .accounts({
+      config: getPlatformConfigPDA(program),
+      authority: authority.publicKey,
+      program: program.programId,
+      programData: getProgramDataAddress(program),
+      systemProgram: SystemProgram.programId,
+    })
+    .signers([authority])
+    .rpc();
+
+// Every test file runs against the same validator, so the first one to need
+// the platform Config creates it and the others reuse it
+export async function ensurePlatformConfig(
+  program: Program<Workspace>,
+  provider: anchor.AnchorProvider
+): Promise<PublicKey> {
+  const configPDA = getPlatformConfigPDA(program);
+  if (await program.account.config.fetchNullable(configPDA)) return configPDA;
+
+  // Treasury only needs to be rent exempt to receive fees
+  await provider.connection.confirmTransaction(
+    await provider.connection.requestAirdrop(
+      platformTreasury.publicKey,
+      1 * LAMPORTS_PER_SOL
+    )
+  );
+
+  await initializeConfig(
+    program,
+    getPlatformAuthority(provider),
+    PLATFORM_FEE_BPS
+  );
+  return configPDA;
+}
+
+// Anchor.toml loads this file first (mocha --file): a Config can only be created
+// once, so the failing initializations have to run before it exists
+describe("platform config", () => {
+  const provider = anchor.AnchorProvider.env();
+  anchor.setProvider(provider);
+
+  const program = anchor.workspace.Workspace as Program<Workspace>;
+
+  it("Fail: Initialize config with fee above 100%", async () => {
+    try {
+      await initializeConfig(program, getPlatformAuthority(provider), 10001);
+      expect.fail("Should have thrown InvalidFee error");
+    } catch (error) {
+      expect(error.message).to.include("InvalidFee");
+    }
+  });
+
+  it("Fail: Initialize config by another authority", async () => {
+    const otherAuthority = Keypair.generate();
+    await provider.connection.confirmTransaction(
+      await provider.connection.requestAirdrop(
+        otherAuthority.publicKey,
+        1 * LAMPORTS_PER_SOL
+      )
+    );
+
+    try {
+      await initializeConfig(program, otherAuthority, 0);
+      expect.fail("Should have thrown UnauthorizedAuthority error");
+    } catch (error) {
+      expect(error.message).to.include("UnauthorizedAuthority");
+    }
+
+    const config = await program.account.config.fetchNullable(
+      getPlatformConfigPDA(program)
+    );
+    expect(config).to.equal(null);
+  });
+
+  it("Initialize Config by the upgrade authority", async () => {
+    const configPDA = await ensurePlatformConfig(program, provider);
+
+    const config = await program.account.config.fetch(configPDA);
+    expect(config.authority.toBase58()).to.equal(
+      getPlatformAuthority(provider).publicKey.toBase58()
+    );
+    expect(config.treasury.toBase58()).to.equal(
+      platformTreasury.publicKey.toBase58()
+    );
+    expect(config.feeBps).to.equal(PLATFORM_FEE_BPS);
+  });
+});
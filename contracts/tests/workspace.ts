@@ -9,6 +9,21 @@ import {
   LAMPORTS_PER_SOL,
 } from "@solana/web3.js";
 import { BN } from "@coral-xyz/anchor";
+import {
+  TOKEN_PROGRAM_ID,
+  createAssociatedTokenAccount,
+  createMint,
+  getAccount,
+  getAssociatedTokenAddressSync,
+  mintTo,
+} from "@solana/spl-token";
+import {
+  getPlatformAuthority,
+  getPlatformConfigPDA,
+  getProgramDataAddress,
+  platformTreasury,
+} from "./platform";
+import { EscrowSDK, keypairSigner } from "../../sdk";
 
 describe("workspace", () => {
   const provider = anchor.AnchorProvider.env();
@@ -19,16 +34,26 @@ describe("workspace", () => {
   let authority: Keypair;
   let client: Keypair;
   let freelancer: Keypair;
+  let treasury: Keypair;
   let configPDA: PublicKey;
   let escrowPDA: PublicKey;
   const escrowId = "escrow-001";
   const escrowAmount = new BN(1 * LAMPORTS_PER_SOL);
   const futureDeadline = Math.floor(Date.now() / 1000) + 3600; // 1 hour from now
 
+  // Freelancer accepts an escrow so work can be submitted
+  const acceptEscrow = (escrow: PublicKey) =>
+    program.methods
+      .acceptEscrow()
+      .accounts({ escrow, freelancer: freelancer.publicKey })
+      .signers([freelancer])
+      .rpc();
+
   before(async () => {
-    authority = Keypair.generate();
+    authority = getPlatformAuthority(provider);
     client = Keypair.generate();
     freelancer = Keypair.generate();
+    treasury = platformTreasury;
 
     // Fund all accounts with 100 SOL
     await provider.connection.confirmTransaction(
@@ -50,12 +75,17 @@ describe("workspace", () => {
       )
     );
 
-    // Derive PDAs
-    [configPDA] = PublicKey.findProgramAddressSync(
-      [Buffer.from("config"), authority.publicKey.toBuffer()],
-      program.programId
+    // Treasury only needs to be rent exempt to receive fees
+    await provider.connection.confirmTransaction(
+      await provider.connection.requestAirdrop(
+        treasury.publicKey,
+        1 * LAMPORTS_PER_SOL
+      )
     );
 
+    // Derive PDAs
+    configPDA = getPlatformConfigPDA(program);
+
     [escrowPDA] = PublicKey.findProgramAddressSync(
       [
         Buffer.from("escrow"),
@@ -71,17 +101,21 @@ describe("workspace", () => {
 
   it("Initialize Config", async () => {
     const feeBps = 250; // 2.5%
-    const treasury = Keypair.generate().publicKey;
 
-    await program.methods
-      .initializeConfig(feeBps, treasury)
-      .accounts({
-        config: configPDA,
-        authority: authority.publicKey,
-        systemProgram: SystemProgram.programId,
-      })
-      .signers([authority])
-      .rpc();
+    // The platform Config is shared with the other test files, which may have created it already
+    if (!(await program.account.config.fetchNullable(configPDA))) {
+      await program.methods
+        .initializeConfig(feeBps, treasury.publicKey)
+        .accounts({
+          config: configPDA,
+          authority: authority.publicKey,
+          program: program.programId,
+          programData: getProgramDataAddress(program),
+          systemProgram: SystemProgram.programId,
+        })
+        .signers([authority])
+        .rpc();
+    }
 
     const config = await program.account.config.fetch(configPDA);
     expect(config.isActive).to.be.true;
@@ -97,11 +131,18 @@ describe("workspace", () => {
     );
 
     await program.methods
-      .createEscrow(escrowId, escrowAmount, new BN(futureDeadline))
+      .createEscrow(
+        escrowId,
+        escrowAmount,
+        new BN(futureDeadline),
+        new BN(0),
+        null
+      )
       .accounts({
         escrow: escrowPDA,
         client: client.publicKey,
         freelancer: freelancer.publicKey,
+        config: configPDA,
         systemProgram: SystemProgram.programId,
       })
       .signers([client])
@@ -111,8 +152,15 @@ describe("workspace", () => {
     expect(escrow.client.toBase58()).to.equal(client.publicKey.toBase58());
     expect(escrow.freelancer.toBase58()).to.equal(freelancer.publicKey.toBase58());
     expect(escrow.amount.toString()).to.equal(escrowAmount.toString());
+    expect(escrow.isAccepted).to.equal(false);
     expect(escrow.isSubmitted).to.be.false;
     expect(escrow.isReleased).to.be.false;
+    expect(escrow.createdAt.toNumber()).to.be.closeTo(
+      Math.floor(Date.now() / 1000),
+      60
+    );
+    expect(escrow.submittedAt).to.equal(null);
+    expect(escrow.releasedAt).to.equal(null);
     expect(escrow.escrowId).to.equal(escrowId);
     expect(escrow.metadataRef).to.equal("");
 
@@ -125,6 +173,20 @@ describe("workspace", () => {
     );
   });
 
+  it("Accept Escrow - Freelancer accepts the invitation", async () => {
+    await program.methods
+      .acceptEscrow()
+      .accounts({
+        escrow: escrowPDA,
+        freelancer: freelancer.publicKey,
+      })
+      .signers([freelancer])
+      .rpc();
+
+    const escrow = await program.account.escrowAccount.fetch(escrowPDA);
+    expect(escrow.isAccepted).to.equal(true);
+  });
+
   it("Submit Work - Freelancer submits proof of work", async () => {
     const metadataRef = "ipfs://QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco";
 
@@ -133,6 +195,7 @@ describe("workspace", () => {
       .accounts({
         escrow: escrowPDA,
         freelancer: freelancer.publicKey,
+        config: configPDA,
       })
       .signers([freelancer])
       .rpc();
@@ -140,6 +203,9 @@ describe("workspace", () => {
     const escrow = await program.account.escrowAccount.fetch(escrowPDA);
     expect(escrow.isSubmitted).to.be.true;
     expect(escrow.metadataRef).to.equal(metadataRef);
+    expect(escrow.submittedAt.toNumber()).to.be.at.least(
+      escrow.createdAt.toNumber()
+    );
   });
 
   // ============== CORE FUNCTIONALITY TESTS ==============
@@ -148,6 +214,9 @@ describe("workspace", () => {
     const freelancerBalanceBefore = await provider.connection.getBalance(
       freelancer.publicKey
     );
+    const treasuryBalanceBefore = await provider.connection.getBalance(
+      treasury.publicKey
+    );
 
     await program.methods
       .approveRelease()
@@ -155,6 +224,8 @@ describe("workspace", () => {
         escrow: escrowPDA,
         client: client.publicKey,
         freelancer: freelancer.publicKey,
+        config: configPDA,
+        treasury: treasury.publicKey,
       })
       .signers([client])
       .rpc();
@@ -162,20 +233,31 @@ describe("workspace", () => {
     const escrow = await program.account.escrowAccount.fetch(escrowPDA);
     expect(escrow.isReleased).to.be.true;
     expect(escrow.amount.toString()).to.equal("0");
+    expect(escrow.releasedAt.toNumber()).to.be.at.least(
+      escrow.submittedAt.toNumber()
+    );
 
     // Verify freelancer received funds
     const freelancerBalanceAfter = await provider.connection.getBalance(
       freelancer.publicKey
     );
     expect(freelancerBalanceAfter).to.be.greaterThan(freelancerBalanceBefore);
+
+    // Verify the treasury received the 2.5% platform fee
+    const treasuryBalanceAfter = await provider.connection.getBalance(
+      treasury.publicKey
+    );
+    expect(treasuryBalanceAfter - treasuryBalanceBefore).to.equal(
+      0.025 * LAMPORTS_PER_SOL
+    );
   });
 
   // ============== NEW ESCROW FOR AUTO-RELEASE TEST ==============
 
   it("Create second escrow for auto-release test", async () => {
     const escrowId2 = "escrow-002";
-    // Use a deadline 2 seconds in the future - will pass by the time we trigger
-    const shortDeadline = Math.floor(Date.now() / 1000) + 2;
+    // Use a deadline 4 seconds in the future - will pass by the time we trigger
+    const shortDeadline = Math.floor(Date.now() / 1000) + 4;
 
     const [escrowPDA2] = PublicKey.findProgramAddressSync(
       [
@@ -188,16 +270,25 @@ describe("workspace", () => {
     );
 
     await program.methods
-      .createEscrow(escrowId2, escrowAmount, new BN(shortDeadline))
+      .createEscrow(
+        escrowId2,
+        escrowAmount,
+        new BN(shortDeadline),
+        new BN(0),
+        null
+      )
       .accounts({
         escrow: escrowPDA2,
         client: client.publicKey,
         freelancer: freelancer.publicKey,
+        config: configPDA,
         systemProgram: SystemProgram.programId,
       })
       .signers([client])
       .rpc();
 
+    await acceptEscrow(escrowPDA2);
+
     const escrow = await program.account.escrowAccount.fetch(escrowPDA2);
     expect(escrow.escrowId).to.equal(escrowId2);
   });
@@ -219,6 +310,7 @@ describe("workspace", () => {
       .accounts({
         escrow: escrowPDA2,
         freelancer: freelancer.publicKey,
+        config: configPDA,
       })
       .signers([freelancer])
       .rpc();
@@ -252,6 +344,8 @@ describe("workspace", () => {
       .accounts({
         escrow: escrowPDA2,
         freelancer: freelancer.publicKey,
+        config: configPDA,
+        treasury: treasury.publicKey,
       })
       .signers([])
       .rpc();
@@ -265,6 +359,270 @@ describe("workspace", () => {
     expect(freelancerBalanceAfter).to.be.greaterThan(freelancerBalanceBefore);
   });
 
+  it("Refund - Client reclaims funds after deadline without submission", async () => {
+    const escrowId10 = "escrow-010";
+    const shortDeadline = Math.floor(Date.now() / 1000) + 2;
+    const [escrowPDA10] = PublicKey.findProgramAddressSync(
+      [
+        Buffer.from("escrow"),
+        client.publicKey.toBuffer(),
+        freelancer.publicKey.toBuffer(),
+        Buffer.from(escrowId10),
+      ],
+      program.programId
+    );
+
+    await program.methods
+      .createEscrow(
+        escrowId10,
+        escrowAmount,
+        new BN(shortDeadline),
+        new BN(0),
+        null
+      )
+      .accounts({
+        escrow: escrowPDA10,
+        client: client.publicKey,
+        freelancer: freelancer.publicKey,
+        config: configPDA,
+        systemProgram: SystemProgram.programId,
+      })
+      .signers([client])
+      .rpc();
+
+    await acceptEscrow(escrowPDA10);
+
+    // Wait for deadline to pass (5 seconds to ensure blockchain time advances)
+    await new Promise((resolve) => setTimeout(resolve, 5000));
+
+    const clientBalanceBefore = await provider.connection.getBalance(
+      client.publicKey
+    );
+
+    await program.methods
+      .refundEscrow()
+      .accounts({
+        escrow: escrowPDA10,
+        client: client.publicKey,
+      })
+      .signers([client])
+      .rpc();
+
+    const escrow = await program.account.escrowAccount.fetch(escrowPDA10);
+    expect(escrow.isRefunded).to.equal(true);
+    expect(escrow.amount.toNumber()).to.equal(0);
+
+    const clientBalanceAfter = await provider.connection.getBalance(
+      client.publicKey
+    );
+    expect(clientBalanceAfter).to.be.greaterThan(clientBalanceBefore);
+  });
+
+  it("Milestones - Each milestone is submitted and released on its own", async () => {
+    const escrowId20 = "escrow-020";
+    const [escrowPDA20] = PublicKey.findProgramAddressSync(
+      [
+        Buffer.from("escrow"),
+        client.publicKey.toBuffer(),
+        freelancer.publicKey.toBuffer(),
+        Buffer.from(escrowId20),
+      ],
+      program.programId
+    );
+    const now = Math.floor(Date.now() / 1000);
+
+    await program.methods
+      .createMilestoneEscrow(
+        escrowId20,
+        [
+          { amount: new BN(0.4 * LAMPORTS_PER_SOL), deadline: new BN(now + 4) },
+          {
+            amount: new BN(0.6 * LAMPORTS_PER_SOL),
+            deadline: new BN(now + 3600),
+          },
+        ],
+        new BN(0),
+        null
+      )
+      .accounts({
+        escrow: escrowPDA20,
+        client: client.publicKey,
+        freelancer: freelancer.publicKey,
+        config: configPDA,
+        systemProgram: SystemProgram.programId,
+      })
+      .signers([client])
+      .rpc();
+
+    await acceptEscrow(escrowPDA20);
+
+    let escrow = await program.account.escrowAccount.fetch(escrowPDA20);
+    expect(escrow.amount.toNumber()).to.equal(1 * LAMPORTS_PER_SOL);
+    expect(escrow.milestones.length).to.equal(2);
+
+    await program.methods
+      .submitMilestone(0, "ipfs://QmMilestoneOne")
+      .accounts({
+        escrow: escrowPDA20,
+        freelancer: freelancer.publicKey,
+        config: configPDA,
+      })
+      .signers([freelancer])
+      .rpc();
+
+    // Wait for the first milestone deadline to pass
+    await new Promise((resolve) => setTimeout(resolve, 5000));
+
+    await program.methods
+      .triggerMilestoneAutoRelease(0)
+      .accounts({
+        escrow: escrowPDA20,
+        freelancer: freelancer.publicKey,
+        config: configPDA,
+        treasury: treasury.publicKey,
+      })
+      .signers([])
+      .rpc();
+
+    escrow = await program.account.escrowAccount.fetch(escrowPDA20);
+    expect(escrow.milestones[0].isReleased).to.equal(true);
+    expect(escrow.isReleased).to.equal(false);
+    expect(escrow.amount.toNumber()).to.equal(0.6 * LAMPORTS_PER_SOL);
+
+    await program.methods
+      .submitMilestone(1, "ipfs://QmMilestoneTwo")
+      .accounts({
+        escrow: escrowPDA20,
+        freelancer: freelancer.publicKey,
+        config: configPDA,
+      })
+      .signers([freelancer])
+      .rpc();
+
+    const freelancerBalanceBefore = await provider.connection.getBalance(
+      freelancer.publicKey
+    );
+
+    await program.methods
+      .approveMilestone(1)
+      .accounts({
+        escrow: escrowPDA20,
+        client: client.publicKey,
+        freelancer: freelancer.publicKey,
+        config: configPDA,
+        treasury: treasury.publicKey,
+      })
+      .signers([client])
+      .rpc();
+
+    escrow = await program.account.escrowAccount.fetch(escrowPDA20);
+    expect(escrow.isReleased).to.equal(true);
+    expect(escrow.amount.toNumber()).to.equal(0);
+    expect(escrow.milestones[1].metadataRef).to.equal("ipfs://QmMilestoneTwo");
+
+    const freelancerBalanceAfter = await provider.connection.getBalance(
+      freelancer.publicKey
+    );
+    // 2.5% platform fee goes to the treasury
+    expect(freelancerBalanceAfter - freelancerBalanceBefore).to.equal(
+      0.585 * LAMPORTS_PER_SOL
+    );
+  });
+
+  it("Dispute - Arbiter splits the funds between client and freelancer", async () => {
+    const escrowId30 = "escrow-030";
+    const arbiter = Keypair.generate();
+    const [escrowPDA30] = PublicKey.findProgramAddressSync(
+      [
+        Buffer.from("escrow"),
+        client.publicKey.toBuffer(),
+        freelancer.publicKey.toBuffer(),
+        Buffer.from(escrowId30),
+      ],
+      program.programId
+    );
+
+    await program.methods
+      .createEscrow(
+        escrowId30,
+        escrowAmount,
+        new BN(futureDeadline),
+        new BN(0),
+        arbiter.publicKey
+      )
+      .accounts({
+        escrow: escrowPDA30,
+        client: client.publicKey,
+        freelancer: freelancer.publicKey,
+        config: configPDA,
+        systemProgram: SystemProgram.programId,
+      })
+      .signers([client])
+      .rpc();
+
+    await acceptEscrow(escrowPDA30);
+
+    await program.methods
+      .submitWork("ipfs://QmDisputedWork")
+      .accounts({
+        escrow: escrowPDA30,
+        freelancer: freelancer.publicKey,
+        config: configPDA,
+      })
+      .signers([freelancer])
+      .rpc();
+
+    await program.methods
+      .raiseDispute()
+      .accounts({
+        escrow: escrowPDA30,
+        party: client.publicKey,
+      })
+      .signers([client])
+      .rpc();
+
+    let escrow = await program.account.escrowAccount.fetch(escrowPDA30);
+    expect(escrow.isDisputed).to.equal(true);
+
+    const clientBalanceBefore = await provider.connection.getBalance(
+      client.publicKey
+    );
+    const freelancerBalanceBefore = await provider.connection.getBalance(
+      freelancer.publicKey
+    );
+
+    await program.methods
+      .resolveDispute(7000)
+      .accounts({
+        escrow: escrowPDA30,
+        arbiter: arbiter.publicKey,
+        client: client.publicKey,
+        freelancer: freelancer.publicKey,
+        config: configPDA,
+        treasury: treasury.publicKey,
+      })
+      .signers([arbiter])
+      .rpc();
+
+    escrow = await program.account.escrowAccount.fetch(escrowPDA30);
+    expect(escrow.isReleased).to.equal(true);
+    expect(escrow.amount.toNumber()).to.equal(0);
+
+    const clientBalanceAfter = await provider.connection.getBalance(
+      client.publicKey
+    );
+    const freelancerBalanceAfter = await provider.connection.getBalance(
+      freelancer.publicKey
+    );
+    expect(clientBalanceAfter - clientBalanceBefore).to.equal(
+      0.3 * LAMPORTS_PER_SOL
+    );
+    // Fee is only taken from the freelancer's share
+    expect(freelancerBalanceAfter - freelancerBalanceBefore).to.equal(
+      0.6825 * LAMPORTS_PER_SOL
+    );
+  });
+
   // ============== ERROR CASE TESTS ==============
 
   it("Fail: Create escrow with invalid amount (0)", async () => {
@@ -281,11 +639,18 @@ describe("workspace", () => {
 
     try {
       await program.methods
-        .createEscrow(escrowId3, new BN(0), new BN(futureDeadline))
+        .createEscrow(
+          escrowId3,
+          new BN(0),
+          new BN(futureDeadline),
+          new BN(0),
+          null
+        )
         .accounts({
           escrow: escrowPDA3,
           client: client.publicKey,
           freelancer: freelancer.publicKey,
+          config: configPDA,
           systemProgram: SystemProgram.programId,
         })
         .signers([client])
@@ -310,11 +675,18 @@ describe("workspace", () => {
 
     // Create escrow first
     await program.methods
-      .createEscrow(escrowId4, escrowAmount, new BN(futureDeadline))
+      .createEscrow(
+        escrowId4,
+        escrowAmount,
+        new BN(futureDeadline),
+        new BN(0),
+        null
+      )
       .accounts({
         escrow: escrowPDA4,
         client: client.publicKey,
         freelancer: freelancer.publicKey,
+        config: configPDA,
         systemProgram: SystemProgram.programId,
       })
       .signers([client])
@@ -327,6 +699,7 @@ describe("workspace", () => {
         .accounts({
           escrow: escrowPDA4,
           freelancer: client.publicKey, // Wrong signer
+          config: configPDA,
         })
         .signers([client])
         .rpc();
@@ -350,11 +723,18 @@ describe("workspace", () => {
 
     // Create escrow
     await program.methods
-      .createEscrow(escrowId5, escrowAmount, new BN(futureDeadline))
+      .createEscrow(
+        escrowId5,
+        escrowAmount,
+        new BN(futureDeadline),
+        new BN(0),
+        null
+      )
       .accounts({
         escrow: escrowPDA5,
         client: client.publicKey,
         freelancer: freelancer.publicKey,
+        config: configPDA,
         systemProgram: SystemProgram.programId,
       })
       .signers([client])
@@ -368,6 +748,8 @@ describe("workspace", () => {
           escrow: escrowPDA5,
           client: client.publicKey,
           freelancer: freelancer.publicKey,
+          config: configPDA,
+          treasury: treasury.publicKey,
         })
         .signers([client])
         .rpc();
@@ -391,22 +773,32 @@ describe("workspace", () => {
 
     // Create escrow
     await program.methods
-      .createEscrow(escrowId6, escrowAmount, new BN(futureDeadline))
+      .createEscrow(
+        escrowId6,
+        escrowAmount,
+        new BN(futureDeadline),
+        new BN(0),
+        null
+      )
       .accounts({
         escrow: escrowPDA6,
         client: client.publicKey,
         freelancer: freelancer.publicKey,
+        config: configPDA,
         systemProgram: SystemProgram.programId,
       })
       .signers([client])
       .rpc();
 
+    await acceptEscrow(escrowPDA6);
+
     // Submit work first time
     await program.methods
       .submitWork("first-submission")
       .accounts({
         escrow: escrowPDA6,
         freelancer: freelancer.publicKey,
+        config: configPDA,
       })
       .signers([freelancer])
       .rpc();
@@ -418,6 +810,7 @@ describe("workspace", () => {
         .accounts({
           escrow: escrowPDA6,
           freelancer: freelancer.publicKey,
+          config: configPDA,
         })
         .signers([freelancer])
         .rpc();
@@ -443,22 +836,32 @@ describe("workspace", () => {
 
     // Create escrow with future deadline
     await program.methods
-      .createEscrow(escrowId7, escrowAmount, new BN(farFutureDeadline))
+      .createEscrow(
+        escrowId7,
+        escrowAmount,
+        new BN(farFutureDeadline),
+        new BN(0),
+        null
+      )
       .accounts({
         escrow: escrowPDA7,
         client: client.publicKey,
         freelancer: freelancer.publicKey,
+        config: configPDA,
         systemProgram: SystemProgram.programId,
       })
       .signers([client])
       .rpc();
 
+    await acceptEscrow(escrowPDA7);
+
     // Submit work
     await program.methods
       .submitWork("work-proof")
       .accounts({
         escrow: escrowPDA7,
         freelancer: freelancer.publicKey,
+        config: configPDA,
       })
       .signers([freelancer])
       .rpc();
@@ -470,6 +873,8 @@ describe("workspace", () => {
         .accounts({
           escrow: escrowPDA7,
           freelancer: freelancer.publicKey,
+          config: configPDA,
+          treasury: treasury.publicKey,
         })
         .signers([])
         .rpc();
@@ -493,11 +898,18 @@ describe("workspace", () => {
 
     // Create escrow
     await program.methods
-      .createEscrow(escrowId8, escrowAmount, new BN(futureDeadline))
+      .createEscrow(
+        escrowId8,
+        escrowAmount,
+        new BN(futureDeadline),
+        new BN(0),
+        null
+      )
       .accounts({
         escrow: escrowPDA8,
         client: client.publicKey,
         freelancer: freelancer.publicKey,
+        config: configPDA,
         systemProgram: SystemProgram.programId,
       })
       .signers([client])
@@ -511,6 +923,7 @@ describe("workspace", () => {
         .accounts({
           escrow: escrowPDA8,
           freelancer: freelancer.publicKey,
+          config: configPDA,
         })
         .signers([freelancer])
         .rpc();
@@ -534,22 +947,32 @@ describe("workspace", () => {
 
     // Create escrow
     await program.methods
-      .createEscrow(escrowId9, escrowAmount, new BN(futureDeadline))
+      .createEscrow(
+        escrowId9,
+        escrowAmount,
+        new BN(futureDeadline),
+        new BN(0),
+        null
+      )
       .accounts({
         escrow: escrowPDA9,
         client: client.publicKey,
         freelancer: freelancer.publicKey,
+        config: configPDA,
         systemProgram: SystemProgram.programId,
       })
       .signers([client])
       .rpc();
 
+    await acceptEscrow(escrowPDA9);
+
     // Submit work
     await program.methods
       .submitWork("work-proof")
       .accounts({
         escrow: escrowPDA9,
         freelancer: freelancer.publicKey,
+        config: configPDA,
       })
       .signers([freelancer])
       .rpc();
@@ -562,6 +985,8 @@ describe("workspace", () => {
           escrow: escrowPDA9,
           client: freelancer.publicKey, // Wrong signer
           freelancer: freelancer.publicKey,
+          config: configPDA,
+          treasury: treasury.publicKey,
         })
         .signers([freelancer])
         .rpc();
@@ -570,4 +995,1922 @@ describe("workspace", () => {
       expect(error.message).to.include("Error");
     }
   });
-});
\ No newline at end of file
+
+  it("Fail: Submit work after refund", async () => {
+    const escrowId10 = "escrow-010";
+    const [escrowPDA10] = PublicKey.findProgramAddressSync(
+      [
+        Buffer.from("escrow"),
+        client.publicKey.toBuffer(),
+        freelancer.publicKey.toBuffer(),
+        Buffer.from(escrowId10),
+      ],
+      program.programId
+    );
+
+    try {
+      await program.methods
+        .submitWork("late-work")
+        .accounts({
+          escrow: escrowPDA10,
+          freelancer: freelancer.publicKey,
+          config: configPDA,
+        })
+        .signers([freelancer])
+        .rpc();
+      expect.fail("Should have thrown AlreadyRefunded error");
+    } catch (error) {
+      expect(error.message).to.include("AlreadyRefunded");
+    }
+  });
+
+  it("Fail: Refund before deadline", async () => {
+    const escrowId11 = "escrow-011";
+    const [escrowPDA11] = PublicKey.findProgramAddressSync(
+      [
+        Buffer.from("escrow"),
+        client.publicKey.toBuffer(),
+        freelancer.publicKey.toBuffer(),
+        Buffer.from(escrowId11),
+      ],
+      program.programId
+    );
+
+    await program.methods
+      .createEscrow(
+        escrowId11,
+        escrowAmount,
+        new BN(futureDeadline),
+        new BN(0),
+        null
+      )
+      .accounts({
+        escrow: escrowPDA11,
+        client: client.publicKey,
+        freelancer: freelancer.publicKey,
+        config: configPDA,
+        systemProgram: SystemProgram.programId,
+      })
+      .signers([client])
+      .rpc();
+
+    await acceptEscrow(escrowPDA11);
+
+    try {
+      await program.methods
+        .refundEscrow()
+        .accounts({
+          escrow: escrowPDA11,
+          client: client.publicKey,
+        })
+        .signers([client])
+        .rpc();
+      expect.fail("Should have thrown RefundBeforeDeadline error");
+    } catch (error) {
+      expect(error.message).to.include("RefundBeforeDeadline");
+    }
+  });
+
+  it("Fail: Refund after work submitted", async () => {
+    const escrowId12 = "escrow-012";
+    const shortDeadline = Math.floor(Date.now() / 1000) + 4;
+    const [escrowPDA12] = PublicKey.findProgramAddressSync(
+      [
+        Buffer.from("escrow"),
+        client.publicKey.toBuffer(),
+        freelancer.publicKey.toBuffer(),
+        Buffer.from(escrowId12),
+      ],
+      program.programId
+    );
+
+    await program.methods
+      .createEscrow(
+        escrowId12,
+        escrowAmount,
+        new BN(shortDeadline),
+        new BN(0),
+        null
+      )
+      .accounts({
+        escrow: escrowPDA12,
+        client: client.publicKey,
+        freelancer: freelancer.publicKey,
+        config: configPDA,
+        systemProgram: SystemProgram.programId,
+      })
+      .signers([client])
+      .rpc();
+
+    await acceptEscrow(escrowPDA12);
+
+    await program.methods
+      .submitWork("work-proof")
+      .accounts({
+        escrow: escrowPDA12,
+        freelancer: freelancer.publicKey,
+        config: configPDA,
+      })
+      .signers([freelancer])
+      .rpc();
+
+    await new Promise((resolve) => setTimeout(resolve, 5000));
+
+    try {
+      await program.methods
+        .refundEscrow()
+        .accounts({
+          escrow: escrowPDA12,
+          client: client.publicKey,
+        })
+        .signers([client])
+        .rpc();
+      expect.fail("Should have thrown AlreadySubmitted error");
+    } catch (error) {
+      expect(error.message).to.include("AlreadySubmitted");
+    }
+  });
+
+  it("Fail: Submit milestone out of order", async () => {
+    const escrowId21 = "escrow-021";
+    const [escrowPDA21] = PublicKey.findProgramAddressSync(
+      [
+        Buffer.from("escrow"),
+        client.publicKey.toBuffer(),
+        freelancer.publicKey.toBuffer(),
+        Buffer.from(escrowId21),
+      ],
+      program.programId
+    );
+
+    await program.methods
+      .createMilestoneEscrow(
+        escrowId21,
+        [
+          { amount: escrowAmount, deadline: new BN(futureDeadline) },
+          { amount: escrowAmount, deadline: new BN(futureDeadline + 3600) },
+        ],
+        new BN(0),
+        null
+      )
+      .accounts({
+        escrow: escrowPDA21,
+        client: client.publicKey,
+        freelancer: freelancer.publicKey,
+        config: configPDA,
+        systemProgram: SystemProgram.programId,
+      })
+      .signers([client])
+      .rpc();
+
+    await acceptEscrow(escrowPDA21);
+
+    try {
+      await program.methods
+        .submitMilestone(1, "work-proof")
+        .accounts({
+          escrow: escrowPDA21,
+          freelancer: freelancer.publicKey,
+          config: configPDA,
+        })
+        .signers([freelancer])
+        .rpc();
+      expect.fail("Should have thrown MilestoneOutOfOrder error");
+    } catch (error) {
+      expect(error.message).to.include("MilestoneOutOfOrder");
+    }
+  });
+
+  it("Fail: Submit work on a milestone escrow", async () => {
+    const escrowId21 = "escrow-021";
+    const [escrowPDA21] = PublicKey.findProgramAddressSync(
+      [
+        Buffer.from("escrow"),
+        client.publicKey.toBuffer(),
+        freelancer.publicKey.toBuffer(),
+        Buffer.from(escrowId21),
+      ],
+      program.programId
+    );
+
+    try {
+      await program.methods
+        .submitWork("work-proof")
+        .accounts({
+          escrow: escrowPDA21,
+          freelancer: freelancer.publicKey,
+          config: configPDA,
+        })
+        .signers([freelancer])
+        .rpc();
+      expect.fail("Should have thrown UsesMilestones error");
+    } catch (error) {
+      expect(error.message).to.include("UsesMilestones");
+    }
+  });
+
+  it("Fail: Milestone deadlines out of order", async () => {
+    const escrowId22 = "escrow-022";
+    const [escrowPDA22] = PublicKey.findProgramAddressSync(
+      [
+        Buffer.from("escrow"),
+        client.publicKey.toBuffer(),
+        freelancer.publicKey.toBuffer(),
+        Buffer.from(escrowId22),
+      ],
+      program.programId
+    );
+
+    try {
+      await program.methods
+        .createMilestoneEscrow(
+          escrowId22,
+          [
+            { amount: escrowAmount, deadline: new BN(futureDeadline + 3600) },
+            { amount: escrowAmount, deadline: new BN(futureDeadline) },
+          ],
+          new BN(0),
+          null
+        )
+        .accounts({
+          escrow: escrowPDA22,
+          client: client.publicKey,
+          freelancer: freelancer.publicKey,
+          config: configPDA,
+          systemProgram: SystemProgram.programId,
+        })
+        .signers([client])
+        .rpc();
+      expect.fail("Should have thrown InvalidDeadline error");
+    } catch (error) {
+      expect(error.message).to.include("InvalidDeadline");
+    }
+  });
+
+  it("Fail: Auto release while disputed", async () => {
+    const escrowId31 = "escrow-031";
+    const arbiter = Keypair.generate();
+    const shortDeadline = Math.floor(Date.now() / 1000) + 4;
+    const [escrowPDA31] = PublicKey.findProgramAddressSync(
+      [
+        Buffer.from("escrow"),
+        client.publicKey.toBuffer(),
+        freelancer.publicKey.toBuffer(),
+        Buffer.from(escrowId31),
+      ],
+      program.programId
+    );
+
+    await program.methods
+      .createEscrow(
+        escrowId31,
+        escrowAmount,
+        new BN(shortDeadline),
+        new BN(0),
+        arbiter.publicKey
+      )
+      .accounts({
+        escrow: escrowPDA31,
+        client: client.publicKey,
+        freelancer: freelancer.publicKey,
+        config: configPDA,
+        systemProgram: SystemProgram.programId,
+      })
+      .signers([client])
+      .rpc();
+
+    await acceptEscrow(escrowPDA31);
+
+    await program.methods
+      .submitWork("work-proof")
+      .accounts({
+        escrow: escrowPDA31,
+        freelancer: freelancer.publicKey,
+        config: configPDA,
+      })
+      .signers([freelancer])
+      .rpc();
+
+    await program.methods
+      .raiseDispute()
+      .accounts({
+        escrow: escrowPDA31,
+        party: freelancer.publicKey,
+      })
+      .signers([freelancer])
+      .rpc();
+
+    await new Promise((resolve) => setTimeout(resolve, 6000));
+
+    try {
+      await program.methods
+        .triggerAutoRelease()
+        .accounts({
+          escrow: escrowPDA31,
+          freelancer: freelancer.publicKey,
+          config: configPDA,
+          treasury: treasury.publicKey,
+        })
+        .signers([])
+        .rpc();
+      expect.fail("Should have thrown EscrowDisputed error");
+    } catch (error) {
+      expect(error.message).to.include("EscrowDisputed");
+    }
+  });
+
+  it("Fail: Resolve dispute by non-arbiter", async () => {
+    const escrowId31 = "escrow-031";
+    const [escrowPDA31] = PublicKey.findProgramAddressSync(
+      [
+        Buffer.from("escrow"),
+        client.publicKey.toBuffer(),
+        freelancer.publicKey.toBuffer(),
+        Buffer.from(escrowId31),
+      ],
+      program.programId
+    );
+
+    try {
+      await program.methods
+        .resolveDispute(10000)
+        .accounts({
+          escrow: escrowPDA31,
+          arbiter: client.publicKey,
+          client: client.publicKey,
+          freelancer: freelancer.publicKey,
+          config: configPDA,
+          treasury: treasury.publicKey,
+        })
+        .signers([client])
+        .rpc();
+      expect.fail("Should have thrown UnauthorizedArbiter error");
+    } catch (error) {
+      expect(error.message).to.include("UnauthorizedArbiter");
+    }
+  });
+
+  it("Fail: Raise dispute without an arbiter", async () => {
+    const escrowId11 = "escrow-011";
+    const [escrowPDA11] = PublicKey.findProgramAddressSync(
+      [
+        Buffer.from("escrow"),
+        client.publicKey.toBuffer(),
+        freelancer.publicKey.toBuffer(),
+        Buffer.from(escrowId11),
+      ],
+      program.programId
+    );
+
+    try {
+      await program.methods
+        .raiseDispute()
+        .accounts({
+          escrow: escrowPDA11,
+          party: client.publicKey,
+        })
+        .signers([client])
+        .rpc();
+      expect.fail("Should have thrown NoArbiter error");
+    } catch (error) {
+      expect(error.message).to.include("NoArbiter");
+    }
+  });
+
+  it("Fail: Release fee to a different treasury", async () => {
+    const escrowId40 = "escrow-040";
+    const [escrowPDA40] = PublicKey.findProgramAddressSync(
+      [
+        Buffer.from("escrow"),
+        client.publicKey.toBuffer(),
+        freelancer.publicKey.toBuffer(),
+        Buffer.from(escrowId40),
+      ],
+      program.programId
+    );
+
+    await program.methods
+      .createEscrow(
+        escrowId40,
+        escrowAmount,
+        new BN(futureDeadline),
+        new BN(0),
+        null
+      )
+      .accounts({
+        escrow: escrowPDA40,
+        client: client.publicKey,
+        freelancer: freelancer.publicKey,
+        config: configPDA,
+        systemProgram: SystemProgram.programId,
+      })
+      .signers([client])
+      .rpc();
+
+    await acceptEscrow(escrowPDA40);
+
+    await program.methods
+      .submitWork("ipfs://QmFeeWork")
+      .accounts({
+        escrow: escrowPDA40,
+        freelancer: freelancer.publicKey,
+        config: configPDA,
+      })
+      .signers([freelancer])
+      .rpc();
+
+    try {
+      await program.methods
+        .approveRelease()
+        .accounts({
+          escrow: escrowPDA40,
+          client: client.publicKey,
+          freelancer: freelancer.publicKey,
+          config: configPDA,
+          treasury: client.publicKey,
+        })
+        .signers([client])
+        .rpc();
+      expect.fail("Should have thrown InvalidTreasury error");
+    } catch (error) {
+      expect(error.message).to.include("InvalidTreasury");
+    }
+  });
+
+  it("Fail: Create escrow against a Config other than the platform's", async () => {
+    // Only the upgrade authority can initialize a Config, and only at the platform PDA,
+    // so any other Config address is uninitialized and must be rejected
+    const escrowId140 = "escrow-140";
+    const [escrowPDA140] = PublicKey.findProgramAddressSync(
+      [
+        Buffer.from("escrow"),
+        client.publicKey.toBuffer(),
+        freelancer.publicKey.toBuffer(),
+        Buffer.from(escrowId140),
+      ],
+      program.programId
+    );
+    const [otherConfigPDA] = PublicKey.findProgramAddressSync(
+      [Buffer.from("config"), Keypair.generate().publicKey.toBuffer()],
+      program.programId
+    );
+
+    try {
+      await program.methods
+        .createEscrow(
+          escrowId140,
+          escrowAmount,
+          new BN(futureDeadline),
+          new BN(0),
+          null
+        )
+        .accounts({
+          escrow: escrowPDA140,
+          client: client.publicKey,
+          freelancer: freelancer.publicKey,
+          config: otherConfigPDA,
+          systemProgram: SystemProgram.programId,
+        })
+        .signers([client])
+        .rpc();
+      expect.fail("Should have thrown AccountNotInitialized error");
+    } catch (error) {
+      expect(error.message).to.include("AccountNotInitialized");
+    }
+
+    const escrow = await program.account.escrowAccount.fetchNullable(
+      escrowPDA140
+    );
+    expect(escrow).to.equal(null);
+  });
+
+  it("Set Paused - Blocks new escrows and submissions but not releases", async () => {
+    const pdaFor = (id: string) =>
+      PublicKey.findProgramAddressSync(
+        [
+          Buffer.from("escrow"),
+          client.publicKey.toBuffer(),
+          freelancer.publicKey.toBuffer(),
+          Buffer.from(id),
+        ],
+        program.programId
+      )[0];
+    const create = async (id: string) => {
+      await program.methods
+        .createEscrow(id, escrowAmount, new BN(futureDeadline), new BN(0), null)
+        .accounts({
+          escrow: pdaFor(id),
+          client: client.publicKey,
+          freelancer: freelancer.publicKey,
+          config: configPDA,
+          systemProgram: SystemProgram.programId,
+        })
+        .signers([client])
+        .rpc();
+      await acceptEscrow(pdaFor(id));
+    };
+    const submit = (id: string) =>
+      program.methods
+        .submitWork("ipfs://QmPausedWork")
+        .accounts({
+          escrow: pdaFor(id),
+          freelancer: freelancer.publicKey,
+          config: configPDA,
+        })
+        .signers([freelancer])
+        .rpc();
+    const setPaused = (paused: boolean) =>
+      program.methods
+        .setPaused(paused)
+        .accounts({
+          config: configPDA,
+          authority: authority.publicKey,
+        })
+        .signers([authority])
+        .rpc();
+
+    await create("escrow-050");
+    await submit("escrow-050");
+    await create("escrow-051");
+
+    await setPaused(true);
+    let config = await program.account.config.fetch(configPDA);
+    expect(config.isPaused).to.equal(true);
+
+    try {
+      await create("escrow-052");
+      expect.fail("Should have thrown ProgramPaused error");
+    } catch (error) {
+      expect(error.message).to.include("ProgramPaused");
+    }
+
+    try {
+      await submit("escrow-051");
+      expect.fail("Should have thrown ProgramPaused error");
+    } catch (error) {
+      expect(error.message).to.include("ProgramPaused");
+    }
+
+    // Releases still go through so funds are never trapped
+    await program.methods
+      .approveRelease()
+      .accounts({
+        escrow: pdaFor("escrow-050"),
+        client: client.publicKey,
+        freelancer: freelancer.publicKey,
+        config: configPDA,
+        treasury: treasury.publicKey,
+      })
+      .signers([client])
+      .rpc();
+    const escrow = await program.account.escrowAccount.fetch(
+      pdaFor("escrow-050")
+    );
+    expect(escrow.isReleased).to.equal(true);
+
+    await setPaused(false);
+    config = await program.account.config.fetch(configPDA);
+    expect(config.isPaused).to.equal(false);
+
+    await submit("escrow-051");
+  });
+
+  it("Fail: Set paused by non-authority", async () => {
+    try {
+      await program.methods
+        .setPaused(true)
+        .accounts({
+          config: configPDA,
+          authority: client.publicKey,
+        })
+        .signers([client])
+        .rpc();
+      expect.fail("Should have thrown UnauthorizedAuthority error");
+    } catch (error) {
+      expect(error.message).to.include("UnauthorizedAuthority");
+    }
+  });
+
+  it("Token Escrow - Client locks SPL tokens and release pays the freelancer and treasury", async () => {
+    const decimals = 6;
+    const tokenAmount = new BN(250 * 10 ** decimals); // 250 tokens
+    const mint = await createMint(
+      provider.connection,
+      client,
+      client.publicKey,
+      null,
+      decimals
+    );
+    const clientToken = await createAssociatedTokenAccount(
+      provider.connection,
+      client,
+      mint,
+      client.publicKey
+    );
+    const freelancerToken = await createAssociatedTokenAccount(
+      provider.connection,
+      client,
+      mint,
+      freelancer.publicKey
+    );
+    const treasuryToken = await createAssociatedTokenAccount(
+      provider.connection,
+      client,
+      mint,
+      treasury.publicKey
+    );
+    await mintTo(
+      provider.connection,
+      client,
+      mint,
+      clientToken,
+      client,
+      BigInt(tokenAmount.toString())
+    );
+
+    const escrowId60 = "escrow-060";
+    const [escrowPDA60] = PublicKey.findProgramAddressSync(
+      [
+        Buffer.from("escrow"),
+        client.publicKey.toBuffer(),
+        freelancer.publicKey.toBuffer(),
+        Buffer.from(escrowId60),
+      ],
+      program.programId
+    );
+    const [vault] = PublicKey.findProgramAddressSync(
+      [Buffer.from("vault"), escrowPDA60.toBuffer()],
+      program.programId
+    );
+
+    await program.methods
+      .createTokenEscrow(
+        escrowId60,
+        tokenAmount,
+        new BN(futureDeadline),
+        new BN(0)
+      )
+      .accounts({
+        escrow: escrowPDA60,
+        client: client.publicKey,
+        freelancer: freelancer.publicKey,
+        config: configPDA,
+        mint,
+        clientToken,
+        vault,
+        tokenProgram: TOKEN_PROGRAM_ID,
+        systemProgram: SystemProgram.programId,
+      })
+      .signers([client])
+      .rpc();
+
+    await acceptEscrow(escrowPDA60);
+
+    let escrow = await program.account.escrowAccount.fetch(escrowPDA60);
+    expect(escrow.mint.toBase58()).to.equal(mint.toBase58());
+    expect(escrow.amount.toString()).to.equal(tokenAmount.toString());
+    expect((await getAccount(provider.connection, vault)).amount).to.equal(
+      BigInt(tokenAmount.toString())
+    );
+    expect(
+      (await getAccount(provider.connection, clientToken)).amount
+    ).to.equal(BigInt(0));
+
+    await program.methods
+      .submitWork("ipfs://QmTokenWork")
+      .accounts({
+        escrow: escrowPDA60,
+        freelancer: freelancer.publicKey,
+        config: configPDA,
+      })
+      .signers([freelancer])
+      .rpc();
+
+    // The SOL release path refuses to touch a token escrow
+    try {
+      await program.methods
+        .approveRelease()
+        .accounts({
+          escrow: escrowPDA60,
+          client: client.publicKey,
+          freelancer: freelancer.publicKey,
+          config: configPDA,
+          treasury: treasury.publicKey,
+        })
+        .signers([client])
+        .rpc();
+      expect.fail("Should have thrown UsesToken error");
+    } catch (error) {
+      expect(error.message).to.include("UsesToken");
+    }
+
+    await program.methods
+      .approveTokenRelease()
+      .accounts({
+        escrow: escrowPDA60,
+        client: client.publicKey,
+        vault,
+        freelancerToken,
+        config: configPDA,
+        treasuryToken,
+        tokenProgram: TOKEN_PROGRAM_ID,
+      })
+      .signers([client])
+      .rpc();
+
+    // 2.5% of 250 tokens goes to the treasury
+    const fee = tokenAmount.muln(250).divn(10_000);
+    expect(
+      (await getAccount(provider.connection, treasuryToken)).amount
+    ).to.equal(BigInt(fee.toString()));
+    expect(
+      (await getAccount(provider.connection, freelancerToken)).amount
+    ).to.equal(BigInt(tokenAmount.sub(fee).toString()));
+    expect((await getAccount(provider.connection, vault)).amount).to.equal(
+      BigInt(0)
+    );
+
+    escrow = await program.account.escrowAccount.fetch(escrowPDA60);
+    expect(escrow.isReleased).to.equal(true);
+    expect(escrow.amount.toNumber()).to.equal(0);
+  });
+
+  it("Close Escrow - Client reclaims the rent of a released escrow", async () => {
+    const rent = await provider.connection.getBalance(escrowPDA);
+    const clientBalanceBefore = await provider.connection.getBalance(
+      client.publicKey
+    );
+
+    await program.methods
+      .closeEscrow()
+      .accounts({
+        escrow: escrowPDA,
+        client: client.publicKey,
+      })
+      .signers([client])
+      .rpc();
+
+    expect(await provider.connection.getAccountInfo(escrowPDA)).to.equal(null);
+    const clientBalanceAfter = await provider.connection.getBalance(
+      client.publicKey
+    );
+    expect(clientBalanceAfter - clientBalanceBefore).to.be.greaterThan(
+      rent - 10_000
+    );
+  });
+
+  it("Close Token Escrow - Dust in the vault goes to the freelancer and the vault is closed", async () => {
+    const [escrowPDA60] = PublicKey.findProgramAddressSync(
+      [
+        Buffer.from("escrow"),
+        client.publicKey.toBuffer(),
+        freelancer.publicKey.toBuffer(),
+        Buffer.from("escrow-060"),
+      ],
+      program.programId
+    );
+    const [vault] = PublicKey.findProgramAddressSync(
+      [Buffer.from("vault"), escrowPDA60.toBuffer()],
+      program.programId
+    );
+    const { mint } = await getAccount(provider.connection, vault);
+    const clientToken = getAssociatedTokenAddressSync(mint, client.publicKey);
+    const freelancerToken = getAssociatedTokenAddressSync(
+      mint,
+      freelancer.publicKey
+    );
+
+    // Anyone can send tokens straight to the vault after the escrow is released
+    await mintTo(provider.connection, client, mint, vault, client, 1);
+    const freelancerBefore = (
+      await getAccount(provider.connection, freelancerToken)
+    ).amount;
+
+    const closeTokenEscrow = (recipientToken: PublicKey) =>
+      program.methods
+        .closeTokenEscrow()
+        .accounts({
+          escrow: escrowPDA60,
+          client: client.publicKey,
+          vault,
+          recipientToken,
+          tokenProgram: TOKEN_PROGRAM_ID,
+        })
+        .signers([client])
+        .rpc();
+
+    // A released escrow's leftovers belong to the freelancer, not the client
+    try {
+      await closeTokenEscrow(clientToken);
+      expect.fail("Should have thrown InvalidRecipient error");
+    } catch (error) {
+      expect(error.message).to.include("InvalidRecipient");
+    }
+
+    await closeTokenEscrow(freelancerToken);
+
+    expect(await provider.connection.getAccountInfo(escrowPDA60)).to.equal(
+      null
+    );
+    expect(await provider.connection.getAccountInfo(vault)).to.equal(null);
+    const freelancerAfter = (
+      await getAccount(provider.connection, freelancerToken)
+    ).amount;
+    expect(Number(freelancerAfter - freelancerBefore)).to.equal(1);
+  });
+
+  it("Fail: Close escrow before it is settled", async () => {
+    const escrowId70 = "escrow-070";
+    const [escrowPDA70] = PublicKey.findProgramAddressSync(
+      [
+        Buffer.from("escrow"),
+        client.publicKey.toBuffer(),
+        freelancer.publicKey.toBuffer(),
+        Buffer.from(escrowId70),
+      ],
+      program.programId
+    );
+
+    await program.methods
+      .createEscrow(
+        escrowId70,
+        escrowAmount,
+        new BN(futureDeadline),
+        new BN(0),
+        null
+      )
+      .accounts({
+        escrow: escrowPDA70,
+        client: client.publicKey,
+        freelancer: freelancer.publicKey,
+        config: configPDA,
+        systemProgram: SystemProgram.programId,
+      })
+      .signers([client])
+      .rpc();
+
+    try {
+      await program.methods
+        .closeEscrow()
+        .accounts({
+          escrow: escrowPDA70,
+          client: client.publicKey,
+        })
+        .signers([client])
+        .rpc();
+      expect.fail("Should have thrown NotSettled error");
+    } catch (error) {
+      expect(error.message).to.include("NotSettled");
+    }
+  });
+
+  it("Deadline Extension - Freelancer proposes and the client accepts", async () => {
+    const escrowId80 = "escrow-080";
+    const [escrowPDA80] = PublicKey.findProgramAddressSync(
+      [
+        Buffer.from("escrow"),
+        client.publicKey.toBuffer(),
+        freelancer.publicKey.toBuffer(),
+        Buffer.from(escrowId80),
+      ],
+      program.programId
+    );
+
+    await program.methods
+      .createEscrow(
+        escrowId80,
+        escrowAmount,
+        new BN(futureDeadline),
+        new BN(0),
+        null
+      )
+      .accounts({
+        escrow: escrowPDA80,
+        client: client.publicKey,
+        freelancer: freelancer.publicKey,
+        config: configPDA,
+        systemProgram: SystemProgram.programId,
+      })
+      .signers([client])
+      .rpc();
+
+    const updateDeadline = (
+      method: "acceptDeadline" | "rejectDeadline",
+      party: Keypair
+    ) =>
+      program.methods[method]()
+        .accounts({ escrow: escrowPDA80, party: party.publicKey })
+        .signers([party])
+        .rpc();
+
+    // A rejected proposal leaves the deadline alone
+    const extended = futureDeadline + 86400;
+    await program.methods
+      .proposeDeadline(new BN(extended))
+      .accounts({ escrow: escrowPDA80, party: freelancer.publicKey })
+      .signers([freelancer])
+      .rpc();
+    let escrow = await program.account.escrowAccount.fetch(escrowPDA80);
+    expect(escrow.deadlineProposal.proposer.toBase58()).to.equal(
+      freelancer.publicKey.toBase58()
+    );
+    expect(escrow.deadlineProposal.deadline.toNumber()).to.equal(extended);
+    expect(escrow.deadline.toNumber()).to.equal(futureDeadline);
+
+    await updateDeadline("rejectDeadline", client);
+    escrow = await program.account.escrowAccount.fetch(escrowPDA80);
+    expect(escrow.deadlineProposal).to.equal(null);
+    expect(escrow.deadline.toNumber()).to.equal(futureDeadline);
+
+    await program.methods
+      .proposeDeadline(new BN(extended))
+      .accounts({ escrow: escrowPDA80, party: freelancer.publicKey })
+      .signers([freelancer])
+      .rpc();
+    await updateDeadline("acceptDeadline", client);
+
+    escrow = await program.account.escrowAccount.fetch(escrowPDA80);
+    expect(escrow.deadline.toNumber()).to.equal(extended);
+    expect(escrow.deadlineProposal).to.equal(null);
+  });
+
+  it("Fail: Accept your own deadline proposal", async () => {
+    const [escrowPDA80] = PublicKey.findProgramAddressSync(
+      [
+        Buffer.from("escrow"),
+        client.publicKey.toBuffer(),
+        freelancer.publicKey.toBuffer(),
+        Buffer.from("escrow-080"),
+      ],
+      program.programId
+    );
+
+    await program.methods
+      .proposeDeadline(new BN(futureDeadline + 2 * 86400))
+      .accounts({ escrow: escrowPDA80, party: client.publicKey })
+      .signers([client])
+      .rpc();
+
+    try {
+      await program.methods
+        .acceptDeadline()
+        .accounts({ escrow: escrowPDA80, party: client.publicKey })
+        .signers([client])
+        .rpc();
+      expect.fail("Should have thrown OwnDeadlineProposal error");
+    } catch (error) {
+      expect(error.message).to.include("OwnDeadlineProposal");
+    }
+  });
+
+  it("Request Revision - Client reopens the submission and the freelancer resubmits", async () => {
+    const escrowId90 = "escrow-090";
+    const [escrowPDA90] = PublicKey.findProgramAddressSync(
+      [
+        Buffer.from("escrow"),
+        client.publicKey.toBuffer(),
+        freelancer.publicKey.toBuffer(),
+        Buffer.from(escrowId90),
+      ],
+      program.programId
+    );
+
+    await program.methods
+      .createEscrow(
+        escrowId90,
+        escrowAmount,
+        new BN(futureDeadline),
+        new BN(0),
+        null
+      )
+      .accounts({
+        escrow: escrowPDA90,
+        client: client.publicKey,
+        freelancer: freelancer.publicKey,
+        config: configPDA,
+        systemProgram: SystemProgram.programId,
+      })
+      .signers([client])
+      .rpc();
+
+    await acceptEscrow(escrowPDA90);
+
+    const submit = (metadataRef: string) =>
+      program.methods
+        .submitWork(metadataRef)
+        .accounts({
+          escrow: escrowPDA90,
+          freelancer: freelancer.publicKey,
+          config: configPDA,
+        })
+        .signers([freelancer])
+        .rpc();
+    const requestRevision = (reasonRef: string) =>
+      program.methods
+        .requestRevision(reasonRef)
+        .accounts({
+          escrow: escrowPDA90,
+          client: client.publicKey,
+          systemProgram: SystemProgram.programId,
+        })
+        .signers([client])
+        .rpc();
+
+    await submit("ipfs://QmDraft1");
+    await requestRevision("ipfs://QmFeedback1");
+
+    let escrow = await program.account.escrowAccount.fetch(escrowPDA90);
+    expect(escrow.isSubmitted).to.equal(false);
+    expect(escrow.metadataRef).to.equal("");
+    expect(escrow.revisions).to.have.lengthOf(1);
+    expect(escrow.revisions[0].submissionRef).to.equal("ipfs://QmDraft1");
+    expect(escrow.revisions[0].reasonRef).to.equal("ipfs://QmFeedback1");
+    expect(escrow.submittedAt).to.equal(null);
+
+    await submit("ipfs://QmDraft2");
+    escrow = await program.account.escrowAccount.fetch(escrowPDA90);
+    expect(escrow.isSubmitted).to.equal(true);
+    expect(escrow.metadataRef).to.equal("ipfs://QmDraft2");
+
+    // Rent for the revision history stays in the escrow, only the locked amount is released
+    const treasuryBalanceBefore = await provider.connection.getBalance(
+      treasury.publicKey
+    );
+    await program.methods
+      .approveRelease()
+      .accounts({
+        escrow: escrowPDA90,
+        client: client.publicKey,
+        freelancer: freelancer.publicKey,
+        config: configPDA,
+        treasury: treasury.publicKey,
+      })
+      .signers([client])
+      .rpc();
+    const treasuryBalanceAfter = await provider.connection.getBalance(
+      treasury.publicKey
+    );
+    expect(treasuryBalanceAfter - treasuryBalanceBefore).to.equal(
+      0.025 * LAMPORTS_PER_SOL
+    );
+  });
+
+  it("Fail: Request more revisions than allowed", async () => {
+    const escrowId91 = "escrow-091";
+    const [escrowPDA91] = PublicKey.findProgramAddressSync(
+      [
+        Buffer.from("escrow"),
+        client.publicKey.toBuffer(),
+        freelancer.publicKey.toBuffer(),
+        Buffer.from(escrowId91),
+      ],
+      program.programId
+    );
+
+    await program.methods
+      .createEscrow(
+        escrowId91,
+        escrowAmount,
+        new BN(futureDeadline),
+        new BN(0),
+        null
+      )
+      .accounts({
+        escrow: escrowPDA91,
+        client: client.publicKey,
+        freelancer: freelancer.publicKey,
+        config: configPDA,
+        systemProgram: SystemProgram.programId,
+      })
+      .signers([client])
+      .rpc();
+
+    await acceptEscrow(escrowPDA91);
+
+    const submitThenRevise = async (round: number) => {
+      await program.methods
+        .submitWork(`ipfs://QmRound${round}`)
+        .accounts({
+          escrow: escrowPDA91,
+          freelancer: freelancer.publicKey,
+          config: configPDA,
+        })
+        .signers([freelancer])
+        .rpc();
+      await program.methods
+        .requestRevision(`Round ${round} feedback`)
+        .accounts({
+          escrow: escrowPDA91,
+          client: client.publicKey,
+          systemProgram: SystemProgram.programId,
+        })
+        .signers([client])
+        .rpc();
+    };
+
+    // MAX_REVISIONS rounds succeed
+    for (let round = 1; round <= 3; round++) {
+      await submitThenRevise(round);
+    }
+
+    try {
+      await submitThenRevise(4);
+      expect.fail("Should have thrown TooManyRevisions error");
+    } catch (error) {
+      expect(error.message).to.include("TooManyRevisions");
+    }
+  });
+
+  it("Fail: Refund right after a revision requested near the deadline", async () => {
+    const escrowId92 = "escrow-092";
+    const shortDeadline = Math.floor(Date.now() / 1000) + 4;
+    const [escrowPDA92] = PublicKey.findProgramAddressSync(
+      [
+        Buffer.from("escrow"),
+        client.publicKey.toBuffer(),
+        freelancer.publicKey.toBuffer(),
+        Buffer.from(escrowId92),
+      ],
+      program.programId
+    );
+
+    await program.methods
+      .createEscrow(
+        escrowId92,
+        escrowAmount,
+        new BN(shortDeadline),
+        new BN(0),
+        null
+      )
+      .accounts({
+        escrow: escrowPDA92,
+        client: client.publicKey,
+        freelancer: freelancer.publicKey,
+        config: configPDA,
+        systemProgram: SystemProgram.programId,
+      })
+      .signers([client])
+      .rpc();
+
+    await acceptEscrow(escrowPDA92);
+
+    await program.methods
+      .submitWork("ipfs://QmDraft1")
+      .accounts({
+        escrow: escrowPDA92,
+        freelancer: freelancer.publicKey,
+        config: configPDA,
+      })
+      .signers([freelancer])
+      .rpc();
+    await program.methods
+      .requestRevision("ipfs://QmLateFeedback")
+      .accounts({
+        escrow: escrowPDA92,
+        client: client.publicKey,
+        systemProgram: SystemProgram.programId,
+      })
+      .signers([client])
+      .rpc();
+
+    // The revision moves the deadline out by the resubmission window (3 days)
+    const escrow = await program.account.escrowAccount.fetch(escrowPDA92);
+    expect(escrow.deadline.toNumber()).to.be.greaterThan(
+      shortDeadline + 2 * 24 * 60 * 60
+    );
+
+    // Wait past the original deadline
+    await new Promise((resolve) => setTimeout(resolve, 6000));
+
+    try {
+      await program.methods
+        .refundEscrow()
+        .accounts({
+          escrow: escrowPDA92,
+          client: client.publicKey,
+        })
+        .signers([client])
+        .rpc();
+      expect.fail("Should have thrown RefundBeforeDeadline error");
+    } catch (error) {
+      expect(error.message).to.include("RefundBeforeDeadline");
+    }
+  });
+
+  it("Withdraw - Client refunds an unaccepted escrow before the deadline", async () => {
+    const escrowId100 = "escrow-100";
+    const [escrowPDA100] = PublicKey.findProgramAddressSync(
+      [
+        Buffer.from("escrow"),
+        client.publicKey.toBuffer(),
+        freelancer.publicKey.toBuffer(),
+        Buffer.from(escrowId100),
+      ],
+      program.programId
+    );
+
+    await program.methods
+      .createEscrow(
+        escrowId100,
+        escrowAmount,
+        new BN(futureDeadline),
+        new BN(0),
+        null
+      )
+      .accounts({
+        escrow: escrowPDA100,
+        client: client.publicKey,
+        freelancer: freelancer.publicKey,
+        config: configPDA,
+        systemProgram: SystemProgram.programId,
+      })
+      .signers([client])
+      .rpc();
+
+    const clientBalanceBefore = await provider.connection.getBalance(
+      client.publicKey
+    );
+
+    await program.methods
+      .refundEscrow()
+      .accounts({
+        escrow: escrowPDA100,
+        client: client.publicKey,
+      })
+      .signers([client])
+      .rpc();
+
+    const escrow = await program.account.escrowAccount.fetch(escrowPDA100);
+    expect(escrow.isRefunded).to.equal(true);
+    const clientBalanceAfter = await provider.connection.getBalance(
+      client.publicKey
+    );
+    expect(clientBalanceAfter).to.be.greaterThan(clientBalanceBefore);
+
+    try {
+      await acceptEscrow(escrowPDA100);
+      expect.fail("Should have thrown AlreadyRefunded error");
+    } catch (error) {
+      expect(error.message).to.include("AlreadyRefunded");
+    }
+  });
+
+  it("Subscription - Closing an escrow is reported to onRemove", async () => {
+    const escrowId132 = "escrow-132";
+    const [escrowPDA132] = PublicKey.findProgramAddressSync(
+      [
+        Buffer.from("escrow"),
+        client.publicKey.toBuffer(),
+        freelancer.publicKey.toBuffer(),
+        Buffer.from(escrowId132),
+      ],
+      program.programId
+    );
+
+    await program.methods
+      .createEscrow(
+        escrowId132,
+        escrowAmount,
+        new BN(futureDeadline),
+        new BN(0),
+        null
+      )
+      .accounts({
+        escrow: escrowPDA132,
+        client: client.publicKey,
+        freelancer: freelancer.publicKey,
+        config: configPDA,
+        systemProgram: SystemProgram.programId,
+      })
+      .signers([client])
+      .rpc();
+
+    await program.methods
+      .refundEscrow()
+      .accounts({
+        escrow: escrowPDA132,
+        client: client.publicKey,
+      })
+      .signers([client])
+      .rpc();
+
+    const sdk = EscrowSDK.fromConnection(
+      provider.connection,
+      keypairSigner(client),
+      {
+        programId: program.programId.toBase58(),
+        configAddress: configPDA.toBase58(),
+      }
+    );
+    const removed: string[] = [];
+    const unsubscribe = sdk.subscribeToProgramEscrows(
+      { client: client.publicKey },
+      () => undefined,
+      (escrowAddress) => removed.push(escrowAddress.toBase58())
+    );
+
+    try {
+      // Let the subscription list the client's escrows before closing one
+      await new Promise((resolve) => setTimeout(resolve, 2000));
+
+      await program.methods
+        .closeEscrow()
+        .accounts({
+          escrow: escrowPDA132,
+          client: client.publicKey,
+        })
+        .signers([client])
+        .rpc();
+
+      for (let i = 0; i < 20 && removed.length === 0; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 500));
+      }
+      expect(removed).to.deep.equal([escrowPDA132.toBase58()]);
+    } finally {
+      unsubscribe();
+    }
+  });
+
+  it("Fail: Submit work before accepting", async () => {
+    const escrowId101 = "escrow-101";
+    const [escrowPDA101] = PublicKey.findProgramAddressSync(
+      [
+        Buffer.from("escrow"),
+        client.publicKey.toBuffer(),
+        freelancer.publicKey.toBuffer(),
+        Buffer.from(escrowId101),
+      ],
+      program.programId
+    );
+
+    await program.methods
+      .createEscrow(
+        escrowId101,
+        escrowAmount,
+        new BN(futureDeadline),
+        new BN(0),
+        null
+      )
+      .accounts({
+        escrow: escrowPDA101,
+        client: client.publicKey,
+        freelancer: freelancer.publicKey,
+        config: configPDA,
+        systemProgram: SystemProgram.programId,
+      })
+      .signers([client])
+      .rpc();
+
+    try {
+      await program.methods
+        .submitWork("ipfs://QmUnacceptedWork")
+        .accounts({
+          escrow: escrowPDA101,
+          freelancer: freelancer.publicKey,
+          config: configPDA,
+        })
+        .signers([freelancer])
+        .rpc();
+      expect.fail("Should have thrown NotAccepted error");
+    } catch (error) {
+      expect(error.message).to.include("NotAccepted");
+    }
+  });
+
+  it("Auto release waits for the review period after submission", async () => {
+    const escrowId110 = "escrow-110";
+    const shortDeadline = Math.floor(Date.now() / 1000) + 3;
+    const reviewPeriod = 8;
+    const [escrowPDA110] = PublicKey.findProgramAddressSync(
+      [
+        Buffer.from("escrow"),
+        client.publicKey.toBuffer(),
+        freelancer.publicKey.toBuffer(),
+        Buffer.from(escrowId110),
+      ],
+      program.programId
+    );
+
+    await program.methods
+      .createEscrow(
+        escrowId110,
+        escrowAmount,
+        new BN(shortDeadline),
+        new BN(reviewPeriod),
+        null
+      )
+      .accounts({
+        escrow: escrowPDA110,
+        client: client.publicKey,
+        freelancer: freelancer.publicKey,
+        config: configPDA,
+        systemProgram: SystemProgram.programId,
+      })
+      .signers([client])
+      .rpc();
+
+    await acceptEscrow(escrowPDA110);
+
+    await program.methods
+      .submitWork("ipfs://QmReviewedWork")
+      .accounts({
+        escrow: escrowPDA110,
+        freelancer: freelancer.publicKey,
+        config: configPDA,
+      })
+      .signers([freelancer])
+      .rpc();
+
+    let escrow = await program.account.escrowAccount.fetch(escrowPDA110);
+    expect(escrow.reviewPeriod.toNumber()).to.equal(reviewPeriod);
+
+    // Past the deadline, but the client is still within the review period
+    await new Promise((resolve) => setTimeout(resolve, 5000));
+
+    try {
+      await program.methods
+        .triggerAutoRelease()
+        .accounts({
+          escrow: escrowPDA110,
+          freelancer: freelancer.publicKey,
+          config: configPDA,
+          treasury: treasury.publicKey,
+        })
+        .rpc();
+      expect.fail("Should have thrown ReviewPeriodActive error");
+    } catch (error) {
+      expect(error.message).to.include("ReviewPeriodActive");
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, 5000));
+
+    await program.methods
+      .triggerAutoRelease()
+      .accounts({
+        escrow: escrowPDA110,
+        freelancer: freelancer.publicKey,
+        config: configPDA,
+        treasury: treasury.publicKey,
+      })
+      .rpc();
+
+    escrow = await program.account.escrowAccount.fetch(escrowPDA110);
+    expect(escrow.isReleased).to.equal(true);
+  });
+
+  it("Fail: Submit work after the deadline", async () => {
+    const escrowId111 = "escrow-111";
+    const shortDeadline = Math.floor(Date.now() / 1000) + 2;
+    const [escrowPDA111] = PublicKey.findProgramAddressSync(
+      [
+        Buffer.from("escrow"),
+        client.publicKey.toBuffer(),
+        freelancer.publicKey.toBuffer(),
+        Buffer.from(escrowId111),
+      ],
+      program.programId
+    );
+
+    await program.methods
+      .createEscrow(
+        escrowId111,
+        escrowAmount,
+        new BN(shortDeadline),
+        new BN(0),
+        null
+      )
+      .accounts({
+        escrow: escrowPDA111,
+        client: client.publicKey,
+        freelancer: freelancer.publicKey,
+        config: configPDA,
+        systemProgram: SystemProgram.programId,
+      })
+      .signers([client])
+      .rpc();
+
+    await acceptEscrow(escrowPDA111);
+
+    await new Promise((resolve) => setTimeout(resolve, 5000));
+
+    try {
+      await program.methods
+        .submitWork("ipfs://QmLateWork")
+        .accounts({
+          escrow: escrowPDA111,
+          freelancer: freelancer.publicKey,
+          config: configPDA,
+        })
+        .signers([freelancer])
+        .rpc();
+      expect.fail("Should have thrown SubmissionAfterDeadline error");
+    } catch (error) {
+      expect(error.message).to.include("SubmissionAfterDeadline");
+    }
+  });
+
+  it("Review period - Revision, resubmission and dispute after the deadline", async () => {
+    const escrowId112 = "escrow-112";
+    const shortDeadline = Math.floor(Date.now() / 1000) + 3;
+    const reviewPeriod = 60;
+    const arbiter = Keypair.generate();
+    const [escrowPDA112] = PublicKey.findProgramAddressSync(
+      [
+        Buffer.from("escrow"),
+        client.publicKey.toBuffer(),
+        freelancer.publicKey.toBuffer(),
+        Buffer.from(escrowId112),
+      ],
+      program.programId
+    );
+
+    await program.methods
+      .createEscrow(
+        escrowId112,
+        escrowAmount,
+        new BN(shortDeadline),
+        new BN(reviewPeriod),
+        arbiter.publicKey
+      )
+      .accounts({
+        escrow: escrowPDA112,
+        client: client.publicKey,
+        freelancer: freelancer.publicKey,
+        config: configPDA,
+        systemProgram: SystemProgram.programId,
+      })
+      .signers([client])
+      .rpc();
+
+    await acceptEscrow(escrowPDA112);
+
+    const submit = (metadataRef: string) =>
+      program.methods
+        .submitWork(metadataRef)
+        .accounts({
+          escrow: escrowPDA112,
+          freelancer: freelancer.publicKey,
+          config: configPDA,
+        })
+        .signers([freelancer])
+        .rpc();
+
+    await submit("ipfs://QmDraft1");
+
+    // Past the deadline, but the client is still within the review period
+    await new Promise((resolve) => setTimeout(resolve, 5000));
+
+    await program.methods
+      .requestRevision("ipfs://QmLateFeedback")
+      .accounts({
+        escrow: escrowPDA112,
+        client: client.publicKey,
+        systemProgram: SystemProgram.programId,
+      })
+      .signers([client])
+      .rpc();
+
+    // The revision reopened the deadline, so the freelancer can resubmit
+    await submit("ipfs://QmDraft2");
+
+    let escrow = await program.account.escrowAccount.fetch(escrowPDA112);
+    expect(escrow.isSubmitted).to.equal(true);
+    expect(escrow.metadataRef).to.equal("ipfs://QmDraft2");
+
+    await program.methods
+      .raiseDispute()
+      .accounts({
+        escrow: escrowPDA112,
+        party: freelancer.publicKey,
+      })
+      .signers([freelancer])
+      .rpc();
+
+    escrow = await program.account.escrowAccount.fetch(escrowPDA112);
+    expect(escrow.isDisputed).to.equal(true);
+  });
+
+  it("Settlement - Freelancer accepts the client's proposed split", async () => {
+    const escrowId120 = "escrow-120";
+    const [escrowPDA120] = PublicKey.findProgramAddressSync(
+      [
+        Buffer.from("escrow"),
+        client.publicKey.toBuffer(),
+        freelancer.publicKey.toBuffer(),
+        Buffer.from(escrowId120),
+      ],
+      program.programId
+    );
+
+    await program.methods
+      .createEscrow(
+        escrowId120,
+        escrowAmount,
+        new BN(futureDeadline),
+        new BN(0),
+        null
+      )
+      .accounts({
+        escrow: escrowPDA120,
+        client: client.publicKey,
+        freelancer: freelancer.publicKey,
+        config: configPDA,
+        systemProgram: SystemProgram.programId,
+      })
+      .signers([client])
+      .rpc();
+
+    await acceptEscrow(escrowPDA120);
+
+    await program.methods
+      .proposeSettlement(4000)
+      .accounts({
+        escrow: escrowPDA120,
+        party: client.publicKey,
+      })
+      .signers([client])
+      .rpc();
+
+    const escrow = await program.account.escrowAccount.fetch(escrowPDA120);
+    expect(escrow.settlementProposal.proposer.toBase58()).to.equal(
+      client.publicKey.toBase58()
+    );
+    expect(escrow.settlementProposal.freelancerBps).to.equal(4000);
+
+    const clientBalanceBefore = await provider.connection.getBalance(
+      client.publicKey
+    );
+    const freelancerBalanceBefore = await provider.connection.getBalance(
+      freelancer.publicKey
+    );
+
+    await program.methods
+      .acceptSettlement(4000)
+      .accounts({
+        escrow: escrowPDA120,
+        party: freelancer.publicKey,
+        client: client.publicKey,
+        freelancer: freelancer.publicKey,
+        config: configPDA,
+        treasury: treasury.publicKey,
+      })
+      .signers([freelancer])
+      .rpc();
+
+    const clientBalanceAfter = await provider.connection.getBalance(
+      client.publicKey
+    );
+    const freelancerBalanceAfter = await provider.connection.getBalance(
+      freelancer.publicKey
+    );
+    // Fee is only taken from the freelancer's share
+    expect(freelancerBalanceAfter - freelancerBalanceBefore).to.equal(
+      0.39 * LAMPORTS_PER_SOL
+    );
+    // The client gets its share plus the escrow's rent back
+    expect(clientBalanceAfter - clientBalanceBefore).to.be.greaterThan(
+      0.6 * LAMPORTS_PER_SOL
+    );
+    expect(
+      await program.account.escrowAccount.fetchNullable(escrowPDA120)
+    ).to.equal(null);
+  });
+
+  it("Fail: Accept own or changed settlement", async () => {
+    const escrowId121 = "escrow-121";
+    const [escrowPDA121] = PublicKey.findProgramAddressSync(
+      [
+        Buffer.from("escrow"),
+        client.publicKey.toBuffer(),
+        freelancer.publicKey.toBuffer(),
+        Buffer.from(escrowId121),
+      ],
+      program.programId
+    );
+
+    await program.methods
+      .createEscrow(
+        escrowId121,
+        escrowAmount,
+        new BN(futureDeadline),
+        new BN(0),
+        null
+      )
+      .accounts({
+        escrow: escrowPDA121,
+        client: client.publicKey,
+        freelancer: freelancer.publicKey,
+        config: configPDA,
+        systemProgram: SystemProgram.programId,
+      })
+      .signers([client])
+      .rpc();
+
+    await acceptEscrow(escrowPDA121);
+
+    await program.methods
+      .proposeSettlement(5000)
+      .accounts({
+        escrow: escrowPDA121,
+        party: client.publicKey,
+      })
+      .signers([client])
+      .rpc();
+
+    const acceptAs = (party: Keypair, freelancerBps: number) =>
+      program.methods
+        .acceptSettlement(freelancerBps)
+        .accounts({
+          escrow: escrowPDA121,
+          party: party.publicKey,
+          client: client.publicKey,
+          freelancer: freelancer.publicKey,
+          config: configPDA,
+          treasury: treasury.publicKey,
+        })
+        .signers([party])
+        .rpc();
+
+    try {
+      await acceptAs(client, 5000);
+      expect.fail("Should have thrown OwnSettlementProposal error");
+    } catch (error) {
+      expect(error.message).to.include("OwnSettlementProposal");
+    }
+
+    try {
+      await acceptAs(freelancer, 6000);
+      expect.fail("Should have thrown SettlementMismatch error");
+    } catch (error) {
+      expect(error.message).to.include("SettlementMismatch");
+    }
+
+    await program.methods
+      .rejectSettlement()
+      .accounts({
+        escrow: escrowPDA121,
+        party: freelancer.publicKey,
+      })
+      .signers([freelancer])
+      .rpc();
+
+    const escrow = await program.account.escrowAccount.fetch(escrowPDA121);
+    expect(escrow.settlementProposal).to.equal(null);
+  });
+
+  it("Top up and partially release an escrow", async () => {
+    const escrowId130 = "escrow-130";
+    const [escrowPDA130] = PublicKey.findProgramAddressSync(
+      [
+        Buffer.from("escrow"),
+        client.publicKey.toBuffer(),
+        freelancer.publicKey.toBuffer(),
+        Buffer.from(escrowId130),
+      ],
+      program.programId
+    );
+
+    await program.methods
+      .createEscrow(
+        escrowId130,
+        escrowAmount,
+        new BN(futureDeadline),
+        new BN(0),
+        null
+      )
+      .accounts({
+        escrow: escrowPDA130,
+        client: client.publicKey,
+        freelancer: freelancer.publicKey,
+        config: configPDA,
+        systemProgram: SystemProgram.programId,
+      })
+      .signers([client])
+      .rpc();
+
+    await acceptEscrow(escrowPDA130);
+
+    const depositSignature = await program.methods
+      .depositMore(new BN(0.5 * LAMPORTS_PER_SOL))
+      .accounts({
+        escrow: escrowPDA130,
+        client: client.publicKey,
+        config: configPDA,
+        systemProgram: SystemProgram.programId,
+      })
+      .signers([client])
+      .rpc({ commitment: "confirmed" });
+
+    let escrow = await program.account.escrowAccount.fetch(escrowPDA130);
+    expect(escrow.amount.toNumber()).to.equal(1.5 * LAMPORTS_PER_SOL);
+
+    // The deposit is recorded for the funding ledger
+    const depositTx = await provider.connection.getTransaction(
+      depositSignature,
+      {
+        commitment: "confirmed",
+        maxSupportedTransactionVersion: 0,
+      }
+    );
+    const events = [
+      ...new anchor.EventParser(program.programId, program.coder).parseLogs(
+        depositTx.meta.logMessages
+      ),
+    ];
+    expect(events.length).to.equal(1);
+    expect(events[0].name).to.equal("fundsMoved");
+    expect(events[0].data.kind).to.deep.equal({ deposit: {} });
+    expect(events[0].data.amount.toNumber()).to.equal(0.5 * LAMPORTS_PER_SOL);
+    expect(events[0].data.balance.toNumber()).to.equal(1.5 * LAMPORTS_PER_SOL);
+
+    const freelancerBalanceBefore = await provider.connection.getBalance(
+      freelancer.publicKey
+    );
+
+    await program.methods
+      .releasePartial(new BN(0.4 * LAMPORTS_PER_SOL))
+      .accounts({
+        escrow: escrowPDA130,
+        client: client.publicKey,
+        freelancer: freelancer.publicKey,
+        config: configPDA,
+        treasury: treasury.publicKey,
+      })
+      .signers([client])
+      .rpc();
+
+    const freelancerBalanceAfter = await provider.connection.getBalance(
+      freelancer.publicKey
+    );
+    // 2.5% of the released part goes to the treasury
+    expect(freelancerBalanceAfter - freelancerBalanceBefore).to.equal(
+      0.39 * LAMPORTS_PER_SOL
+    );
+
+    escrow = await program.account.escrowAccount.fetch(escrowPDA130);
+    expect(escrow.amount.toNumber()).to.equal(
+      1.5 * LAMPORTS_PER_SOL - 0.4 * LAMPORTS_PER_SOL
+    );
+    expect(escrow.isReleased).to.equal(false);
+  });
+
+  it("Fail: Partial release before acceptance or of the whole balance", async () => {
+    const escrowId131 = "escrow-131";
+    const [escrowPDA131] = PublicKey.findProgramAddressSync(
+      [
+        Buffer.from("escrow"),
+        client.publicKey.toBuffer(),
+        freelancer.publicKey.toBuffer(),
+        Buffer.from(escrowId131),
+      ],
+      program.programId
+    );
+
+    await program.methods
+      .createEscrow(
+        escrowId131,
+        escrowAmount,
+        new BN(futureDeadline),
+        new BN(0),
+        null
+      )
+      .accounts({
+        escrow: escrowPDA131,
+        client: client.publicKey,
+        freelancer: freelancer.publicKey,
+        config: configPDA,
+        systemProgram: SystemProgram.programId,
+      })
+      .signers([client])
+      .rpc();
+
+    const releasePartial = (amount: BN) =>
+      program.methods
+        .releasePartial(amount)
+        .accounts({
+          escrow: escrowPDA131,
+          client: client.publicKey,
+          freelancer: freelancer.publicKey,
+          config: configPDA,
+          treasury: treasury.publicKey,
+        })
+        .signers([client])
+        .rpc();
+
+    try {
+      await releasePartial(new BN(0.1 * LAMPORTS_PER_SOL));
+      expect.fail("Should have thrown NotAccepted error");
+    } catch (error) {
+      expect(error.message).to.include("NotAccepted");
+    }
+
+    await acceptEscrow(escrowPDA131);
+
+    try {
+      await releasePartial(escrowAmount);
+      expect.fail("Should have thrown PartialReleaseTooLarge error");
+    } catch (error) {
+      expect(error.message).to.include("PartialReleaseTooLarge");
+    }
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Cluster registry
+ *
+ * RPC endpoint, escrow program ID, config address and known SPL tokens for each
+ * supported cluster, plus Solana Explorer links that point at the same cluster.
+ */
+
+import { clusterApiUrl } from "@solana/web3.js";
+import { DEFAULT_PROGRAM_ID } from "./escrowSDK";
+
+export type ClusterName = "localnet" | "devnet" | "mainnet-beta" | "custom";
+
+// SPL token offered for escrows on a cluster
+export interface TokenInfo {
+  symbol: string;
+  mint: string;
+  decimals: number;
+}
+
+export interface ClusterConfig {
+  name: ClusterName;
+  label: string;
+  rpcUrl: string;
+  programId: string;
+  // Platform Config PDA, null for the one derived from the program ID
+  configAddress: string | null;
+  tokens: TokenInfo[];
+}
+
+export const CLUSTER_NAMES: ClusterName[] = ["localnet", "devnet", "mainnet-beta", "custom"];
+
+export const LOCALNET_RPC_URL = "http://127.0.0.1:8899";
+
+const DEVNET_USDC: TokenInfo = {
+  symbol: "USDC",
+  mint: "4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU",
+  decimals: 6,
+};
+
+const MAINNET_USDC: TokenInfo = {
+  symbol: "USDC",
+  mint: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+  decimals: 6,
+};
+
+export const CLUSTERS: Record<ClusterName, ClusterConfig> = {
+  localnet: {
+    name: "localnet",
+    label: "Localnet",
+    rpcUrl: LOCALNET_RPC_URL,
+    programId: DEFAULT_PROGRAM_ID,
+    configAddress: null,
+    tokens: [],
+  },
+  devnet: {
+    name: "devnet",
+    label: "Devnet",
+    rpcUrl: clusterApiUrl("devnet"),
+    programId: DEFAULT_PROGRAM_ID,
+    configAddress: null,
+    tokens: [DEVNET_USDC],
+  },
+  "mainnet-beta": {
+    name: "mainnet-beta",
+    label: "Mainnet Beta",
+    rpcUrl: clusterApiUrl("mainnet-beta"),
+    programId: DEFAULT_PROGRAM_ID,
+    configAddress: null,
+    tokens: [MAINNET_USDC],
+  },
+  custom: {
+    name: "custom",
+    label: "Custom RPC",
+    rpcUrl: LOCALNET_RPC_URL,
+    programId: DEFAULT_PROGRAM_ID,
+    configAddress: null,
+    tokens: [],
+  },
+};
+
+export function isClusterName(value: string): value is ClusterName {
+  return (CLUSTER_NAMES as string[]).includes(value);
+}
+
+/**
+ * Solana Explorer link for an address or transaction signature on the given cluster
+ */
+export function explorerUrl(cluster: ClusterConfig, kind: "address" | "tx", value: string): string {
+  return `https://explorer.solana.com/${kind}/${value}${explorerQuery(cluster)}`;
+}
+
+/**
+ * Solana Explorer home page for the given cluster
+ */
+export function explorerHomeUrl(cluster: ClusterConfig): string {
+  return `https://explorer.solana.com/${explorerQuery(cluster)}`;
+}
+
+function explorerQuery(cluster: ClusterConfig): string {
+  switch (cluster.name) {
+    case "mainnet-beta":
+      return "";
+    case "devnet":
+      return "?cluster=devnet";
+    default:
+      return `?cluster=custom&customUrl=${encodeURIComponent(cluster.rpcUrl)}`;
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * Escrow error classification
+ *
+ * Decodes Anchor program errors, wallet rejections and RPC failures into
+ * typed codes so callers can react without parsing raw error strings.
+ */
+
+/**
+ * Custom error codes of the workspace program, in declaration order.
+ * Anchor numbers them from 6000, so the index here is `code - 6000`.
+ */
+export const PROGRAM_ERROR_CODES = [
+  'InvalidDeadline',
+  'InvalidAmount',
+  'UnauthorizedFreelancer',
+  'UnauthorizedClient',
+  'WorkNotSubmitted',
+  'AlreadySubmitted',
+  'AlreadyReleased',
+  'DeadlineNotPassed',
+  'MetadataTooLong',
+  'EscrowIdTooLong',
+  'AlreadyRefunded',
+  'RefundBeforeDeadline',
+  'InvalidMilestoneCount',
+  'InvalidMilestone',
+  'MilestoneOutOfOrder',
+  'UsesMilestones',
+  'InvalidArbiter',
+  'NoArbiter',
+  'UnauthorizedParty',
+  'UnauthorizedArbiter',
+  'AlreadyDisputed',
+  'NotDisputed',
+  'EscrowDisputed',
+  'DisputeAfterDeadline',
+  'InvalidSplit',
+  'InvalidFee',
+  'InvalidConfig',
+  'InvalidTreasury',
+  'ProgramPaused',
+  'UnauthorizedAuthority',
+  'UsesToken',
+  'InvalidMint',
+  'NotSettled',
+  'NoDeadlineProposal',
+  'OwnDeadlineProposal',
+  'RevisionAfterDeadline',
+  'TooManyRevisions',
+  'NotAccepted',
+  'AlreadyAccepted',
+  'InvitationExpired',
+  'InvalidReviewPeriod',
+  'SubmissionAfterDeadline',
+  'ReviewPeriodActive',
+  'NoSettlementProposal',
+  'OwnSettlementProposal',
+  'SettlementMismatch',
+  'PartialReleaseTooLarge',
+  'InvalidRecipient',
+] as const;
+
+export type ProgramErrorCode = typeof PROGRAM_ERROR_CODES[number];
+
+export type ClientErrorCode =
+  | 'WalletNotConnected'
+  | 'WalletRejected'
+  | 'BlockhashExpired'
+  | 'InsufficientFunds'
+  | 'NetworkUnavailable'
+  | 'RpcError'
+  | 'Timeout'
+  | 'InvalidInput'
+  | 'NotFound'
+  | 'Unknown';
+
+export type EscrowErrorCode = ProgramErrorCode | ClientErrorCode;
+
+const ANCHOR_CUSTOM_ERROR_OFFSET = 6000;
+
+// Shape shared by Anchor, web3.js and wallet adapter errors
+interface ErrorLike {
+  name?: string;
+  message?: string;
+  code?: unknown;
+  logs?: unknown;
+  error?: { errorCode?: { code?: string } };
+}
+
+/**
+ * Error carrying a classified escrow error code
+ */
+export class EscrowError extends Error {
+  readonly code: EscrowErrorCode;
+
+  constructor(message: string, code: EscrowErrorCode = 'Unknown') {
+    super(message);
+    this.name = 'EscrowError';
+    this.code = code;
+  }
+}
+
+/**
+ * Look up a program error name by its numeric Anchor code
+ */
+export function programErrorFromNumber(code: number): ProgramErrorCode | undefined {
+  return PROGRAM_ERROR_CODES[code - ANCHOR_CUSTOM_ERROR_OFFSET];
+}
+
+const isProgramErrorCode = (name: unknown): name is ProgramErrorCode =>
+  typeof name === 'string' && (PROGRAM_ERROR_CODES as readonly string[]).includes(name);
+
+/**
+ * Extract a program error code from an Anchor error object or its logs
+ */
+function decodeProgramError(error: ErrorLike | undefined, text: string): ProgramErrorCode | undefined {
+  // AnchorError exposes the parsed error code directly
+  const anchorName = error?.error?.errorCode?.code;
+  if (isProgramErrorCode(anchorName)) return anchorName;
+
+  // ProgramError carries the numeric code
+  if (typeof error?.code === 'number') {
+    const decoded = programErrorFromNumber(error.code);
+    if (decoded) return decoded;
+  }
+
+  const named = text.match(/Error Code: (\w+)/);
+  if (named && isProgramErrorCode(named[1])) return named[1];
+
+  const custom = text.match(/custom program error: (0x[0-9a-f]+)/i);
+  if (custom) return programErrorFromNumber(parseInt(custom[1], 16));
+
+  return undefined;
+}
+
+/**
+ * Classify any thrown value into an escrow error code
+ */
+export function classifyError(error: unknown): EscrowErrorCode {
+  if (error instanceof EscrowError) return error.code;
+
+  const err = error as ErrorLike | undefined;
+  const logs: string[] = Array.isArray(err?.logs) ? err.logs : [];
+  const text = [err?.message, ...logs].filter(Boolean).join('\n');
+
+  const programCode = decodeProgramError(err, text);
+  if (programCode) return programCode;
+
+  if (
+    err?.name === 'WalletSignTransactionError' ||
+    err?.code === 4001 ||
+    /user rejected|rejected the request|transaction cancelled/i.test(text)
+  ) {
+    return 'WalletRejected';
+  }
+
+  if (
+    err?.name === 'TransactionExpiredBlockheightExceededError' ||
+    /blockhash not found|block height exceeded|has expired/i.test(text)
+  ) {
+    return 'BlockhashExpired';
+  }
+
+  if (/insufficient (lamports|funds)|no record of a prior credit/i.test(text)) {
+    return 'InsufficientFunds';
+  }
+
+  if (/account does not exist/i.test(text)) {
+    return 'NotFound';
+  }
+
+  if (/timed? ?out/i.test(text)) {
+    return 'Timeout';
+  }
+
+  // HTTP statuses need their status text or a "status" label, so amounts and slots don't match
+  if (
+    err?.name === 'SolanaJSONRPCError' ||
+    /failed to fetch|fetch failed|network request failed/i.test(text) ||
+    /\b(429|50[234])\b.*(Too Many|Bad Gateway|Service Unavailable|Gateway Timeout)|status(?: code)? (429|50[234])/i.test(text)
+  ) {
+    return 'RpcError';
+  }
+
+  return 'Unknown';
+}
+
+/**
+ * Classify the `err` field of a simulateTransaction response
+ */
+export function classifySimulationError(err: unknown, logs: string[] = []): EscrowErrorCode {
+  // Program errors come back as { InstructionError: [index, { Custom: code }] }
+  const instructionError = (err as { InstructionError?: [number, unknown] } | null)?.InstructionError;
+  const custom = (instructionError?.[1] as { Custom?: unknown } | undefined)?.Custom;
+  if (typeof custom === 'number') {
+    const decoded = programErrorFromNumber(custom);
+    if (decoded) return decoded;
+  }
+
+  // A fee payer with no balance is not found by the runtime
+  if (err === 'AccountNotFound' || err === 'InsufficientFundsForFee' || err === 'InsufficientFundsForRent') {
+    return 'InsufficientFunds';
+  }
+  if (err === 'BlockhashNotFound') {
+    return 'BlockhashExpired';
+  }
+
+  return classifyError({ message: JSON.stringify(err), logs });
+}
+
+/**
+ * Build a failed SDK result from a thrown value
+ */
+export function toErrorResult(
+  error: unknown,
+  fallbackMessage: string
+): { success: false; error: string; code: EscrowErrorCode } {
+  const message = (error as ErrorLike | undefined)?.message;
+  return {
+    success: false,
+    error: typeof message === 'string' && message ? message : fallbackMessage,
+    code: classifyError(error),
+  };
+}
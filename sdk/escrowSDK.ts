@@ -0,0 +1,2588 @@
+/**
+ * Solana Escrow Program SDK
+ * 
+ * SDK for interacting with the Trustless Escrow Program on Solana.
+ * Handles escrow creation, work submission, approval, and auto-release.
+ * Has no browser or React dependencies, so it also runs from Node with a Keypair signer.
+ */
+
+import { AnchorProvider, EventParser, IdlAccounts, IdlEvents, Program, ProgramAccount } from "@coral-xyz/anchor";
+import BN from "bn.js";
+import { 
+  Connection,
+  Keypair,
+  PublicKey, 
+  SystemProgram,
+  LAMPORTS_PER_SOL,
+  GetProgramAccountsFilter,
+  TransactionInstruction,
+  TransactionMessage,
+  ComputeBudgetProgram,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import {
+  ACCOUNT_SIZE,
+  TOKEN_PROGRAM_ID,
+  TokenAccountNotFoundError,
+  TokenInvalidAccountOwnerError,
+  createAssociatedTokenAccountIdempotentInstruction,
+  getAssociatedTokenAddressSync,
+  getMint,
+} from "@solana/spl-token";
+import IDL from "./idl/workspace.json";
+import type { Workspace } from "./idl/workspace";
+import { EscrowError, EscrowErrorCode, classifySimulationError, toErrorResult } from "./escrowErrors";
+import { SendOutcome, TransactionStatusCallback, sendAndConfirmTransaction } from "./sendTransaction";
+import { EscrowSigner, keypairSigner } from "./signer";
+
+// Program ID of the deployed escrow program on devnet
+export const DEFAULT_PROGRAM_ID = "8EqACgr8ft77u2zCVK8euLWmHBqxDJ1EW6Hb54GmCzw9";
+
+// Decoded account types, generated from the program IDL
+export type EscrowAccountData = IdlAccounts<Workspace>["escrowAccount"];
+export type ConfigAccountData = IdlAccounts<Workspace>["config"];
+export type MilestoneData = EscrowAccountData["milestones"][number];
+export type FundsMovedEvent = IdlEvents<Workspace>["fundsMoved"];
+
+// Direction of a movement in an escrow's funding ledger
+export type FundMovementKind = 'deposit' | 'release' | 'refund';
+
+// One movement of escrowed funds, decoded from the program's FundsMoved event.
+// Amounts are lamports, or token base units for token escrows.
+export interface FundingLedgerEntry {
+  kind: FundMovementKind;
+  amount: BN;
+  balance: BN; // still locked in the escrow afterwards
+  timestamp: number; // Unix timestamp in ms
+  signature: string;
+}
+
+// Lifecycle status derived from the on-chain flags
+export type EscrowStatus =
+  | 'awaiting_acceptance'
+  | 'pending'
+  | 'submitted'
+  | 'completed'
+  | 'expired'
+  | 'refunded'
+  | 'disputed';
+
+// Escrow account paired with its on-chain address
+export interface EscrowRecord {
+  publicKey: PublicKey;
+  account: EscrowAccountData;
+}
+
+// Filter for escrow subscriptions; participant matches any role
+export interface EscrowFilter {
+  client?: PublicKey;
+  freelancer?: PublicKey;
+  arbiter?: PublicKey;
+  participant?: PublicKey;
+}
+
+// Allocated size of an EscrowAccount, mirroring EscrowAccount::space in the program
+const ESCROW_ACCOUNT_SPACE =
+  8 + 32 + 32 + (1 + 32) + 32 + (1 + 32) + 8 + 8 + 8 + 8 + (1 + 8) + (1 + 8) + (1 + 32 + 8) + (1 + 32 + 2) +
+  1 + 1 + 1 + 1 + 1 + (4 + 256) + (4 + 32) + 1 + 4 + 4;
+const MILESTONE_SPACE = 8 + 8 + (4 + 256) + (1 + 8) + 1 + 1;
+
+// Most milestones one escrow can hold, mirroring MAX_MILESTONES in the program
+export const MAX_MILESTONES = 10;
+
+// Most revision rounds a client can request, mirroring MAX_REVISIONS in the program
+export const MAX_REVISIONS = 3;
+
+// Review period applied when none is given, and the longest the program accepts, in seconds
+export const DEFAULT_REVIEW_PERIOD = 3 * 24 * 60 * 60;
+export const MAX_REVIEW_PERIOD = 30 * 24 * 60 * 60;
+
+// Least time the freelancer gets to resubmit after a revision request, in seconds
+export const RESUBMISSION_WINDOW = 3 * 24 * 60 * 60;
+
+export function escrowAccountSpace(milestoneCount: number = 0): number {
+  return ESCROW_ACCOUNT_SPACE + milestoneCount * MILESTONE_SPACE;
+}
+
+// Percentile of recent prioritization fees used for each fee level
+const PRIORITY_FEE_PERCENTILES: Record<Exclude<PriorityFeeLevel, 'none'>, number> = {
+  low: 0.25,
+  medium: 0.5,
+  high: 0.75,
+};
+
+// Minimum price per fee level when recent fees are all zero, in micro-lamports per compute unit
+const PRIORITY_FEE_FLOORS: Record<Exclude<PriorityFeeLevel, 'none'>, number> = {
+  low: 1_000,
+  medium: 10_000,
+  high: 100_000,
+};
+
+// Headroom applied to simulated compute units when setting the limit
+const DEFAULT_COMPUTE_UNIT_MARGIN = 1.2;
+
+// Byte offsets of EscrowAccount fields, after the 8-byte Anchor discriminator
+const ESCROW_CLIENT_OFFSET = 8;
+const ESCROW_FREELANCER_OFFSET = ESCROW_CLIENT_OFFSET + 32;
+// Past the Option tag, so only escrows with that arbiter set match
+const ESCROW_ARBITER_OFFSET = ESCROW_FREELANCER_OFFSET + 32 + 1;
+
+// Close instructions packed into one transaction by closeEscrows
+const CLOSE_BATCH_SIZE = 8;
+
+// Basis points denominator for dispute splits and platform fees
+export const MAX_BPS = 10_000;
+
+/**
+ * Platform fee taken from a release, rounded down as the program does
+ */
+export function calculatePlatformFee(lamports: number, feeBps: number): number {
+  return Math.floor((lamports * feeBps) / MAX_BPS);
+}
+
+/**
+ * Convert a whole-token amount to base units of a mint with the given decimals.
+ * Goes through the decimal string so amounts like 0.1 USDC stay exact.
+ */
+export function toBaseUnits(amount: number, decimals: number): BN {
+  const [whole, fraction = ""] = amount.toFixed(decimals).split(".");
+  return new BN(whole + fraction);
+}
+
+/**
+ * Convert base units of a mint with the given decimals to a whole-token amount
+ */
+export function fromBaseUnits(amount: BN, decimals: number): number {
+  return Number(amount.toString()) / 10 ** decimals;
+}
+
+// Parameter interfaces
+export interface CreateEscrowParams {
+  escrowId: string;
+  freelancer: string;
+  amount: number; // in SOL
+  deadline: number; // Unix timestamp in ms
+  reviewPeriod?: number; // seconds after submission before auto-release, defaults to DEFAULT_REVIEW_PERIOD
+  arbiter?: string; // resolves disputes when set
+}
+
+export interface MilestoneParams {
+  amount: number; // in SOL
+  deadline: number; // Unix timestamp in ms
+}
+
+export interface CreateMilestoneEscrowParams {
+  escrowId: string;
+  freelancer: string;
+  milestones: MilestoneParams[]; // paid in order
+  reviewPeriod?: number; // seconds after each submission before auto-release, defaults to DEFAULT_REVIEW_PERIOD
+  arbiter?: string; // resolves disputes when set
+}
+
+export interface CreateTokenEscrowParams {
+  escrowId: string;
+  freelancer: string;
+  mint: string; // SPL Token mint, e.g. USDC
+  amount: number; // in whole tokens, scaled by the mint's decimals
+  deadline: number; // Unix timestamp in ms
+  reviewPeriod?: number; // seconds after submission before auto-release, defaults to DEFAULT_REVIEW_PERIOD
+}
+
+export type AnyCreateEscrowParams = CreateEscrowParams | CreateMilestoneEscrowParams | CreateTokenEscrowParams;
+
+export interface SubmitWorkParams {
+  escrowAddress: PublicKey;
+  metadataRef: string;
+}
+
+// Instructions produced by a build* method, ready to be signed elsewhere
+export interface BuiltInstructions {
+  instructions: TransactionInstruction[];
+}
+
+// Unsigned transaction for offline or multisig signing
+export interface UnsignedTransaction {
+  transaction: VersionedTransaction;
+  serialized: string; // base64 wire format
+  blockhash: string;
+  lastValidBlockHeight: number;
+}
+
+// Priority fee presets, estimated from recent prioritization fees
+export type PriorityFeeLevel = 'none' | 'low' | 'medium' | 'high';
+
+export interface PriorityFeeOptions {
+  level?: PriorityFeeLevel;
+  microLamports?: number; // fixed price per compute unit, overrides level
+}
+
+export interface EscrowSDKOptions {
+  programId?: PublicKey | string; // defaults to DEFAULT_PROGRAM_ID
+  configAddress?: PublicKey | string; // platform Config, defaults to the program's Config PDA
+  priorityFee?: PriorityFeeOptions;
+  computeUnitMargin?: number; // multiplier applied to simulated compute units
+  commitment?: 'confirmed' | 'finalized'; // level at which actions resolve
+  onTransactionStatus?: TransactionStatusCallback;
+}
+
+// Outcome and cost of a simulated escrow transaction
+export interface SimulationPreview {
+  willSucceed: boolean;
+  error?: string;
+  code?: EscrowErrorCode;
+  unitsConsumed?: number;
+  computeUnitLimit?: number;
+  logs: string[];
+  networkFee: number; // in lamports
+  priorityFeeMicroLamports: number; // price per compute unit
+  priorityFee: number; // in lamports
+  rentDeposit: number; // in lamports, held by the escrow PDA
+}
+
+// Generic result wrapper
+export interface SDKResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  code?: EscrowErrorCode;
+}
+
+/**
+ * Index of the first milestone not yet released, or -1 when there is none or the escrow is settled
+ */
+export function getCurrentMilestoneIndex(account: EscrowAccountData): number {
+  if (account.isReleased || account.isRefunded) return -1;
+  return account.milestones.findIndex((milestone) => !milestone.isReleased);
+}
+
+/**
+ * When the current submission can be auto-released, in ms: once both its deadline and the
+ * review period since it was submitted have passed. Null while nothing is awaiting review.
+ */
+export function getAutoReleaseTime(account: EscrowAccountData): number | null {
+  const current = account.milestones[getCurrentMilestoneIndex(account)] ?? account;
+  if (!current.isSubmitted || !current.submittedAt) return null;
+
+  const reviewEndsAt = current.submittedAt.toNumber() + account.reviewPeriod.toNumber();
+  return Math.max(current.deadline.toNumber(), reviewEndsAt) * 1000; // Convert seconds to ms
+}
+
+/**
+ * Derive the lifecycle status of an escrow.
+ * Milestone escrows follow their current milestone until all are released.
+ */
+export function getEscrowStatus(account: EscrowAccountData, now: number = Date.now()): EscrowStatus {
+  if (account.isReleased) {
+    return 'completed';
+  }
+  if (account.isRefunded) {
+    return 'refunded';
+  }
+  if (account.isDisputed) {
+    return 'disputed';
+  }
+  if (!account.isAccepted) {
+    return 'awaiting_acceptance';
+  }
+
+  const current = account.milestones[getCurrentMilestoneIndex(account)] ?? account;
+  const autoReleaseAt = getAutoReleaseTime(account);
+
+  if (autoReleaseAt !== null && autoReleaseAt < now) {
+    return 'expired'; // Ready for auto-release
+  }
+  if (current.isSubmitted) {
+    return 'submitted';
+  }
+  return 'pending';
+}
+
+/**
+ * Main SDK class for interacting with the Escrow Program
+ */
+export class EscrowSDK {
+  private readonly provider: AnchorProvider;
+  private readonly program: Program<Workspace>;
+  private readonly programId: PublicKey;
+  private options: EscrowSDKOptions;
+
+  constructor(provider: AnchorProvider, options: EscrowSDKOptions = {}) {
+    this.provider = provider;
+    this.options = options;
+    this.programId = new PublicKey(options.programId ?? DEFAULT_PROGRAM_ID);
+    this.program = new Program<Workspace>({ ...IDL, address: this.programId.toBase58() } as Workspace, this.provider);
+  }
+
+  /**
+   * Create an SDK from a connection and a signer, without a wallet adapter.
+   * A Keypair is wrapped with keypairSigner.
+   */
+  static fromConnection(
+    connection: Connection,
+    signer: EscrowSigner | Keypair,
+    options: EscrowSDKOptions = {}
+  ): EscrowSDK {
+    const wallet = signer instanceof Keypair ? keypairSigner(signer) : signer;
+    const provider = new AnchorProvider(connection, wallet, {
+      commitment: options.commitment ?? 'confirmed',
+    });
+    return new EscrowSDK(provider, options);
+  }
+
+  /**
+   * Derive the platform Config PDA created by initialize_config
+   */
+  getConfigPDA(): PublicKey {
+    return PublicKey.findProgramAddressSync([Buffer.from("config")], this.programId)[0];
+  }
+
+  /**
+   * Platform Config new escrows are bound to; the program rejects any other
+   */
+  get configAddress(): PublicKey {
+    return this.options.configAddress ? new PublicKey(this.options.configAddress) : this.getConfigPDA();
+  }
+
+  /**
+   * Change the priority fee applied to subsequent transactions
+   */
+  setPriorityFee(priorityFee: PriorityFeeOptions): void {
+    this.options = { ...this.options, priorityFee };
+  }
+
+  /**
+   * Safe BN constructor that validates input
+   */
+  private safeBN(value: any, defaultValue: number | string = 0): BN {
+    if (value === null || value === undefined) {
+      return new BN(defaultValue);
+    }
+
+    if (typeof value === 'number') {
+      if (isNaN(value) || !isFinite(value)) {
+        return new BN(defaultValue);
+      }
+      return new BN(Math.floor(value).toString());
+    }
+
+    if (typeof value === 'string') {
+      const trimmed = value.trim();
+      if (trimmed === '' || trimmed === 'null' || trimmed === 'undefined') {
+        return new BN(defaultValue);
+      }
+      try {
+        return new BN(Math.floor(parseFloat(trimmed)).toString());
+      } catch {
+        return new BN(defaultValue);
+      }
+    }
+
+    if (value instanceof BN) {
+      return value;
+    }
+
+    return new BN(defaultValue);
+  }
+
+  /**
+   * Safely convert BN to number
+   */
+  private safeBNToNumber(value: any, defaultValue: number = 0): number {
+    try {
+      return value && typeof value.toNumber === 'function' ? value.toNumber() : defaultValue;
+    } catch {
+      if (value && typeof value.toString === 'function') {
+        const parsed = parseInt(value.toString());
+        if (!isNaN(parsed)) return parsed;
+      }
+      return defaultValue;
+    }
+  }
+
+  /**
+   * Generate PDA for escrow account
+   */
+  private getEscrowPDA(client: PublicKey, freelancer: PublicKey, escrowId: string): [PublicKey, number] {
+    return PublicKey.findProgramAddressSync(
+      [
+        Buffer.from("escrow"),
+        client.toBuffer(),
+        freelancer.toBuffer(),
+        Buffer.from(escrowId),
+      ],
+      this.programId
+    );
+  }
+  /**
+   * Derive the token vault PDA owned by a token escrow
+   */
+  private getVaultPDA(escrowAddress: PublicKey): PublicKey {
+    const [vault] = PublicKey.findProgramAddressSync([Buffer.from("vault"), escrowAddress.toBuffer()], this.programId);
+    return vault;
+  }
+
+
+  /**
+   * Convert SOL to lamports
+   */
+  private solToLamports(sol: number): BN {
+    return this.safeBN(Math.floor(sol * LAMPORTS_PER_SOL));
+  }
+
+  /**
+   * Convert lamports to SOL
+   */
+  private lamportsToSol(lamports: BN): number {
+    return this.safeBNToNumber(lamports, 0) / LAMPORTS_PER_SOL;
+  }
+
+  /**
+   * Test RPC connection
+   */
+  private async testConnection(): Promise<boolean> {
+    try {
+      if (!this.provider?.connection) return false;
+      const { value } = await this.provider.connection.getLatestBlockhashAndContext('finalized');
+      return !!(value && value.blockhash);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Generate a unique escrow ID
+   */
+  generateEscrowId(): string {
+    const timestamp = Date.now().toString(36);
+    const random = Math.random().toString(36).substring(2, 8);
+    return `${timestamp}-${random}`.substring(0, 32);
+  }
+
+  /**
+   * Build create escrow instructions without signing or sending
+   */
+  async buildCreateEscrow(
+    params: CreateEscrowParams,
+    client: PublicKey | null = this.provider.publicKey ?? null
+  ): Promise<SDKResult<BuiltInstructions & { escrowAddress: PublicKey }>> {
+    if (!client) {
+      return { success: false, error: "Wallet not connected", code: "WalletNotConnected" };
+    }
+
+    try {
+      // Validate params
+      if (!params.escrowId?.trim()) {
+        return { success: false, error: "Escrow ID required", code: "InvalidInput" };
+      }
+      if (params.escrowId.length > 32) {
+        return { success: false, error: "Escrow ID must be 32 characters or less", code: "EscrowIdTooLong" };
+      }
+      if (params.amount <= 0) {
+        return { success: false, error: "Amount must be greater than 0", code: "InvalidAmount" };
+      }
+      if (params.deadline <= Date.now()) {
+        return { success: false, error: "Deadline must be in the future", code: "InvalidDeadline" };
+      }
+
+      // Parse freelancer address
+      let freelancerPubkey: PublicKey;
+      try {
+        freelancerPubkey = new PublicKey(params.freelancer);
+      } catch {
+        return { success: false, error: "Invalid freelancer address", code: "InvalidInput" };
+      }
+
+      const arbiter = this.parseArbiter(params.arbiter, client, freelancerPubkey);
+      if (!arbiter.success) return { success: false, error: arbiter.error, code: arbiter.code };
+
+      const reviewPeriod = this.parseReviewPeriod(params.reviewPeriod);
+      if (!reviewPeriod.success) return { success: false, error: reviewPeriod.error, code: reviewPeriod.code };
+
+      // Derive escrow PDA
+      const [escrowAddress] = this.getEscrowPDA(client, freelancerPubkey, params.escrowId);
+
+      // Convert parameters
+      const amountLamports = this.solToLamports(params.amount);
+      const deadlineUnix = this.safeBN(Math.floor(params.deadline / 1000)); // Convert ms to seconds
+
+      const instruction = await this.program.methods
+        .createEscrow(params.escrowId, amountLamports, deadlineUnix, reviewPeriod.data!, arbiter.data ?? null)
+        .accountsPartial({
+          escrow: escrowAddress,
+          client,
+          freelancer: freelancerPubkey,
+          config: this.configAddress,
+          systemProgram: SystemProgram.programId,
+        })
+        .instruction();
+
+      return { success: true, data: { instructions: [instruction], escrowAddress } };
+    } catch (error) {
+      return toErrorResult(error, "Failed to build create escrow transaction");
+    }
+  }
+
+  /**
+   * Build create milestone escrow instructions without signing or sending
+   */
+  async buildCreateMilestoneEscrow(
+    params: CreateMilestoneEscrowParams,
+    client: PublicKey | null = this.provider.publicKey ?? null
+  ): Promise<SDKResult<BuiltInstructions & { escrowAddress: PublicKey }>> {
+    if (!client) {
+      return { success: false, error: "Wallet not connected", code: "WalletNotConnected" };
+    }
+
+    try {
+      // Validate params
+      if (!params.escrowId?.trim()) {
+        return { success: false, error: "Escrow ID required", code: "InvalidInput" };
+      }
+      if (params.escrowId.length > 32) {
+        return { success: false, error: "Escrow ID must be 32 characters or less", code: "EscrowIdTooLong" };
+      }
+      if (!params.milestones?.length || params.milestones.length > MAX_MILESTONES) {
+        return {
+          success: false,
+          error: `Between 1 and ${MAX_MILESTONES} milestones required`,
+          code: "InvalidMilestoneCount",
+        };
+      }
+
+      let lastDeadline = Date.now();
+      for (const milestone of params.milestones) {
+        if (milestone.amount <= 0) {
+          return { success: false, error: "Milestone amounts must be greater than 0", code: "InvalidAmount" };
+        }
+        if (milestone.deadline <= lastDeadline) {
+          return {
+            success: false,
+            error: "Milestone deadlines must be in the future and in order",
+            code: "InvalidDeadline",
+          };
+        }
+        lastDeadline = milestone.deadline;
+      }
+
+      // Parse freelancer address
+      let freelancerPubkey: PublicKey;
+      try {
+        freelancerPubkey = new PublicKey(params.freelancer);
+      } catch {
+        return { success: false, error: "Invalid freelancer address", code: "InvalidInput" };
+      }
+
+      const arbiter = this.parseArbiter(params.arbiter, client, freelancerPubkey);
+      if (!arbiter.success) return { success: false, error: arbiter.error, code: arbiter.code };
+
+      const reviewPeriod = this.parseReviewPeriod(params.reviewPeriod);
+      if (!reviewPeriod.success) return { success: false, error: reviewPeriod.error, code: reviewPeriod.code };
+
+      const [escrowAddress] = this.getEscrowPDA(client, freelancerPubkey, params.escrowId);
+
+      const milestones = params.milestones.map((milestone) => ({
+        amount: this.solToLamports(milestone.amount),
+        deadline: this.safeBN(Math.floor(milestone.deadline / 1000)), // Convert ms to seconds
+      }));
+
+      const instruction = await this.program.methods
+        .createMilestoneEscrow(params.escrowId, milestones, reviewPeriod.data!, arbiter.data ?? null)
+        .accountsPartial({
+          escrow: escrowAddress,
+          client,
+          freelancer: freelancerPubkey,
+          config: this.configAddress,
+          systemProgram: SystemProgram.programId,
+        })
+        .instruction();
+
+      return { success: true, data: { instructions: [instruction], escrowAddress } };
+    } catch (error) {
+      return toErrorResult(error, "Failed to build create milestone escrow transaction");
+    }
+  }
+
+  /**
+   * Parse an optional arbiter address; null when the escrow has no arbiter
+   */
+  private parseArbiter(
+    arbiter: string | undefined,
+    client: PublicKey,
+    freelancer: PublicKey
+  ): SDKResult<PublicKey | null> {
+    if (!arbiter) return { success: true, data: null };
+
+    let arbiterPubkey: PublicKey;
+    try {
+      arbiterPubkey = new PublicKey(arbiter);
+    } catch {
+      return { success: false, error: "Invalid arbiter address", code: "InvalidInput" };
+    }
+    if (arbiterPubkey.equals(client) || arbiterPubkey.equals(freelancer)) {
+      return { success: false, error: "Arbiter must differ from client and freelancer", code: "InvalidArbiter" };
+    }
+    return { success: true, data: arbiterPubkey };
+  }
+
+  /**
+   * Parse an optional review period in seconds, falling back to DEFAULT_REVIEW_PERIOD
+   */
+  private parseReviewPeriod(reviewPeriod: number = DEFAULT_REVIEW_PERIOD): SDKResult<BN> {
+    if (!Number.isInteger(reviewPeriod) || reviewPeriod < 0 || reviewPeriod > MAX_REVIEW_PERIOD) {
+      return { success: false, error: "Review period must be between 0 and 30 days", code: "InvalidReviewPeriod" };
+    }
+    return { success: true, data: new BN(reviewPeriod) };
+  }
+
+  /**
+   * Build create token escrow instructions without signing or sending
+   */
+  async buildCreateTokenEscrow(
+    params: CreateTokenEscrowParams,
+    client: PublicKey | null = this.provider.publicKey ?? null
+  ): Promise<SDKResult<BuiltInstructions & { escrowAddress: PublicKey }>> {
+    if (!client) {
+      return { success: false, error: "Wallet not connected", code: "WalletNotConnected" };
+    }
+
+    try {
+      // Validate params
+      if (!params.escrowId?.trim()) {
+        return { success: false, error: "Escrow ID required", code: "InvalidInput" };
+      }
+      if (params.escrowId.length > 32) {
+        return { success: false, error: "Escrow ID must be 32 characters or less", code: "EscrowIdTooLong" };
+      }
+      if (params.amount <= 0) {
+        return { success: false, error: "Amount must be greater than 0", code: "InvalidAmount" };
+      }
+      if (params.deadline <= Date.now()) {
+        return { success: false, error: "Deadline must be in the future", code: "InvalidDeadline" };
+      }
+
+      // Parse freelancer and mint addresses
+      let freelancerPubkey: PublicKey;
+      let mint: PublicKey;
+      try {
+        freelancerPubkey = new PublicKey(params.freelancer);
+      } catch {
+        return { success: false, error: "Invalid freelancer address", code: "InvalidInput" };
+      }
+      try {
+        mint = new PublicKey(params.mint);
+      } catch {
+        return { success: false, error: "Invalid mint address", code: "InvalidInput" };
+      }
+
+      const reviewPeriod = this.parseReviewPeriod(params.reviewPeriod);
+      if (!reviewPeriod.success) return { success: false, error: reviewPeriod.error, code: reviewPeriod.code };
+
+      const decimals = await this.fetchMintDecimals(mint);
+      if (!decimals.success) return { success: false, error: decimals.error, code: decimals.code };
+
+      const [escrowAddress] = this.getEscrowPDA(client, freelancerPubkey, params.escrowId);
+
+      // Convert parameters
+      const amount = toBaseUnits(params.amount, decimals.data!);
+      const deadlineUnix = this.safeBN(Math.floor(params.deadline / 1000)); // Convert ms to seconds
+
+      const instruction = await this.program.methods
+        .createTokenEscrow(params.escrowId, amount, deadlineUnix, reviewPeriod.data!)
+        .accountsPartial({
+          escrow: escrowAddress,
+          client,
+          freelancer: freelancerPubkey,
+          config: this.configAddress,
+          mint,
+          clientToken: getAssociatedTokenAddressSync(mint, client, true),
+          vault: this.getVaultPDA(escrowAddress),
+          tokenProgram: TOKEN_PROGRAM_ID,
+          systemProgram: SystemProgram.programId,
+        })
+        .instruction();
+
+      return { success: true, data: { instructions: [instruction], escrowAddress } };
+    } catch (error) {
+      return toErrorResult(error, "Failed to build create token escrow transaction");
+    }
+  }
+
+  /**
+   * Build create instructions for a single-payment, milestone or token escrow
+   */
+  private buildCreate(
+    params: AnyCreateEscrowParams
+  ): Promise<SDKResult<BuiltInstructions & { escrowAddress: PublicKey }>> {
+    if ("milestones" in params) return this.buildCreateMilestoneEscrow(params);
+    if ("mint" in params) return this.buildCreateTokenEscrow(params);
+    return this.buildCreateEscrow(params);
+  }
+
+  /**
+   * Build accept escrow instructions without signing or sending
+   */
+  async buildAcceptEscrow(
+    escrowAddress: PublicKey,
+    freelancer: PublicKey | null = this.provider.publicKey ?? null
+  ): Promise<SDKResult<BuiltInstructions>> {
+    if (!freelancer) {
+      return { success: false, error: "Wallet not connected", code: "WalletNotConnected" };
+    }
+
+    try {
+      const instruction = await this.program.methods
+        .acceptEscrow()
+        .accountsPartial({
+          escrow: escrowAddress,
+          freelancer,
+        })
+        .instruction();
+
+      return { success: true, data: { instructions: [instruction] } };
+    } catch (error) {
+      return toErrorResult(error, "Failed to build accept escrow transaction");
+    }
+  }
+
+  /**
+   * Build submit work instructions without signing or sending
+   */
+  async buildSubmitWork(
+    escrowAddress: PublicKey,
+    metadataRef: string,
+    freelancer: PublicKey | null = this.provider.publicKey ?? null
+  ): Promise<SDKResult<BuiltInstructions>> {
+    if (!freelancer) {
+      return { success: false, error: "Wallet not connected", code: "WalletNotConnected" };
+    }
+
+    try {
+      if (!metadataRef?.trim()) {
+        return { success: false, error: "Metadata reference required", code: "InvalidInput" };
+      }
+      if (metadataRef.length > 256) {
+        return { success: false, error: "Metadata reference must be 256 characters or less", code: "MetadataTooLong" };
+      }
+
+      const instruction = await this.program.methods
+        .submitWork(metadataRef)
+        .accountsPartial({
+          escrow: escrowAddress,
+          freelancer,
+        })
+        .instruction();
+
+      return { success: true, data: { instructions: [instruction] } };
+    } catch (error) {
+      return toErrorResult(error, "Failed to build submit work transaction");
+    }
+  }
+
+  /**
+   * Build request revision instructions without signing or sending
+   */
+  async buildRequestRevision(
+    escrowAddress: PublicKey,
+    reasonRef: string,
+    client: PublicKey | null = this.provider.publicKey ?? null
+  ): Promise<SDKResult<BuiltInstructions>> {
+    if (!client) {
+      return { success: false, error: "Wallet not connected", code: "WalletNotConnected" };
+    }
+
+    try {
+      if (!reasonRef?.trim()) {
+        return { success: false, error: "Revision reason required", code: "InvalidInput" };
+      }
+      if (reasonRef.length > 256) {
+        return { success: false, error: "Revision reason must be 256 characters or less", code: "MetadataTooLong" };
+      }
+
+      const instruction = await this.program.methods
+        .requestRevision(reasonRef)
+        .accountsPartial({
+          escrow: escrowAddress,
+          client,
+        })
+        .instruction();
+
+      return { success: true, data: { instructions: [instruction] } };
+    } catch (error) {
+      return toErrorResult(error, "Failed to build request revision transaction");
+    }
+  }
+
+  /**
+   * Fetch an escrow with the Config it is bound to and that Config's fee treasury
+   */
+  private async fetchReleaseAccounts(
+    escrowAddress: PublicKey
+  ): Promise<{ escrow: EscrowAccountData; config: PublicKey; treasury: PublicKey }> {
+    const escrow = await this.program.account.escrowAccount.fetch(escrowAddress);
+    const config = await this.program.account.config.fetch(escrow.config);
+    return { escrow, config: escrow.config, treasury: config.treasury };
+  }
+
+  /**
+   * Token accounts for paying out a token escrow, plus instructions that create the
+   * freelancer's and treasury's associated token accounts if they don't exist yet
+   */
+  private tokenReleaseAccounts(
+    escrowAddress: PublicKey,
+    escrow: EscrowAccountData,
+    treasury: PublicKey,
+    payer: PublicKey
+  ): { accounts: { vault: PublicKey; freelancerToken: PublicKey; treasuryToken: PublicKey }; instructions: TransactionInstruction[] } {
+    const mint = escrow.mint!;
+    const freelancerToken = getAssociatedTokenAddressSync(mint, escrow.freelancer, true);
+    const treasuryToken = getAssociatedTokenAddressSync(mint, treasury, true);
+    return {
+      accounts: { vault: this.getVaultPDA(escrowAddress), freelancerToken, treasuryToken },
+      instructions: [
+        createAssociatedTokenAccountIdempotentInstruction(payer, freelancerToken, escrow.freelancer, mint),
+        createAssociatedTokenAccountIdempotentInstruction(payer, treasuryToken, treasury, mint),
+      ],
+    };
+  }
+
+  /**
+   * Build approve release instructions without signing or sending
+   */
+  async buildApproveRelease(
+    escrowAddress: PublicKey,
+    client: PublicKey | null = this.provider.publicKey ?? null
+  ): Promise<SDKResult<BuiltInstructions>> {
+    if (!client) {
+      return { success: false, error: "Wallet not connected", code: "WalletNotConnected" };
+    }
+
+    try {
+      // Fetch escrow to get freelancer address, and its config for the fee treasury
+      const { escrow: escrowAccount, config, treasury } = await this.fetchReleaseAccounts(escrowAddress);
+
+      if (escrowAccount.mint) {
+        const token = this.tokenReleaseAccounts(escrowAddress, escrowAccount, treasury, client);
+        const instruction = await this.program.methods
+          .approveTokenRelease()
+          .accountsPartial({
+            escrow: escrowAddress,
+            client,
+            config,
+            ...token.accounts,
+            tokenProgram: TOKEN_PROGRAM_ID,
+          })
+          .instruction();
+        return { success: true, data: { instructions: [...token.instructions, instruction] } };
+      }
+
+      const instruction = await this.program.methods
+        .approveRelease()
+        .accountsPartial({
+          escrow: escrowAddress,
+          client,
+          freelancer: escrowAccount.freelancer,
+          config,
+          treasury,
+        })
+        .instruction();
+
+      return { success: true, data: { instructions: [instruction] } };
+    } catch (error) {
+      return toErrorResult(error, "Failed to build approve release transaction");
+    }
+  }
+
+  /**
+   * Build deposit instructions for adding SOL to a single-payment escrow, without signing or sending
+   */
+  async buildDepositMore(
+    escrowAddress: PublicKey,
+    amount: number,
+    client: PublicKey | null = this.provider.publicKey ?? null
+  ): Promise<SDKResult<BuiltInstructions>> {
+    if (!client) {
+      return { success: false, error: "Wallet not connected", code: "WalletNotConnected" };
+    }
+    if (!(amount > 0)) {
+      return { success: false, error: "Amount must be greater than 0", code: "InvalidAmount" };
+    }
+
+    try {
+      const instruction = await this.program.methods
+        .depositMore(this.solToLamports(amount))
+        .accountsPartial({
+          escrow: escrowAddress,
+          client,
+          config: this.configAddress,
+        })
+        .instruction();
+
+      return { success: true, data: { instructions: [instruction] } };
+    } catch (error) {
+      return toErrorResult(error, "Failed to build deposit transaction");
+    }
+  }
+
+  /**
+   * Build partial release instructions without signing or sending.
+   * The amount must be less than the escrow balance; use buildApproveRelease for the rest.
+   */
+  async buildReleasePartial(
+    escrowAddress: PublicKey,
+    amount: number,
+    client: PublicKey | null = this.provider.publicKey ?? null
+  ): Promise<SDKResult<BuiltInstructions>> {
+    if (!client) {
+      return { success: false, error: "Wallet not connected", code: "WalletNotConnected" };
+    }
+    if (!(amount > 0)) {
+      return { success: false, error: "Amount must be greater than 0", code: "InvalidAmount" };
+    }
+
+    try {
+      const { escrow: escrowAccount, config, treasury } = await this.fetchReleaseAccounts(escrowAddress);
+
+      const instruction = await this.program.methods
+        .releasePartial(this.solToLamports(amount))
+        .accountsPartial({
+          escrow: escrowAddress,
+          client,
+          freelancer: escrowAccount.freelancer,
+          config,
+          treasury,
+        })
+        .instruction();
+
+      return { success: true, data: { instructions: [instruction] } };
+    } catch (error) {
+      return toErrorResult(error, "Failed to build partial release transaction");
+    }
+  }
+
+  /**
+   * Build auto-release instructions without signing or sending
+   */
+  async buildTriggerAutoRelease(
+    escrowAddress: PublicKey,
+    payer: PublicKey | null = this.provider.publicKey ?? null
+  ): Promise<SDKResult<BuiltInstructions>> {
+    try {
+      // Fetch escrow to get freelancer address, and its config for the fee treasury
+      const { escrow: escrowAccount, config, treasury } = await this.fetchReleaseAccounts(escrowAddress);
+
+      if (escrowAccount.mint) {
+        // Anyone can trigger, but someone has to pay for any missing token accounts
+        if (!payer) {
+          return { success: false, error: "Wallet not connected", code: "WalletNotConnected" };
+        }
+        const token = this.tokenReleaseAccounts(escrowAddress, escrowAccount, treasury, payer);
+        const instruction = await this.program.methods
+          .triggerTokenAutoRelease()
+          .accountsPartial({
+            escrow: escrowAddress,
+            config,
+            ...token.accounts,
+            tokenProgram: TOKEN_PROGRAM_ID,
+          })
+          .instruction();
+        return { success: true, data: { instructions: [...token.instructions, instruction] } };
+      }
+
+      const instruction = await this.program.methods
+        .triggerAutoRelease()
+        .accountsPartial({
+          escrow: escrowAddress,
+          freelancer: escrowAccount.freelancer,
+          config,
+          treasury,
+        })
+        .instruction();
+
+      return { success: true, data: { instructions: [instruction] } };
+    } catch (error) {
+      return toErrorResult(error, "Failed to build auto-release transaction");
+    }
+  }
+
+  /**
+   * Build refund instructions without signing or sending
+   */
+  async buildRefundEscrow(
+    escrowAddress: PublicKey,
+    client: PublicKey | null = this.provider.publicKey ?? null
+  ): Promise<SDKResult<BuiltInstructions>> {
+    if (!client) {
+      return { success: false, error: "Wallet not connected", code: "WalletNotConnected" };
+    }
+
+    try {
+      const escrowAccount = await this.program.account.escrowAccount.fetch(escrowAddress);
+
+      if (escrowAccount.mint) {
+        // Recreate the client's token account in case it was closed since the escrow was funded
+        const clientToken = getAssociatedTokenAddressSync(escrowAccount.mint, client, true);
+        const instruction = await this.program.methods
+          .refundTokenEscrow()
+          .accountsPartial({
+            escrow: escrowAddress,
+            client,
+            vault: this.getVaultPDA(escrowAddress),
+            clientToken,
+            tokenProgram: TOKEN_PROGRAM_ID,
+          })
+          .instruction();
+        return {
+          success: true,
+          data: {
+            instructions: [
+              createAssociatedTokenAccountIdempotentInstruction(client, clientToken, client, escrowAccount.mint),
+              instruction,
+            ],
+          },
+        };
+      }
+
+      const instruction = await this.program.methods
+        .refundEscrow()
+        .accountsPartial({
+          escrow: escrowAddress,
+          client,
+        })
+        .instruction();
+
+      return { success: true, data: { instructions: [instruction] } };
+    } catch (error) {
+      return toErrorResult(error, "Failed to build refund transaction");
+    }
+  }
+
+  /**
+   * Build close escrow instructions without signing or sending; token escrows
+   * also close their vault, sweeping any leftover tokens to the party that was paid
+   */
+  async buildCloseEscrow(
+    escrowAddress: PublicKey,
+    client: PublicKey | null = this.provider.publicKey ?? null
+  ): Promise<SDKResult<BuiltInstructions>> {
+    if (!client) {
+      return { success: false, error: "Wallet not connected", code: "WalletNotConnected" };
+    }
+
+    try {
+      const escrowAccount = await this.program.account.escrowAccount.fetch(escrowAddress);
+
+      const instruction = escrowAccount.mint
+        ? await this.program.methods
+            .closeTokenEscrow()
+            .accountsPartial({
+              escrow: escrowAddress,
+              client,
+              vault: this.getVaultPDA(escrowAddress),
+              recipientToken: getAssociatedTokenAddressSync(
+                escrowAccount.mint,
+                escrowAccount.isReleased ? escrowAccount.freelancer : client,
+                true
+              ),
+              tokenProgram: TOKEN_PROGRAM_ID,
+            })
+            .instruction()
+        : await this.program.methods
+            .closeEscrow()
+            .accountsPartial({
+              escrow: escrowAddress,
+              client,
+            })
+            .instruction();
+
+      return { success: true, data: { instructions: [instruction] } };
+    } catch (error) {
+      return toErrorResult(error, "Failed to build close escrow transaction");
+    }
+  }
+
+  /**
+   * Build propose deadline instructions without signing or sending
+   */
+  async buildProposeDeadline(
+    escrowAddress: PublicKey,
+    deadline: number, // Unix timestamp in ms
+    party: PublicKey | null = this.provider.publicKey ?? null
+  ): Promise<SDKResult<BuiltInstructions>> {
+    if (!party) {
+      return { success: false, error: "Wallet not connected", code: "WalletNotConnected" };
+    }
+
+    try {
+      if (deadline <= Date.now()) {
+        return { success: false, error: "Deadline must be in the future", code: "InvalidDeadline" };
+      }
+
+      const instruction = await this.program.methods
+        .proposeDeadline(this.safeBN(Math.floor(deadline / 1000)))
+        .accountsPartial({
+          escrow: escrowAddress,
+          party,
+        })
+        .instruction();
+
+      return { success: true, data: { instructions: [instruction] } };
+    } catch (error) {
+      return toErrorResult(error, "Failed to build propose deadline transaction");
+    }
+  }
+
+  /**
+   * Build accept deadline instructions without signing or sending
+   */
+  async buildAcceptDeadline(
+    escrowAddress: PublicKey,
+    party: PublicKey | null = this.provider.publicKey ?? null
+  ): Promise<SDKResult<BuiltInstructions>> {
+    if (!party) {
+      return { success: false, error: "Wallet not connected", code: "WalletNotConnected" };
+    }
+
+    try {
+      const instruction = await this.program.methods
+        .acceptDeadline()
+        .accountsPartial({
+          escrow: escrowAddress,
+          party,
+        })
+        .instruction();
+
+      return { success: true, data: { instructions: [instruction] } };
+    } catch (error) {
+      return toErrorResult(error, "Failed to build accept deadline transaction");
+    }
+  }
+
+  /**
+   * Build reject deadline instructions without signing or sending
+   */
+  async buildRejectDeadline(
+    escrowAddress: PublicKey,
+    party: PublicKey | null = this.provider.publicKey ?? null
+  ): Promise<SDKResult<BuiltInstructions>> {
+    if (!party) {
+      return { success: false, error: "Wallet not connected", code: "WalletNotConnected" };
+    }
+
+    try {
+      const instruction = await this.program.methods
+        .rejectDeadline()
+        .accountsPartial({
+          escrow: escrowAddress,
+          party,
+        })
+        .instruction();
+
+      return { success: true, data: { instructions: [instruction] } };
+    } catch (error) {
+      return toErrorResult(error, "Failed to build reject deadline transaction");
+    }
+  }
+
+  /**
+   * Build raise dispute instructions without signing or sending
+   */
+  async buildRaiseDispute(
+    escrowAddress: PublicKey,
+    party: PublicKey | null = this.provider.publicKey ?? null
+  ): Promise<SDKResult<BuiltInstructions>> {
+    if (!party) {
+      return { success: false, error: "Wallet not connected", code: "WalletNotConnected" };
+    }
+
+    try {
+      const instruction = await this.program.methods
+        .raiseDispute()
+        .accountsPartial({
+          escrow: escrowAddress,
+          party,
+        })
+        .instruction();
+
+      return { success: true, data: { instructions: [instruction] } };
+    } catch (error) {
+      return toErrorResult(error, "Failed to build raise dispute transaction");
+    }
+  }
+
+  /**
+   * Build resolve dispute instructions without signing or sending.
+   * The client and freelancer accounts are read from the escrow.
+   */
+  async buildResolveDispute(
+    escrowAddress: PublicKey,
+    freelancerBps: number,
+    arbiter: PublicKey | null = this.provider.publicKey ?? null
+  ): Promise<SDKResult<BuiltInstructions>> {
+    if (!arbiter) {
+      return { success: false, error: "Wallet not connected", code: "WalletNotConnected" };
+    }
+    if (!Number.isInteger(freelancerBps) || freelancerBps < 0 || freelancerBps > MAX_BPS) {
+      return { success: false, error: `Freelancer share must be 0-${MAX_BPS} basis points`, code: "InvalidSplit" };
+    }
+
+    try {
+      const { escrow: escrowAccount, config, treasury } = await this.fetchReleaseAccounts(escrowAddress);
+
+      const instruction = await this.program.methods
+        .resolveDispute(freelancerBps)
+        .accountsPartial({
+          escrow: escrowAddress,
+          arbiter,
+          client: escrowAccount.client,
+          freelancer: escrowAccount.freelancer,
+          config,
+          treasury,
+        })
+        .instruction();
+
+      return { success: true, data: { instructions: [instruction] } };
+    } catch (error) {
+      return toErrorResult(error, "Failed to build resolve dispute transaction");
+    }
+  }
+
+  /**
+   * Build propose settlement instructions without signing or sending
+   */
+  async buildProposeSettlement(
+    escrowAddress: PublicKey,
+    freelancerBps: number,
+    party: PublicKey | null = this.provider.publicKey ?? null
+  ): Promise<SDKResult<BuiltInstructions>> {
+    if (!party) {
+      return { success: false, error: "Wallet not connected", code: "WalletNotConnected" };
+    }
+    if (!Number.isInteger(freelancerBps) || freelancerBps < 0 || freelancerBps > MAX_BPS) {
+      return { success: false, error: `Freelancer share must be 0-${MAX_BPS} basis points`, code: "InvalidSplit" };
+    }
+
+    try {
+      const instruction = await this.program.methods
+        .proposeSettlement(freelancerBps)
+        .accountsPartial({
+          escrow: escrowAddress,
+          party,
+        })
+        .instruction();
+
+      return { success: true, data: { instructions: [instruction] } };
+    } catch (error) {
+      return toErrorResult(error, "Failed to build propose settlement transaction");
+    }
+  }
+
+  /**
+   * Build accept settlement instructions without signing or sending.
+   * freelancerBps must match the pending proposal; the program rejects the
+   * transaction if the proposal was replaced in the meantime.
+   */
+  async buildAcceptSettlement(
+    escrowAddress: PublicKey,
+    freelancerBps: number,
+    party: PublicKey | null = this.provider.publicKey ?? null
+  ): Promise<SDKResult<BuiltInstructions>> {
+    if (!party) {
+      return { success: false, error: "Wallet not connected", code: "WalletNotConnected" };
+    }
+
+    try {
+      const { escrow: escrowAccount, config, treasury } = await this.fetchReleaseAccounts(escrowAddress);
+
+      const instruction = await this.program.methods
+        .acceptSettlement(freelancerBps)
+        .accountsPartial({
+          escrow: escrowAddress,
+          party,
+          client: escrowAccount.client,
+          freelancer: escrowAccount.freelancer,
+          config,
+          treasury,
+        })
+        .instruction();
+
+      return { success: true, data: { instructions: [instruction] } };
+    } catch (error) {
+      return toErrorResult(error, "Failed to build accept settlement transaction");
+    }
+  }
+
+  /**
+   * Build reject settlement instructions without signing or sending
+   */
+  async buildRejectSettlement(
+    escrowAddress: PublicKey,
+    party: PublicKey | null = this.provider.publicKey ?? null
+  ): Promise<SDKResult<BuiltInstructions>> {
+    if (!party) {
+      return { success: false, error: "Wallet not connected", code: "WalletNotConnected" };
+    }
+
+    try {
+      const instruction = await this.program.methods
+        .rejectSettlement()
+        .accountsPartial({
+          escrow: escrowAddress,
+          party,
+        })
+        .instruction();
+
+      return { success: true, data: { instructions: [instruction] } };
+    } catch (error) {
+      return toErrorResult(error, "Failed to build reject settlement transaction");
+    }
+  }
+
+  /**
+   * Build submit milestone instructions without signing or sending
+   */
+  async buildSubmitMilestone(
+    escrowAddress: PublicKey,
+    index: number,
+    metadataRef: string,
+    freelancer: PublicKey | null = this.provider.publicKey ?? null
+  ): Promise<SDKResult<BuiltInstructions>> {
+    if (!freelancer) {
+      return { success: false, error: "Wallet not connected", code: "WalletNotConnected" };
+    }
+
+    try {
+      if (!metadataRef?.trim()) {
+        return { success: false, error: "Metadata reference required", code: "InvalidInput" };
+      }
+      if (metadataRef.length > 256) {
+        return { success: false, error: "Metadata reference must be 256 characters or less", code: "MetadataTooLong" };
+      }
+
+      const instruction = await this.program.methods
+        .submitMilestone(index, metadataRef)
+        .accountsPartial({
+          escrow: escrowAddress,
+          freelancer,
+        })
+        .instruction();
+
+      return { success: true, data: { instructions: [instruction] } };
+    } catch (error) {
+      return toErrorResult(error, "Failed to build submit milestone transaction");
+    }
+  }
+
+  /**
+   * Build approve milestone instructions without signing or sending
+   */
+  async buildApproveMilestone(
+    escrowAddress: PublicKey,
+    index: number,
+    client: PublicKey | null = this.provider.publicKey ?? null
+  ): Promise<SDKResult<BuiltInstructions>> {
+    if (!client) {
+      return { success: false, error: "Wallet not connected", code: "WalletNotConnected" };
+    }
+
+    try {
+      // Fetch escrow to get freelancer address, and its config for the fee treasury
+      const { escrow: escrowAccount, config, treasury } = await this.fetchReleaseAccounts(escrowAddress);
+
+      const instruction = await this.program.methods
+        .approveMilestone(index)
+        .accountsPartial({
+          escrow: escrowAddress,
+          client,
+          freelancer: escrowAccount.freelancer,
+          config,
+          treasury,
+        })
+        .instruction();
+
+      return { success: true, data: { instructions: [instruction] } };
+    } catch (error) {
+      return toErrorResult(error, "Failed to build approve milestone transaction");
+    }
+  }
+
+  /**
+   * Build milestone auto-release instructions without signing or sending
+   */
+  async buildTriggerMilestoneAutoRelease(
+    escrowAddress: PublicKey,
+    index: number
+  ): Promise<SDKResult<BuiltInstructions>> {
+    try {
+      // Fetch escrow to get freelancer address, and its config for the fee treasury
+      const { escrow: escrowAccount, config, treasury } = await this.fetchReleaseAccounts(escrowAddress);
+
+      const instruction = await this.program.methods
+        .triggerMilestoneAutoRelease(index)
+        .accountsPartial({
+          escrow: escrowAddress,
+          freelancer: escrowAccount.freelancer,
+          config,
+          treasury,
+        })
+        .instruction();
+
+      return { success: true, data: { instructions: [instruction] } };
+    } catch (error) {
+      return toErrorResult(error, "Failed to build milestone auto-release transaction");
+    }
+  }
+
+  /**
+   * Build set paused instructions for the SDK's Config without signing or sending
+   */
+  async buildSetPaused(
+    paused: boolean,
+    authority: PublicKey | null = this.provider.publicKey ?? null
+  ): Promise<SDKResult<BuiltInstructions>> {
+    if (!authority) {
+      return { success: false, error: "Wallet not connected", code: "WalletNotConnected" };
+    }
+    try {
+      const instruction = await this.program.methods
+        .setPaused(paused)
+        .accountsPartial({
+          config: this.configAddress,
+          authority,
+        })
+        .instruction();
+
+      return { success: true, data: { instructions: [instruction] } };
+    } catch (error) {
+      return toErrorResult(error, "Failed to build set paused transaction");
+    }
+  }
+
+  /**
+   * Wrap instructions in an unsigned versioned transaction with a recent blockhash
+   */
+  async buildUnsignedTransaction(
+    instructions: TransactionInstruction[],
+    feePayer: PublicKey | null = this.provider.publicKey ?? null
+  ): Promise<SDKResult<UnsignedTransaction>> {
+    if (!feePayer) {
+      return { success: false, error: "Fee payer required", code: "InvalidInput" };
+    }
+
+    try {
+      const { blockhash, lastValidBlockHeight } = await this.provider.connection.getLatestBlockhash('confirmed');
+      const message = new TransactionMessage({
+        payerKey: feePayer,
+        recentBlockhash: blockhash,
+        instructions,
+      }).compileToV0Message();
+      const transaction = new VersionedTransaction(message);
+
+      return {
+        success: true,
+        data: {
+          transaction,
+          serialized: Buffer.from(transaction.serialize()).toString('base64'),
+          blockhash,
+          lastValidBlockHeight,
+        },
+      };
+    } catch (error) {
+      return toErrorResult(error, "Failed to build transaction");
+    }
+  }
+
+  /**
+   * Estimate a priority fee from recent fees paid to write-lock the given accounts
+   */
+  async estimatePriorityFee(
+    writableAccounts: PublicKey[],
+    level: PriorityFeeLevel = 'medium'
+  ): Promise<number> {
+    if (level === 'none') return 0;
+
+    const recent = await this.provider.connection.getRecentPrioritizationFees({
+      lockedWritableAccounts: writableAccounts,
+    });
+    const fees = recent.map((f) => f.prioritizationFee).sort((a, b) => a - b);
+    const percentile = fees.length
+      ? fees[Math.min(fees.length - 1, Math.floor(fees.length * PRIORITY_FEE_PERCENTILES[level]))]
+      : 0;
+
+    return Math.max(percentile, PRIORITY_FEE_FLOORS[level]);
+  }
+
+  /**
+   * Resolve the configured priority fee for a set of instructions
+   */
+  private async resolvePriorityFee(instructions: TransactionInstruction[]): Promise<number> {
+    const { microLamports, level = 'none' } = this.options.priorityFee ?? {};
+    if (microLamports !== undefined) return microLamports;
+
+    // Escrow PDAs are the writable, non-signer accounts whose locks are contended
+    const writableAccounts = instructions.flatMap((ix) =>
+      ix.keys.filter((k) => k.isWritable && !k.isSigner).map((k) => k.pubkey)
+    );
+    return this.estimatePriorityFee(writableAccounts, level);
+  }
+
+  /**
+   * Build ComputeBudget instructions for a compute unit limit and priority fee
+   */
+  buildComputeBudget(computeUnitLimit?: number, microLamports: number = 0): TransactionInstruction[] {
+    const instructions: TransactionInstruction[] = [];
+    if (computeUnitLimit) {
+      instructions.push(ComputeBudgetProgram.setComputeUnitLimit({ units: computeUnitLimit }));
+    }
+    if (microLamports > 0) {
+      instructions.push(ComputeBudgetProgram.setComputeUnitPrice({ microLamports }));
+    }
+    return instructions;
+  }
+
+  /**
+   * Simulate instructions and report the expected outcome, compute budget and fees
+   */
+  private async simulateInstructions(
+    instructions: TransactionInstruction[],
+    rentDeposit: number = 0
+  ): Promise<SDKResult<SimulationPreview>> {
+    const built = await this.buildUnsignedTransaction(instructions);
+    if (!built.success) return { success: false, error: built.error, code: built.code };
+
+    try {
+      const { transaction } = built.data!;
+      const connection = this.provider.connection;
+      const [simulation, fee, priorityFeeMicroLamports] = await Promise.all([
+        connection.simulateTransaction(transaction, { sigVerify: false, replaceRecentBlockhash: true }),
+        connection.getFeeForMessage(transaction.message, 'confirmed'),
+        this.resolvePriorityFee(instructions),
+      ]);
+
+      const { err, logs, unitsConsumed } = simulation.value;
+      const margin = this.options.computeUnitMargin ?? DEFAULT_COMPUTE_UNIT_MARGIN;
+      const computeUnitLimit = unitsConsumed ? Math.ceil(unitsConsumed * margin) : undefined;
+      // Without a limit the runtime charges the priority fee on the default 200k units per instruction
+      const billedUnits = computeUnitLimit ?? 200_000 * instructions.length;
+
+      const preview: SimulationPreview = {
+        willSucceed: !err,
+        unitsConsumed,
+        computeUnitLimit,
+        logs: logs ?? [],
+        networkFee: fee.value ?? 0,
+        priorityFeeMicroLamports,
+        priorityFee: Math.ceil((billedUnits * priorityFeeMicroLamports) / 1_000_000),
+        rentDeposit,
+      };
+
+      if (err) {
+        preview.code = classifySimulationError(err, preview.logs);
+        preview.error = `Simulation failed: ${preview.code}`;
+      }
+
+      return { success: true, data: preview };
+    } catch (error) {
+      return toErrorResult(error, "Failed to simulate transaction");
+    }
+  }
+
+  /**
+   * Simulate escrow creation, including the rent-exempt deposit for the new PDA
+   */
+  async simulateCreateEscrow(
+    params: AnyCreateEscrowParams
+  ): Promise<SDKResult<SimulationPreview>> {
+    const built = await this.buildCreate(params);
+    if (!built.success) return { success: false, error: built.error, code: built.code };
+
+    try {
+      const milestoneCount = "milestones" in params ? params.milestones.length : 0;
+      let rentDeposit = await this.provider.connection.getMinimumBalanceForRentExemption(
+        escrowAccountSpace(milestoneCount)
+      );
+      if ("mint" in params) {
+        // Token escrows also fund the rent of their vault token account
+        rentDeposit += await this.provider.connection.getMinimumBalanceForRentExemption(ACCOUNT_SIZE);
+      }
+      return this.simulateInstructions(built.data!.instructions, rentDeposit);
+    } catch (error) {
+      return toErrorResult(error, "Failed to simulate transaction");
+    }
+  }
+
+  /**
+   * Simulate approving a release
+   */
+  async simulateApproveRelease(escrowAddress: PublicKey): Promise<SDKResult<SimulationPreview>> {
+    const built = await this.buildApproveRelease(escrowAddress);
+    if (!built.success) return { success: false, error: built.error, code: built.code };
+
+    return this.simulateInstructions(built.data!.instructions);
+  }
+
+  /**
+   * Simulate, apply the compute budget, sign with the connected wallet and send
+   * through the confirmation pipeline.
+   * A simulated failure is thrown before the wallet is ever asked to sign.
+   */
+  private async sendInstructions(instructions: TransactionInstruction[]): Promise<SendOutcome> {
+    const simulation = await this.simulateInstructions(instructions);
+    if (!simulation.success) {
+      throw new EscrowError(simulation.error!, simulation.code);
+    }
+    const preview = simulation.data!;
+    if (!preview.willSucceed) {
+      throw new EscrowError(preview.error!, preview.code);
+    }
+
+    const budget = this.buildComputeBudget(preview.computeUnitLimit, preview.priorityFeeMicroLamports);
+    const built = await this.buildUnsignedTransaction([...budget, ...instructions]);
+    if (!built.success) {
+      throw new EscrowError(built.error!, built.code);
+    }
+
+    const signed = await this.provider.wallet.signTransaction(built.data!.transaction);
+    return sendAndConfirmTransaction(this.provider.connection, signed, {
+      lastValidBlockHeight: built.data!.lastValidBlockHeight,
+      commitment: this.options.commitment,
+      onStatus: this.options.onTransactionStatus,
+    });
+  }
+
+  /**
+   * Turn an unsuccessful send outcome into an SDK result
+   */
+  private outcomeError(outcome: Exclude<SendOutcome, { status: 'confirmed' }>): SDKResult<never> {
+    if (outcome.status === 'expired') {
+      return {
+        success: false,
+        error: "Transaction expired before it was confirmed. It did not land and is safe to retry.",
+        code: "BlockhashExpired",
+      };
+    }
+    return { success: false, error: outcome.error, code: outcome.code };
+  }
+
+  /**
+   * Create a new escrow
+   */
+  async createEscrow(
+    params: AnyCreateEscrowParams
+  ): Promise<SDKResult<{ signature: string; escrowAddress: string }>> {
+    if (!this.provider.publicKey) {
+      return { success: false, error: "Wallet not connected", code: "WalletNotConnected" };
+    }
+
+    try {
+      const built = await this.buildCreate(params);
+      if (!built.success) return { success: false, error: built.error, code: built.code };
+
+      const outcome = await this.sendInstructions(built.data!.instructions);
+      if (outcome.status !== 'confirmed') return this.outcomeError(outcome);
+
+      return {
+        success: true,
+        data: {
+          signature: outcome.signature,
+          escrowAddress: built.data!.escrowAddress.toString(),
+        },
+      };
+    } catch (error) {
+      console.error("Create escrow error:", error);
+      return toErrorResult(error, "Failed to create escrow");
+    }
+  }
+
+  /**
+   * Accept an escrow invitation so work can be submitted (freelancer only)
+   */
+  async acceptEscrow(escrowAddress: PublicKey): Promise<SDKResult<{ signature: string }>> {
+    if (!this.provider.publicKey) {
+      return { success: false, error: "Wallet not connected", code: "WalletNotConnected" };
+    }
+
+    try {
+      const built = await this.buildAcceptEscrow(escrowAddress);
+      if (!built.success) return { success: false, error: built.error, code: built.code };
+
+      const outcome = await this.sendInstructions(built.data!.instructions);
+      if (outcome.status !== 'confirmed') return this.outcomeError(outcome);
+
+      return { success: true, data: { signature: outcome.signature } };
+    } catch (error) {
+      console.error("Accept escrow error:", error);
+      return toErrorResult(error, "Failed to accept escrow");
+    }
+  }
+
+  /**
+   * Submit work (freelancer only)
+   */
+  async submitWork(escrowAddress: PublicKey, metadataRef: string): Promise<SDKResult<{ signature: string }>> {
+    if (!this.provider.publicKey) {
+      return { success: false, error: "Wallet not connected", code: "WalletNotConnected" };
+    }
+
+    try {
+      const built = await this.buildSubmitWork(escrowAddress, metadataRef);
+      if (!built.success) return { success: false, error: built.error, code: built.code };
+
+      const outcome = await this.sendInstructions(built.data!.instructions);
+      if (outcome.status !== 'confirmed') return this.outcomeError(outcome);
+
+      return { success: true, data: { signature: outcome.signature } };
+    } catch (error) {
+      console.error("Submit work error:", error);
+      return toErrorResult(error, "Failed to submit work");
+    }
+  }
+
+  /**
+   * Send submitted work back to the freelancer with a reason (client only, before the deadline)
+   */
+  async requestRevision(escrowAddress: PublicKey, reasonRef: string): Promise<SDKResult<{ signature: string }>> {
+    if (!this.provider.publicKey) {
+      return { success: false, error: "Wallet not connected", code: "WalletNotConnected" };
+    }
+
+    try {
+      const built = await this.buildRequestRevision(escrowAddress, reasonRef);
+      if (!built.success) return { success: false, error: built.error, code: built.code };
+
+      const outcome = await this.sendInstructions(built.data!.instructions);
+      if (outcome.status !== 'confirmed') return this.outcomeError(outcome);
+
+      return { success: true, data: { signature: outcome.signature } };
+    } catch (error) {
+      console.error("Request revision error:", error);
+      return toErrorResult(error, "Failed to request revision");
+    }
+  }
+
+  /**
+   * Approve release (client only)
+   */
+  async approveRelease(escrowAddress: PublicKey): Promise<SDKResult<{ signature: string }>> {
+    if (!this.provider.publicKey) {
+      return { success: false, error: "Wallet not connected", code: "WalletNotConnected" };
+    }
+
+    try {
+      const built = await this.buildApproveRelease(escrowAddress);
+      if (!built.success) return { success: false, error: built.error, code: built.code };
+
+      const outcome = await this.sendInstructions(built.data!.instructions);
+      if (outcome.status !== 'confirmed') return this.outcomeError(outcome);
+
+      return { success: true, data: { signature: outcome.signature } };
+    } catch (error) {
+      console.error("Approve release error:", error);
+      return toErrorResult(error, "Failed to approve release");
+    }
+  }
+
+  /**
+   * Add SOL to a single-payment escrow (client only), e.g. when the scope grows
+   */
+  async depositMore(escrowAddress: PublicKey, amount: number): Promise<SDKResult<{ signature: string }>> {
+    if (!this.provider.publicKey) {
+      return { success: false, error: "Wallet not connected", code: "WalletNotConnected" };
+    }
+
+    try {
+      const built = await this.buildDepositMore(escrowAddress, amount);
+      if (!built.success) return { success: false, error: built.error, code: built.code };
+
+      const outcome = await this.sendInstructions(built.data!.instructions);
+      if (outcome.status !== 'confirmed') return this.outcomeError(outcome);
+
+      return { success: true, data: { signature: outcome.signature } };
+    } catch (error) {
+      console.error("Deposit error:", error);
+      return toErrorResult(error, "Failed to deposit funds");
+    }
+  }
+
+  /**
+   * Pay part of a single-payment escrow to the freelancer early (client only); the rest stays locked
+   */
+  async releasePartial(escrowAddress: PublicKey, amount: number): Promise<SDKResult<{ signature: string }>> {
+    if (!this.provider.publicKey) {
+      return { success: false, error: "Wallet not connected", code: "WalletNotConnected" };
+    }
+
+    try {
+      const built = await this.buildReleasePartial(escrowAddress, amount);
+      if (!built.success) return { success: false, error: built.error, code: built.code };
+
+      const outcome = await this.sendInstructions(built.data!.instructions);
+      if (outcome.status !== 'confirmed') return this.outcomeError(outcome);
+
+      return { success: true, data: { signature: outcome.signature } };
+    } catch (error) {
+      console.error("Partial release error:", error);
+      return toErrorResult(error, "Failed to release funds");
+    }
+  }
+
+  /**
+   * Trigger auto-release (anyone can call if conditions met)
+   */
+  async triggerAutoRelease(escrowAddress: PublicKey): Promise<SDKResult<{ signature: string }>> {
+    if (!this.provider.publicKey) {
+      return { success: false, error: "Wallet not connected", code: "WalletNotConnected" };
+    }
+
+    try {
+      const built = await this.buildTriggerAutoRelease(escrowAddress);
+      if (!built.success) return { success: false, error: built.error, code: built.code };
+
+      const outcome = await this.sendInstructions(built.data!.instructions);
+      if (outcome.status !== 'confirmed') return this.outcomeError(outcome);
+
+      return { success: true, data: { signature: outcome.signature } };
+    } catch (error) {
+      console.error("Auto release error:", error);
+      return toErrorResult(error, "Failed to trigger auto-release");
+    }
+  }
+
+  /**
+   * Refund the client after the deadline when no work was submitted, or any time before the freelancer accepts
+   */
+  async refundEscrow(escrowAddress: PublicKey): Promise<SDKResult<{ signature: string }>> {
+    if (!this.provider.publicKey) {
+      return { success: false, error: "Wallet not connected", code: "WalletNotConnected" };
+    }
+
+    try {
+      const built = await this.buildRefundEscrow(escrowAddress);
+      if (!built.success) return { success: false, error: built.error, code: built.code };
+
+      const outcome = await this.sendInstructions(built.data!.instructions);
+      if (outcome.status !== 'confirmed') return this.outcomeError(outcome);
+
+      return { success: true, data: { signature: outcome.signature } };
+    } catch (error) {
+      console.error("Refund error:", error);
+      return toErrorResult(error, "Failed to refund escrow");
+    }
+  }
+
+  /**
+   * Propose moving the deadline later (client or freelancer); applies once the other party accepts
+   */
+  async proposeDeadline(escrowAddress: PublicKey, deadline: number): Promise<SDKResult<{ signature: string }>> {
+    if (!this.provider.publicKey) {
+      return { success: false, error: "Wallet not connected", code: "WalletNotConnected" };
+    }
+
+    try {
+      const built = await this.buildProposeDeadline(escrowAddress, deadline);
+      if (!built.success) return { success: false, error: built.error, code: built.code };
+
+      const outcome = await this.sendInstructions(built.data!.instructions);
+      if (outcome.status !== 'confirmed') return this.outcomeError(outcome);
+
+      return { success: true, data: { signature: outcome.signature } };
+    } catch (error) {
+      console.error("Propose deadline error:", error);
+      return toErrorResult(error, "Failed to propose deadline");
+    }
+  }
+
+  /**
+   * Accept the other party's proposed deadline, which replaces the current one
+   */
+  async acceptDeadline(escrowAddress: PublicKey): Promise<SDKResult<{ signature: string }>> {
+    if (!this.provider.publicKey) {
+      return { success: false, error: "Wallet not connected", code: "WalletNotConnected" };
+    }
+
+    try {
+      const built = await this.buildAcceptDeadline(escrowAddress);
+      if (!built.success) return { success: false, error: built.error, code: built.code };
+
+      const outcome = await this.sendInstructions(built.data!.instructions);
+      if (outcome.status !== 'confirmed') return this.outcomeError(outcome);
+
+      return { success: true, data: { signature: outcome.signature } };
+    } catch (error) {
+      console.error("Accept deadline error:", error);
+      return toErrorResult(error, "Failed to accept deadline");
+    }
+  }
+
+  /**
+   * Reject the other party's proposed deadline, or withdraw your own
+   */
+  async rejectDeadline(escrowAddress: PublicKey): Promise<SDKResult<{ signature: string }>> {
+    if (!this.provider.publicKey) {
+      return { success: false, error: "Wallet not connected", code: "WalletNotConnected" };
+    }
+
+    try {
+      const built = await this.buildRejectDeadline(escrowAddress);
+      if (!built.success) return { success: false, error: built.error, code: built.code };
+
+      const outcome = await this.sendInstructions(built.data!.instructions);
+      if (outcome.status !== 'confirmed') return this.outcomeError(outcome);
+
+      return { success: true, data: { signature: outcome.signature } };
+    } catch (error) {
+      console.error("Reject deadline error:", error);
+      return toErrorResult(error, "Failed to reject deadline");
+    }
+  }
+
+  /**
+   * Dispute the escrow before its deadline (client or freelancer); freezes auto-release
+   */
+  async raiseDispute(escrowAddress: PublicKey): Promise<SDKResult<{ signature: string }>> {
+    if (!this.provider.publicKey) {
+      return { success: false, error: "Wallet not connected", code: "WalletNotConnected" };
+    }
+
+    try {
+      const built = await this.buildRaiseDispute(escrowAddress);
+      if (!built.success) return { success: false, error: built.error, code: built.code };
+
+      const outcome = await this.sendInstructions(built.data!.instructions);
+      if (outcome.status !== 'confirmed') return this.outcomeError(outcome);
+
+      return { success: true, data: { signature: outcome.signature } };
+    } catch (error) {
+      console.error("Raise dispute error:", error);
+      return toErrorResult(error, "Failed to raise dispute");
+    }
+  }
+
+  /**
+   * Settle a dispute (arbiter only), paying freelancerBps of the locked funds to
+   * the freelancer and the rest to the client
+   */
+  async resolveDispute(escrowAddress: PublicKey, freelancerBps: number): Promise<SDKResult<{ signature: string }>> {
+    if (!this.provider.publicKey) {
+      return { success: false, error: "Wallet not connected", code: "WalletNotConnected" };
+    }
+
+    try {
+      const built = await this.buildResolveDispute(escrowAddress, freelancerBps);
+      if (!built.success) return { success: false, error: built.error, code: built.code };
+
+      const outcome = await this.sendInstructions(built.data!.instructions);
+      if (outcome.status !== 'confirmed') return this.outcomeError(outcome);
+
+      return { success: true, data: { signature: outcome.signature } };
+    } catch (error) {
+      console.error("Resolve dispute error:", error);
+      return toErrorResult(error, "Failed to resolve dispute");
+    }
+  }
+
+  /**
+   * Propose cancelling a SOL escrow (client or freelancer), paying freelancerBps of the
+   * locked funds to the freelancer and the rest to the client once the other party accepts.
+   * Token escrows cannot be settled and fail with UsesToken.
+   */
+  async proposeSettlement(escrowAddress: PublicKey, freelancerBps: number): Promise<SDKResult<{ signature: string }>> {
+    if (!this.provider.publicKey) {
+      return { success: false, error: "Wallet not connected", code: "WalletNotConnected" };
+    }
+
+    try {
+      const built = await this.buildProposeSettlement(escrowAddress, freelancerBps);
+      if (!built.success) return { success: false, error: built.error, code: built.code };
+
+      const outcome = await this.sendInstructions(built.data!.instructions);
+      if (outcome.status !== 'confirmed') return this.outcomeError(outcome);
+
+      return { success: true, data: { signature: outcome.signature } };
+    } catch (error) {
+      console.error("Propose settlement error:", error);
+      return toErrorResult(error, "Failed to propose settlement");
+    }
+  }
+
+  /**
+   * Accept the other party's proposed settlement; pays out the split and closes the escrow,
+   * returning its rent to the client
+   */
+  async acceptSettlement(escrowAddress: PublicKey, freelancerBps: number): Promise<SDKResult<{ signature: string }>> {
+    if (!this.provider.publicKey) {
+      return { success: false, error: "Wallet not connected", code: "WalletNotConnected" };
+    }
+
+    try {
+      const built = await this.buildAcceptSettlement(escrowAddress, freelancerBps);
+      if (!built.success) return { success: false, error: built.error, code: built.code };
+
+      const outcome = await this.sendInstructions(built.data!.instructions);
+      if (outcome.status !== 'confirmed') return this.outcomeError(outcome);
+
+      return { success: true, data: { signature: outcome.signature } };
+    } catch (error) {
+      console.error("Accept settlement error:", error);
+      return toErrorResult(error, "Failed to accept settlement");
+    }
+  }
+
+  /**
+   * Reject the other party's proposed settlement, or withdraw your own
+   */
+  async rejectSettlement(escrowAddress: PublicKey): Promise<SDKResult<{ signature: string }>> {
+    if (!this.provider.publicKey) {
+      return { success: false, error: "Wallet not connected", code: "WalletNotConnected" };
+    }
+
+    try {
+      const built = await this.buildRejectSettlement(escrowAddress);
+      if (!built.success) return { success: false, error: built.error, code: built.code };
+
+      const outcome = await this.sendInstructions(built.data!.instructions);
+      if (outcome.status !== 'confirmed') return this.outcomeError(outcome);
+
+      return { success: true, data: { signature: outcome.signature } };
+    } catch (error) {
+      console.error("Reject settlement error:", error);
+      return toErrorResult(error, "Failed to reject settlement");
+    }
+  }
+
+  /**
+   * Submit work for one milestone (freelancer only); milestones are submitted in order
+   */
+  async submitMilestone(
+    escrowAddress: PublicKey,
+    index: number,
+    metadataRef: string
+  ): Promise<SDKResult<{ signature: string }>> {
+    if (!this.provider.publicKey) {
+      return { success: false, error: "Wallet not connected", code: "WalletNotConnected" };
+    }
+
+    try {
+      const built = await this.buildSubmitMilestone(escrowAddress, index, metadataRef);
+      if (!built.success) return { success: false, error: built.error, code: built.code };
+
+      const outcome = await this.sendInstructions(built.data!.instructions);
+      if (outcome.status !== 'confirmed') return this.outcomeError(outcome);
+
+      return { success: true, data: { signature: outcome.signature } };
+    } catch (error) {
+      console.error("Submit milestone error:", error);
+      return toErrorResult(error, "Failed to submit milestone");
+    }
+  }
+
+  /**
+   * Approve and pay out one milestone (client only)
+   */
+  async approveMilestone(escrowAddress: PublicKey, index: number): Promise<SDKResult<{ signature: string }>> {
+    if (!this.provider.publicKey) {
+      return { success: false, error: "Wallet not connected", code: "WalletNotConnected" };
+    }
+
+    try {
+      const built = await this.buildApproveMilestone(escrowAddress, index);
+      if (!built.success) return { success: false, error: built.error, code: built.code };
+
+      const outcome = await this.sendInstructions(built.data!.instructions);
+      if (outcome.status !== 'confirmed') return this.outcomeError(outcome);
+
+      return { success: true, data: { signature: outcome.signature } };
+    } catch (error) {
+      console.error("Approve milestone error:", error);
+      return toErrorResult(error, "Failed to approve milestone");
+    }
+  }
+
+  /**
+   * Release a submitted milestone after its deadline (anyone can call)
+   */
+  async triggerMilestoneAutoRelease(
+    escrowAddress: PublicKey,
+    index: number
+  ): Promise<SDKResult<{ signature: string }>> {
+    if (!this.provider.publicKey) {
+      return { success: false, error: "Wallet not connected", code: "WalletNotConnected" };
+    }
+
+    try {
+      const built = await this.buildTriggerMilestoneAutoRelease(escrowAddress, index);
+      if (!built.success) return { success: false, error: built.error, code: built.code };
+
+      const outcome = await this.sendInstructions(built.data!.instructions);
+      if (outcome.status !== 'confirmed') return this.outcomeError(outcome);
+
+      return { success: true, data: { signature: outcome.signature } };
+    } catch (error) {
+      console.error("Milestone auto release error:", error);
+      return toErrorResult(error, "Failed to trigger milestone auto-release");
+    }
+  }
+
+  /**
+   * Close a released or refunded escrow (client only), returning its rent to the client
+   */
+  async closeEscrow(escrowAddress: PublicKey): Promise<SDKResult<{ signature: string }>> {
+    if (!this.provider.publicKey) {
+      return { success: false, error: "Wallet not connected", code: "WalletNotConnected" };
+    }
+
+    try {
+      const built = await this.buildCloseEscrow(escrowAddress);
+      if (!built.success) return { success: false, error: built.error, code: built.code };
+
+      const outcome = await this.sendInstructions(built.data!.instructions);
+      if (outcome.status !== 'confirmed') return this.outcomeError(outcome);
+
+      return { success: true, data: { signature: outcome.signature } };
+    } catch (error) {
+      console.error("Close escrow error:", error);
+      return toErrorResult(error, "Failed to close escrow");
+    }
+  }
+
+  /**
+   * Close several released or refunded escrows, packing up to CLOSE_BATCH_SIZE into
+   * each transaction. Stops at the first failed batch; earlier batches stay closed.
+   */
+  async closeEscrows(escrowAddresses: PublicKey[]): Promise<SDKResult<{ signatures: string[] }>> {
+    if (!this.provider.publicKey) {
+      return { success: false, error: "Wallet not connected", code: "WalletNotConnected" };
+    }
+
+    try {
+      const signatures: string[] = [];
+      for (let start = 0; start < escrowAddresses.length; start += CLOSE_BATCH_SIZE) {
+        const instructions: TransactionInstruction[] = [];
+        for (const escrowAddress of escrowAddresses.slice(start, start + CLOSE_BATCH_SIZE)) {
+          const built = await this.buildCloseEscrow(escrowAddress);
+          if (!built.success) return { success: false, error: built.error, code: built.code };
+          instructions.push(...built.data!.instructions);
+        }
+
+        const outcome = await this.sendInstructions(instructions);
+        if (outcome.status !== 'confirmed') return this.outcomeError(outcome);
+        signatures.push(outcome.signature);
+      }
+
+      return { success: true, data: { signatures } };
+    } catch (error) {
+      console.error("Close escrows error:", error);
+      return toErrorResult(error, "Failed to close escrows");
+    }
+  }
+
+  /**
+   * Pause or unpause the SDK's Config (config authority only). While paused no
+   * escrows can be created and no work submitted; releases and refunds still work.
+   */
+  async setPaused(paused: boolean): Promise<SDKResult<{ signature: string }>> {
+    if (!this.provider.publicKey) {
+      return { success: false, error: "Wallet not connected", code: "WalletNotConnected" };
+    }
+
+    try {
+      const built = await this.buildSetPaused(paused);
+      if (!built.success) return { success: false, error: built.error, code: built.code };
+
+      const outcome = await this.sendInstructions(built.data!.instructions);
+      if (outcome.status !== 'confirmed') return this.outcomeError(outcome);
+
+      return { success: true, data: { signature: outcome.signature } };
+    } catch (error) {
+      console.error("Set paused error:", error);
+      return toErrorResult(error, "Failed to set paused");
+    }
+  }
+
+  /**
+   * Fetch a single escrow account
+   */
+  async fetchEscrow(escrowAddress: PublicKey): Promise<SDKResult<EscrowAccountData>> {
+    try {
+      if (!(await this.testConnection())) {
+        return { success: false, error: "Network unavailable", code: "NetworkUnavailable" };
+      }
+
+      const escrowAccount = await this.program.account.escrowAccount.fetch(escrowAddress);
+      return { success: true, data: escrowAccount };
+    } catch (error) {
+      const result = toErrorResult(error, "Failed to fetch escrow");
+      if (result.code === "NotFound") {
+        return { ...result, error: "Escrow not found" };
+      }
+      return result;
+    }
+  }
+
+  /**
+   * Fetch the funding ledger of an escrow, oldest movement first.
+   * Read from FundsMoved events in the escrow's transaction history, so it also
+   * works after the escrow has been closed.
+   */
+  async fetchFundingLedger(escrowAddress: PublicKey): Promise<SDKResult<FundingLedgerEntry[]>> {
+    try {
+      if (!(await this.testConnection())) {
+        return { success: false, error: "Network unavailable", code: "NetworkUnavailable" };
+      }
+
+      const connection = this.provider.connection;
+      const signatures = (await connection.getSignaturesForAddress(escrowAddress, undefined, "confirmed"))
+        .filter((info) => !info.err)
+        .map((info) => info.signature)
+        .reverse();
+      const transactions = await connection.getTransactions(signatures, {
+        commitment: "confirmed",
+        maxSupportedTransactionVersion: 0,
+      });
+
+      const parser = new EventParser(this.programId, this.program.coder);
+      const entries: FundingLedgerEntry[] = [];
+      transactions.forEach((transaction, i) => {
+        for (const event of parser.parseLogs(transaction?.meta?.logMessages ?? [])) {
+          if (event.name !== "fundsMoved") continue;
+          const data = event.data as FundsMovedEvent;
+          if (!data.escrow.equals(escrowAddress)) continue;
+          entries.push({
+            kind: Object.keys(data.kind)[0] as FundMovementKind,
+            amount: data.amount,
+            balance: data.balance,
+            timestamp: data.timestamp.toNumber() * 1000,
+            signature: signatures[i],
+          });
+        }
+      });
+
+      return { success: true, data: entries };
+    } catch (error) {
+      return toErrorResult(error, "Failed to fetch funding ledger");
+    }
+  }
+
+  /**
+   * Fetch a Config account, by default the one new escrows are bound to
+   */
+  async fetchConfig(configAddress: PublicKey = this.configAddress): Promise<SDKResult<ConfigAccountData>> {
+    try {
+      const config = await this.program.account.config.fetch(configAddress);
+      return { success: true, data: config };
+    } catch (error) {
+      const result = toErrorResult(error, "Failed to fetch config");
+      if (result.code === "NotFound") {
+        return { ...result, error: "Config not found" };
+      }
+      return result;
+    }
+  }
+
+  /**
+   * Fetch escrow accounts matching the given getProgramAccounts filters
+   */
+  private async fetchEscrowAccounts(filters: GetProgramAccountsFilter[] = []): Promise<SDKResult<EscrowRecord[]>> {
+    try {
+      if (!(await this.testConnection())) {
+        return { success: false, error: "Network unavailable", code: "NetworkUnavailable" };
+      }
+
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error('timeout')), 15000);
+      });
+      
+      const fetchPromise = this.program.account.escrowAccount.all(filters);
+      
+      let allEscrows: ProgramAccount<EscrowAccountData>[];
+      try {
+        allEscrows = await Promise.race([fetchPromise, timeout]);
+      } catch (raceError: any) {
+        if (raceError.message?.includes('timeout')) {
+          return { success: false, error: "Request timed out", code: "Timeout" };
+        }
+        throw raceError;
+      } finally {
+        // A pending timer would keep Node (and the CLI) alive for the full 15s
+        clearTimeout(timer);
+      }
+
+      if (!allEscrows?.length) {
+        return { success: true, data: [] };
+      }
+
+      return {
+        success: true,
+        data: allEscrows.map((e) => ({
+          publicKey: e.publicKey,
+          account: e.account,
+        })),
+      };
+    } catch (error) {
+      const result = toErrorResult(error, "Failed to fetch escrows");
+      if (result.code === "NotFound") {
+        return { success: true, data: [] };
+      }
+      return result;
+    }
+  }
+
+  /**
+   * Build a memcmp filter matching a public key at the given account offset
+   */
+  private pubkeyFilter(offset: number, key: PublicKey): GetProgramAccountsFilter {
+    return { memcmp: { offset, bytes: key.toBase58() } };
+  }
+
+  /**
+   * Fetch all escrows
+   */
+  async fetchAllEscrows(): Promise<SDKResult<EscrowRecord[]>> {
+    return this.fetchEscrowAccounts();
+  }
+
+  /**
+   * Fetch escrows where user is client
+   */
+  async fetchEscrowsByClient(client?: PublicKey): Promise<SDKResult<EscrowRecord[]>> {
+    const targetClient = client || this.provider.publicKey;
+    if (!targetClient) {
+      return { success: false, error: "No client address provided", code: "InvalidInput" };
+    }
+
+    return this.fetchEscrowAccounts([this.pubkeyFilter(ESCROW_CLIENT_OFFSET, targetClient)]);
+  }
+
+  /**
+   * Fetch escrows where user is freelancer
+   */
+  async fetchEscrowsByFreelancer(freelancer?: PublicKey): Promise<SDKResult<EscrowRecord[]>> {
+    const targetFreelancer = freelancer || this.provider.publicKey;
+    if (!targetFreelancer) {
+      return { success: false, error: "No freelancer address provided", code: "InvalidInput" };
+    }
+
+    return this.fetchEscrowAccounts([this.pubkeyFilter(ESCROW_FREELANCER_OFFSET, targetFreelancer)]);
+  }
+
+  /**
+   * Fetch escrows where user is the arbiter
+   */
+  async fetchEscrowsByArbiter(arbiter?: PublicKey): Promise<SDKResult<EscrowRecord[]>> {
+    const targetArbiter = arbiter || this.provider.publicKey;
+    if (!targetArbiter) {
+      return { success: false, error: "No arbiter address provided", code: "InvalidInput" };
+    }
+
+    return this.fetchEscrowAccounts([this.pubkeyFilter(ESCROW_ARBITER_OFFSET, targetArbiter)]);
+  }
+
+  /**
+   * Fetch escrows where user is client, freelancer or arbiter
+   */
+  async fetchEscrowsByParticipant(participant?: PublicKey): Promise<SDKResult<EscrowRecord[]>> {
+    const target = participant || this.provider.publicKey;
+    if (!target) {
+      return { success: false, error: "No participant address provided", code: "InvalidInput" };
+    }
+
+    const [asClient, asFreelancer, asArbiter] = await Promise.all([
+      this.fetchEscrowsByClient(target),
+      this.fetchEscrowsByFreelancer(target),
+      this.fetchEscrowsByArbiter(target),
+    ]);
+    if (!asClient.success) return asClient;
+    if (!asFreelancer.success) return asFreelancer;
+    if (!asArbiter.success) return asArbiter;
+
+    // An escrow where client and freelancer are the same wallet matches both queries
+    const merged = new Map<string, EscrowRecord>();
+    for (const escrow of [...asClient.data!, ...asFreelancer.data!, ...asArbiter.data!]) {
+      merged.set(escrow.publicKey.toBase58(), escrow);
+    }
+
+    return { success: true, data: Array.from(merged.values()) };
+  }
+
+  /**
+   * Decode raw EscrowAccount data
+   */
+  private decodeEscrow(data: Buffer): EscrowAccountData {
+    return this.program.coder.accounts.decode<EscrowAccountData>("escrowAccount", data);
+  }
+
+  /**
+   * Subscribe to changes of a single escrow account.
+   * The callback receives null once the account is closed.
+   * Returns a function that removes the subscription.
+   */
+  subscribeToEscrow(
+    escrowAddress: PublicKey,
+    onChange: (escrow: EscrowAccountData | null) => void
+  ): () => void {
+    const connection = this.provider.connection;
+    const subscriptionId = connection.onAccountChange(
+      escrowAddress,
+      (info) => {
+        if (!info.data.length || !info.owner.equals(this.programId)) {
+          onChange(null);
+          return;
+        }
+        try {
+          onChange(this.decodeEscrow(info.data));
+        } catch (error) {
+          console.error("Failed to decode escrow update:", error);
+        }
+      },
+      { commitment: 'confirmed' }
+    );
+
+    return () => {
+      connection.removeAccountChangeListener(subscriptionId).catch(() => undefined);
+    };
+  }
+
+  /**
+   * Subscribe to changes of the SDK's Config, e.g. to follow the pause flag.
+   * Returns a function that removes the subscription.
+   */
+  subscribeToConfig(onChange: (config: ConfigAccountData) => void): () => void {
+    const configAddress = this.configAddress;
+    const connection = this.provider.connection;
+    const subscriptionId = connection.onAccountChange(
+      configAddress,
+      (info) => {
+        try {
+          onChange(this.program.coder.accounts.decode<ConfigAccountData>("config", info.data));
+        } catch (error) {
+          console.error("Failed to decode config update:", error);
+        }
+      },
+      { commitment: 'confirmed' }
+    );
+
+    return () => {
+      connection.removeAccountChangeListener(subscriptionId).catch(() => undefined);
+    };
+  }
+
+  /**
+   * Subscribe to changes of every escrow matching the filter.
+   * Closed escrows are reported to onRemove instead.
+   * Returns a function that removes the subscriptions.
+   */
+  subscribeToProgramEscrows(
+    filter: EscrowFilter,
+    onChange: (escrow: EscrowRecord) => void,
+    onRemove?: (escrowAddress: PublicKey) => void
+  ): () => void {
+    const connection = this.provider.connection;
+    const discriminator: GetProgramAccountsFilter = {
+      memcmp: this.program.coder.accounts.memcmp("escrowAccount"),
+    };
+
+    // memcmp filters are ANDed, so "any role" needs one subscription per role
+    const roleFilters: GetProgramAccountsFilter[][] = [];
+    if (filter.participant) {
+      roleFilters.push([this.pubkeyFilter(ESCROW_CLIENT_OFFSET, filter.participant)]);
+      roleFilters.push([this.pubkeyFilter(ESCROW_FREELANCER_OFFSET, filter.participant)]);
+      roleFilters.push([this.pubkeyFilter(ESCROW_ARBITER_OFFSET, filter.participant)]);
+    } else {
+      const filters: GetProgramAccountsFilter[] = [];
+      if (filter.client) filters.push(this.pubkeyFilter(ESCROW_CLIENT_OFFSET, filter.client));
+      if (filter.freelancer) filters.push(this.pubkeyFilter(ESCROW_FREELANCER_OFFSET, filter.freelancer));
+      if (filter.arbiter) filters.push(this.pubkeyFilter(ESCROW_ARBITER_OFFSET, filter.arbiter));
+      roleFilters.push(filters);
+    }
+
+    // Closing hands an escrow back to the System Program, which the filtered program
+    // subscription never reports, so each matching escrow is also watched on its own
+    const closeWatchers = new Map<string, () => void>();
+    let unsubscribed = false;
+    const watchForClose = (escrowAddress: PublicKey) => {
+      const key = escrowAddress.toBase58();
+      if (!onRemove || unsubscribed || closeWatchers.has(key)) return;
+      closeWatchers.set(
+        key,
+        this.subscribeToEscrow(escrowAddress, (escrow) => {
+          if (escrow) return;
+          closeWatchers.get(key)?.();
+          closeWatchers.delete(key);
+          onRemove(escrowAddress);
+        })
+      );
+    };
+
+    const subscriptionIds = roleFilters.map((filters) =>
+      connection.onProgramAccountChange(
+        this.programId,
+        ({ accountId, accountInfo }) => {
+          try {
+            onChange({ publicKey: accountId, account: this.decodeEscrow(accountInfo.data) });
+            watchForClose(accountId);
+          } catch (error) {
+            console.error("Failed to decode escrow update:", error);
+          }
+        },
+        { commitment: 'confirmed', filters: [discriminator, ...filters] }
+      )
+    );
+
+    if (onRemove) {
+      Promise.all(
+        roleFilters.map((filters) =>
+          connection.getProgramAccounts(this.programId, {
+            commitment: 'confirmed',
+            filters: [discriminator, ...filters],
+            dataSlice: { offset: 0, length: 0 },
+          })
+        )
+      )
+        .then((results) => results.flat().forEach(({ pubkey }) => watchForClose(pubkey)))
+        .catch((error) => console.error("Failed to list escrows to watch:", error));
+    }
+
+    return () => {
+      unsubscribed = true;
+      subscriptionIds.forEach((id) => {
+        connection.removeProgramAccountChangeListener(id).catch(() => undefined);
+      });
+      closeWatchers.forEach((unsubscribe) => unsubscribe());
+      closeWatchers.clear();
+    };
+  }
+
+  /**
+   * Fetch SOL balance
+   */
+  async fetchSolBalance(account?: PublicKey): Promise<SDKResult<number>> {
+    const targetAccount = account || this.provider.publicKey;
+    if (!targetAccount) {
+      return { success: false, error: "No account provided", code: "InvalidInput" };
+    }
+
+    try {
+      const balance = await this.provider.connection.getBalance(targetAccount);
+      return { success: true, data: balance / LAMPORTS_PER_SOL };
+    } catch (error) {
+      return { ...toErrorResult(error, "Failed to fetch SOL balance"), error: "Failed to fetch SOL balance" };
+    }
+  }
+
+  /**
+   * Fetch the decimals of an SPL Token mint
+   */
+  async fetchMintDecimals(mint: PublicKey): Promise<SDKResult<number>> {
+    try {
+      const { decimals } = await getMint(this.provider.connection, mint, "confirmed", TOKEN_PROGRAM_ID);
+      return { success: true, data: decimals };
+    } catch (error) {
+      if (error instanceof TokenAccountNotFoundError || error instanceof TokenInvalidAccountOwnerError) {
+        return { success: false, error: "Not an SPL Token mint", code: "InvalidMint" };
+      }
+      return toErrorResult(error, "Failed to fetch mint");
+    }
+  }
+}
+
+export default EscrowSDK;
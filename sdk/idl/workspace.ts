@@ -0,0 +1,2777 @@
+/**
+ * Program IDL in camelCase format in order to be used in JS/TS.
+ *
+ * Note that this is only a type helper and is not the actual IDL. The original
+ * IDL can be found at `target/idl/workspace.json`.
+ */
+export type Workspace = {
+  "address": "8EqACgr8ft77u2zCVK8euLWmHBqxDJ1EW6Hb54GmCzw9",
+  "metadata": {
+    "name": "workspace",
+    "version": "0.1.0",
+    "spec": "0.1.0",
+    "description": "Created with Anchor"
+  },
+  "instructions": [
+    {
+      "name": "acceptDeadline",
+      "discriminator": [
+        44,
+        110,
+        201,
+        112,
+        144,
+        81,
+        212,
+        17
+      ],
+      "accounts": [
+        {
+          "name": "escrow",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  101,
+                  115,
+                  99,
+                  114,
+                  111,
+                  119
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "escrow.client",
+                "account": "escrowAccount"
+              },
+              {
+                "kind": "account",
+                "path": "escrow.freelancer",
+                "account": "escrowAccount"
+              },
+              {
+                "kind": "account",
+                "path": "escrow.escrowId",
+                "account": "escrowAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "party",
+          "signer": true
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "acceptEscrow",
+      "discriminator": [
+        193,
+        2,
+        224,
+        245,
+        36,
+        116,
+        65,
+        154
+      ],
+      "accounts": [
+        {
+          "name": "escrow",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  101,
+                  115,
+                  99,
+                  114,
+                  111,
+                  119
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "escrow.client",
+                "account": "escrowAccount"
+              },
+              {
+                "kind": "account",
+                "path": "freelancer"
+              },
+              {
+                "kind": "account",
+                "path": "escrow.escrowId",
+                "account": "escrowAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "freelancer",
+          "signer": true
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "acceptSettlement",
+      "discriminator": [
+        203,
+        247,
+        191,
+        177,
+        25,
+        90,
+        88,
+        75
+      ],
+      "accounts": [
+        {
+          "name": "escrow",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  101,
+                  115,
+                  99,
+                  114,
+                  111,
+                  119
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "escrow.client",
+                "account": "escrowAccount"
+              },
+              {
+                "kind": "account",
+                "path": "escrow.freelancer",
+                "account": "escrowAccount"
+              },
+              {
+                "kind": "account",
+                "path": "escrow.escrowId",
+                "account": "escrowAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "party",
+          "signer": true
+        },
+        {
+          "name": "client",
+          "docs": [
+            "CHECK: Client account to receive its share and the rent, validated by escrow.client"
+          ],
+          "writable": true
+        },
+        {
+          "name": "freelancer",
+          "docs": [
+            "CHECK: Freelancer account to receive its share, validated by escrow.freelancer"
+          ],
+          "writable": true
+        },
+        {
+          "name": "config",
+          "relations": [
+            "escrow"
+          ]
+        },
+        {
+          "name": "treasury",
+          "docs": [
+            "CHECK: Fee recipient, validated by config.treasury"
+          ],
+          "writable": true,
+          "relations": [
+            "config"
+          ]
+        }
+      ],
+      "args": [
+        {
+          "name": "freelancerBps",
+          "type": "u16"
+        }
+      ]
+    },
+    {
+      "name": "approveMilestone",
+      "discriminator": [
+        145,
+        85,
+        92,
+        60,
+        50,
+        130,
+        219,
+        106
+      ],
+      "accounts": [
+        {
+          "name": "escrow",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  101,
+                  115,
+                  99,
+                  114,
+                  111,
+                  119
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "client"
+              },
+              {
+                "kind": "account",
+                "path": "escrow.freelancer",
+                "account": "escrowAccount"
+              },
+              {
+                "kind": "account",
+                "path": "escrow.escrowId",
+                "account": "escrowAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "client",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "freelancer",
+          "docs": [
+            "CHECK: Freelancer account to receive funds, validated by escrow.freelancer"
+          ],
+          "writable": true
+        },
+        {
+          "name": "config",
+          "relations": [
+            "escrow"
+          ]
+        },
+        {
+          "name": "treasury",
+          "docs": [
+            "CHECK: Fee recipient, validated by config.treasury"
+          ],
+          "writable": true,
+          "relations": [
+            "config"
+          ]
+        }
+      ],
+      "args": [
+        {
+          "name": "index",
+          "type": "u8"
+        }
+      ]
+    },
+    {
+      "name": "approveRelease",
+      "discriminator": [
+        110,
+        173,
+        58,
+        175,
+        146,
+        128,
+        138,
+        255
+      ],
+      "accounts": [
+        {
+          "name": "escrow",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  101,
+                  115,
+                  99,
+                  114,
+                  111,
+                  119
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "client"
+              },
+              {
+                "kind": "account",
+                "path": "escrow.freelancer",
+                "account": "escrowAccount"
+              },
+              {
+                "kind": "account",
+                "path": "escrow.escrowId",
+                "account": "escrowAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "client",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "freelancer",
+          "docs": [
+            "CHECK: Freelancer account to receive funds, validated by escrow.freelancer"
+          ],
+          "writable": true
+        },
+        {
+          "name": "config",
+          "relations": [
+            "escrow"
+          ]
+        },
+        {
+          "name": "treasury",
+          "docs": [
+            "CHECK: Fee recipient, validated by config.treasury"
+          ],
+          "writable": true,
+          "relations": [
+            "config"
+          ]
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "approveTokenRelease",
+      "discriminator": [
+        111,
+        49,
+        123,
+        251,
+        226,
+        39,
+        1,
+        247
+      ],
+      "accounts": [
+        {
+          "name": "escrow",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  101,
+                  115,
+                  99,
+                  114,
+                  111,
+                  119
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "client"
+              },
+              {
+                "kind": "account",
+                "path": "escrow.freelancer",
+                "account": "escrowAccount"
+              },
+              {
+                "kind": "account",
+                "path": "escrow.escrowId",
+                "account": "escrowAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "client",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "vault",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  118,
+                  97,
+                  117,
+                  108,
+                  116
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "escrow"
+              }
+            ]
+          }
+        },
+        {
+          "name": "freelancerToken",
+          "writable": true
+        },
+        {
+          "name": "config",
+          "relations": [
+            "escrow"
+          ]
+        },
+        {
+          "name": "treasuryToken",
+          "writable": true
+        },
+        {
+          "name": "tokenProgram",
+          "address": "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA"
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "closeEscrow",
+      "discriminator": [
+        139,
+        171,
+        94,
+        146,
+        191,
+        91,
+        144,
+        50
+      ],
+      "accounts": [
+        {
+          "name": "escrow",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  101,
+                  115,
+                  99,
+                  114,
+                  111,
+                  119
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "client"
+              },
+              {
+                "kind": "account",
+                "path": "escrow.freelancer",
+                "account": "escrowAccount"
+              },
+              {
+                "kind": "account",
+                "path": "escrow.escrowId",
+                "account": "escrowAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "client",
+          "writable": true,
+          "signer": true
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "closeTokenEscrow",
+      "discriminator": [
+        92,
+        82,
+        162,
+        186,
+        136,
+        141,
+        53,
+        9
+      ],
+      "accounts": [
+        {
+          "name": "escrow",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  101,
+                  115,
+                  99,
+                  114,
+                  111,
+                  119
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "client"
+              },
+              {
+                "kind": "account",
+                "path": "escrow.freelancer",
+                "account": "escrowAccount"
+              },
+              {
+                "kind": "account",
+                "path": "escrow.escrowId",
+                "account": "escrowAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "client",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "vault",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  118,
+                  97,
+                  117,
+                  108,
+                  116
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "escrow"
+              }
+            ]
+          }
+        },
+        {
+          "name": "recipientToken",
+          "writable": true
+        },
+        {
+          "name": "tokenProgram",
+          "address": "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA"
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "createEscrow",
+      "discriminator": [
+        253,
+        215,
+        165,
+        116,
+        36,
+        108,
+        68,
+        80
+      ],
+      "accounts": [
+        {
+          "name": "escrow",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  101,
+                  115,
+                  99,
+                  114,
+                  111,
+                  119
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "client"
+              },
+              {
+                "kind": "account",
+                "path": "freelancer"
+              },
+              {
+                "kind": "arg",
+                "path": "escrowId"
+              }
+            ]
+          }
+        },
+        {
+          "name": "client",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "freelancer",
+          "docs": [
+            "CHECK: Freelancer account, validated by being stored in escrow"
+          ]
+        },
+        {
+          "name": "config",
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  99,
+                  111,
+                  110,
+                  102,
+                  105,
+                  103
+                ]
+              }
+            ]
+          }
+        },
+        {
+          "name": "systemProgram",
+          "address": "11111111111111111111111111111111"
+        }
+      ],
+      "args": [
+        {
+          "name": "escrowId",
+          "type": "string"
+        },
+        {
+          "name": "amount",
+          "type": "u64"
+        },
+        {
+          "name": "deadline",
+          "type": "i64"
+        },
+        {
+          "name": "reviewPeriod",
+          "type": "i64"
+        },
+        {
+          "name": "arbiter",
+          "type": {
+            "option": "pubkey"
+          }
+        }
+      ]
+    },
+    {
+      "name": "createMilestoneEscrow",
+      "discriminator": [
+        50,
+        187,
+        4,
+        105,
+        140,
+        55,
+        53,
+        20
+      ],
+      "accounts": [
+        {
+          "name": "escrow",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  101,
+                  115,
+                  99,
+                  114,
+                  111,
+                  119
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "client"
+              },
+              {
+                "kind": "account",
+                "path": "freelancer"
+              },
+              {
+                "kind": "arg",
+                "path": "escrowId"
+              }
+            ]
+          }
+        },
+        {
+          "name": "client",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "freelancer",
+          "docs": [
+            "CHECK: Freelancer account, validated by being stored in escrow"
+          ]
+        },
+        {
+          "name": "config",
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  99,
+                  111,
+                  110,
+                  102,
+                  105,
+                  103
+                ]
+              }
+            ]
+          }
+        },
+        {
+          "name": "systemProgram",
+          "address": "11111111111111111111111111111111"
+        }
+      ],
+      "args": [
+        {
+          "name": "escrowId",
+          "type": "string"
+        },
+        {
+          "name": "milestones",
+          "type": {
+            "vec": {
+              "defined": {
+                "name": "milestoneInput"
+              }
+            }
+          }
+        },
+        {
+          "name": "reviewPeriod",
+          "type": "i64"
+        },
+        {
+          "name": "arbiter",
+          "type": {
+            "option": "pubkey"
+          }
+        }
+      ]
+    },
+    {
+      "name": "createTokenEscrow",
+      "discriminator": [
+        2,
+        244,
+        224,
+        50,
+        222,
+        248,
+        182,
+        62
+      ],
+      "accounts": [
+        {
+          "name": "escrow",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  101,
+                  115,
+                  99,
+                  114,
+                  111,
+                  119
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "client"
+              },
+              {
+                "kind": "account",
+                "path": "freelancer"
+              },
+              {
+                "kind": "arg",
+                "path": "escrowId"
+              }
+            ]
+          }
+        },
+        {
+          "name": "client",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "freelancer",
+          "docs": [
+            "CHECK: Freelancer account, validated by being stored in escrow"
+          ]
+        },
+        {
+          "name": "config",
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  99,
+                  111,
+                  110,
+                  102,
+                  105,
+                  103
+                ]
+              }
+            ]
+          }
+        },
+        {
+          "name": "mint"
+        },
+        {
+          "name": "clientToken",
+          "writable": true
+        },
+        {
+          "name": "vault",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  118,
+                  97,
+                  117,
+                  108,
+                  116
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "escrow"
+              }
+            ]
+          }
+        },
+        {
+          "name": "tokenProgram",
+          "address": "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA"
+        },
+        {
+          "name": "systemProgram",
+          "address": "11111111111111111111111111111111"
+        }
+      ],
+      "args": [
+        {
+          "name": "escrowId",
+          "type": "string"
+        },
+        {
+          "name": "amount",
+          "type": "u64"
+        },
+        {
+          "name": "deadline",
+          "type": "i64"
+        },
+        {
+          "name": "reviewPeriod",
+          "type": "i64"
+        }
+      ]
+    },
+    {
+      "name": "depositMore",
+      "discriminator": [
+        85,
+        207,
+        167,
+        0,
+        97,
+        100,
+        35,
+        107
+      ],
+      "accounts": [
+        {
+          "name": "escrow",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  101,
+                  115,
+                  99,
+                  114,
+                  111,
+                  119
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "client"
+              },
+              {
+                "kind": "account",
+                "path": "escrow.freelancer",
+                "account": "escrowAccount"
+              },
+              {
+                "kind": "account",
+                "path": "escrow.escrowId",
+                "account": "escrowAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "client",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "config",
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  99,
+                  111,
+                  110,
+                  102,
+                  105,
+                  103
+                ]
+              }
+            ]
+          },
+          "relations": [
+            "escrow"
+          ]
+        },
+        {
+          "name": "systemProgram",
+          "address": "11111111111111111111111111111111"
+        }
+      ],
+      "args": [
+        {
+          "name": "amount",
+          "type": "u64"
+        }
+      ]
+    },
+    {
+      "name": "initializeConfig",
+      "discriminator": [
+        208,
+        127,
+        21,
+        1,
+        194,
+        190,
+        196,
+        70
+      ],
+      "accounts": [
+        {
+          "name": "config",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  99,
+                  111,
+                  110,
+                  102,
+                  105,
+                  103
+                ]
+              }
+            ]
+          }
+        },
+        {
+          "name": "authority",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "program",
+          "address": "8EqACgr8ft77u2zCVK8euLWmHBqxDJ1EW6Hb54GmCzw9"
+        },
+        {
+          "name": "programData"
+        },
+        {
+          "name": "systemProgram",
+          "address": "11111111111111111111111111111111"
+        }
+      ],
+      "args": [
+        {
+          "name": "feeBps",
+          "type": "u16"
+        },
+        {
+          "name": "treasury",
+          "type": "pubkey"
+        }
+      ]
+    },
+    {
+      "name": "proposeDeadline",
+      "discriminator": [
+        188,
+        90,
+        63,
+        24,
+        122,
+        247,
+        219,
+        88
+      ],
+      "accounts": [
+        {
+          "name": "escrow",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  101,
+                  115,
+                  99,
+                  114,
+                  111,
+                  119
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "escrow.client",
+                "account": "escrowAccount"
+              },
+              {
+                "kind": "account",
+                "path": "escrow.freelancer",
+                "account": "escrowAccount"
+              },
+              {
+                "kind": "account",
+                "path": "escrow.escrowId",
+                "account": "escrowAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "party",
+          "signer": true
+        }
+      ],
+      "args": [
+        {
+          "name": "newDeadline",
+          "type": "i64"
+        }
+      ]
+    },
+    {
+      "name": "proposeSettlement",
+      "discriminator": [
+        228,
+        149,
+        56,
+        61,
+        137,
+        43,
+        106,
+        25
+      ],
+      "accounts": [
+        {
+          "name": "escrow",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  101,
+                  115,
+                  99,
+                  114,
+                  111,
+                  119
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "escrow.client",
+                "account": "escrowAccount"
+              },
+              {
+                "kind": "account",
+                "path": "escrow.freelancer",
+                "account": "escrowAccount"
+              },
+              {
+                "kind": "account",
+                "path": "escrow.escrowId",
+                "account": "escrowAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "party",
+          "signer": true
+        }
+      ],
+      "args": [
+        {
+          "name": "freelancerBps",
+          "type": "u16"
+        }
+      ]
+    },
+    {
+      "name": "raiseDispute",
+      "discriminator": [
+        41,
+        243,
+        1,
+        51,
+        150,
+        95,
+        246,
+        73
+      ],
+      "accounts": [
+        {
+          "name": "escrow",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  101,
+                  115,
+                  99,
+                  114,
+                  111,
+                  119
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "escrow.client",
+                "account": "escrowAccount"
+              },
+              {
+                "kind": "account",
+                "path": "escrow.freelancer",
+                "account": "escrowAccount"
+              },
+              {
+                "kind": "account",
+                "path": "escrow.escrowId",
+                "account": "escrowAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "party",
+          "signer": true
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "refundEscrow",
+      "discriminator": [
+        107,
+        186,
+        89,
+        99,
+        26,
+        194,
+        23,
+        204
+      ],
+      "accounts": [
+        {
+          "name": "escrow",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  101,
+                  115,
+                  99,
+                  114,
+                  111,
+                  119
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "client"
+              },
+              {
+                "kind": "account",
+                "path": "escrow.freelancer",
+                "account": "escrowAccount"
+              },
+              {
+                "kind": "account",
+                "path": "escrow.escrowId",
+                "account": "escrowAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "client",
+          "writable": true,
+          "signer": true
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "refundTokenEscrow",
+      "discriminator": [
+        114,
+        124,
+        205,
+        88,
+        120,
+        92,
+        69,
+        217
+      ],
+      "accounts": [
+        {
+          "name": "escrow",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  101,
+                  115,
+                  99,
+                  114,
+                  111,
+                  119
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "client"
+              },
+              {
+                "kind": "account",
+                "path": "escrow.freelancer",
+                "account": "escrowAccount"
+              },
+              {
+                "kind": "account",
+                "path": "escrow.escrowId",
+                "account": "escrowAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "client",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "vault",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  118,
+                  97,
+                  117,
+                  108,
+                  116
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "escrow"
+              }
+            ]
+          }
+        },
+        {
+          "name": "clientToken",
+          "writable": true
+        },
+        {
+          "name": "tokenProgram",
+          "address": "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA"
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "rejectDeadline",
+      "discriminator": [
+        9,
+        13,
+        197,
+        159,
+        190,
+        157,
+        194,
+        83
+      ],
+      "accounts": [
+        {
+          "name": "escrow",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  101,
+                  115,
+                  99,
+                  114,
+                  111,
+                  119
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "escrow.client",
+                "account": "escrowAccount"
+              },
+              {
+                "kind": "account",
+                "path": "escrow.freelancer",
+                "account": "escrowAccount"
+              },
+              {
+                "kind": "account",
+                "path": "escrow.escrowId",
+                "account": "escrowAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "party",
+          "signer": true
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "rejectSettlement",
+      "discriminator": [
+        41,
+        221,
+        21,
+        212,
+        168,
+        118,
+        18,
+        181
+      ],
+      "accounts": [
+        {
+          "name": "escrow",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  101,
+                  115,
+                  99,
+                  114,
+                  111,
+                  119
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "escrow.client",
+                "account": "escrowAccount"
+              },
+              {
+                "kind": "account",
+                "path": "escrow.freelancer",
+                "account": "escrowAccount"
+              },
+              {
+                "kind": "account",
+                "path": "escrow.escrowId",
+                "account": "escrowAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "party",
+          "signer": true
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "releasePartial",
+      "discriminator": [
+        86,
+        57,
+        247,
+        124,
+        243,
+        51,
+        221,
+        170
+      ],
+      "accounts": [
+        {
+          "name": "escrow",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  101,
+                  115,
+                  99,
+                  114,
+                  111,
+                  119
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "client"
+              },
+              {
+                "kind": "account",
+                "path": "escrow.freelancer",
+                "account": "escrowAccount"
+              },
+              {
+                "kind": "account",
+                "path": "escrow.escrowId",
+                "account": "escrowAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "client",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "freelancer",
+          "docs": [
+            "CHECK: Freelancer account to receive funds, validated by escrow.freelancer"
+          ],
+          "writable": true
+        },
+        {
+          "name": "config",
+          "relations": [
+            "escrow"
+          ]
+        },
+        {
+          "name": "treasury",
+          "docs": [
+            "CHECK: Fee recipient, validated by config.treasury"
+          ],
+          "writable": true,
+          "relations": [
+            "config"
+          ]
+        }
+      ],
+      "args": [
+        {
+          "name": "amount",
+          "type": "u64"
+        }
+      ]
+    },
+    {
+      "name": "requestRevision",
+      "discriminator": [
+        205,
+        195,
+        75,
+        171,
+        242,
+        149,
+        90,
+        14
+      ],
+      "accounts": [
+        {
+          "name": "escrow",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  101,
+                  115,
+                  99,
+                  114,
+                  111,
+                  119
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "client"
+              },
+              {
+                "kind": "account",
+                "path": "escrow.freelancer",
+                "account": "escrowAccount"
+              },
+              {
+                "kind": "account",
+                "path": "escrow.escrowId",
+                "account": "escrowAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "client",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "systemProgram",
+          "address": "11111111111111111111111111111111"
+        }
+      ],
+      "args": [
+        {
+          "name": "reasonRef",
+          "type": "string"
+        }
+      ]
+    },
+    {
+      "name": "resolveDispute",
+      "discriminator": [
+        231,
+        6,
+        202,
+        6,
+        96,
+        103,
+        12,
+        230
+      ],
+      "accounts": [
+        {
+          "name": "escrow",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  101,
+                  115,
+                  99,
+                  114,
+                  111,
+                  119
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "escrow.client",
+                "account": "escrowAccount"
+              },
+              {
+                "kind": "account",
+                "path": "escrow.freelancer",
+                "account": "escrowAccount"
+              },
+              {
+                "kind": "account",
+                "path": "escrow.escrowId",
+                "account": "escrowAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "arbiter",
+          "signer": true
+        },
+        {
+          "name": "client",
+          "docs": [
+            "CHECK: Client account to receive its share, validated by escrow.client"
+          ],
+          "writable": true
+        },
+        {
+          "name": "freelancer",
+          "docs": [
+            "CHECK: Freelancer account to receive its share, validated by escrow.freelancer"
+          ],
+          "writable": true
+        },
+        {
+          "name": "config",
+          "relations": [
+            "escrow"
+          ]
+        },
+        {
+          "name": "treasury",
+          "docs": [
+            "CHECK: Fee recipient, validated by config.treasury"
+          ],
+          "writable": true,
+          "relations": [
+            "config"
+          ]
+        }
+      ],
+      "args": [
+        {
+          "name": "freelancerBps",
+          "type": "u16"
+        }
+      ]
+    },
+    {
+      "name": "setPaused",
+      "discriminator": [
+        91,
+        60,
+        125,
+        192,
+        176,
+        225,
+        166,
+        218
+      ],
+      "accounts": [
+        {
+          "name": "config",
+          "writable": true
+        },
+        {
+          "name": "authority",
+          "signer": true,
+          "relations": [
+            "config"
+          ]
+        }
+      ],
+      "args": [
+        {
+          "name": "paused",
+          "type": "bool"
+        }
+      ]
+    },
+    {
+      "name": "submitMilestone",
+      "discriminator": [
+        35,
+        96,
+        220,
+        215,
+        102,
+        83,
+        139,
+        52
+      ],
+      "accounts": [
+        {
+          "name": "escrow",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  101,
+                  115,
+                  99,
+                  114,
+                  111,
+                  119
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "escrow.client",
+                "account": "escrowAccount"
+              },
+              {
+                "kind": "account",
+                "path": "freelancer"
+              },
+              {
+                "kind": "account",
+                "path": "escrow.escrowId",
+                "account": "escrowAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "freelancer",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "config",
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  99,
+                  111,
+                  110,
+                  102,
+                  105,
+                  103
+                ]
+              }
+            ]
+          },
+          "relations": [
+            "escrow"
+          ]
+        }
+      ],
+      "args": [
+        {
+          "name": "index",
+          "type": "u8"
+        },
+        {
+          "name": "metadataRef",
+          "type": "string"
+        }
+      ]
+    },
+    {
+      "name": "submitWork",
+      "discriminator": [
+        158,
+        80,
+        101,
+        51,
+        114,
+        130,
+        101,
+        253
+      ],
+      "accounts": [
+        {
+          "name": "escrow",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  101,
+                  115,
+                  99,
+                  114,
+                  111,
+                  119
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "escrow.client",
+                "account": "escrowAccount"
+              },
+              {
+                "kind": "account",
+                "path": "freelancer"
+              },
+              {
+                "kind": "account",
+                "path": "escrow.escrowId",
+                "account": "escrowAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "freelancer",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "config",
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  99,
+                  111,
+                  110,
+                  102,
+                  105,
+                  103
+                ]
+              }
+            ]
+          },
+          "relations": [
+            "escrow"
+          ]
+        }
+      ],
+      "args": [
+        {
+          "name": "metadataRef",
+          "type": "string"
+        }
+      ]
+    },
+    {
+      "name": "triggerAutoRelease",
+      "discriminator": [
+        66,
+        218,
+        248,
+        220,
+        189,
+        200,
+        158,
+        157
+      ],
+      "accounts": [
+        {
+          "name": "escrow",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  101,
+                  115,
+                  99,
+                  114,
+                  111,
+                  119
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "escrow.client",
+                "account": "escrowAccount"
+              },
+              {
+                "kind": "account",
+                "path": "escrow.freelancer",
+                "account": "escrowAccount"
+              },
+              {
+                "kind": "account",
+                "path": "escrow.escrowId",
+                "account": "escrowAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "freelancer",
+          "docs": [
+            "CHECK: Freelancer account to receive funds, validated by escrow.freelancer"
+          ],
+          "writable": true
+        },
+        {
+          "name": "config",
+          "relations": [
+            "escrow"
+          ]
+        },
+        {
+          "name": "treasury",
+          "docs": [
+            "CHECK: Fee recipient, validated by config.treasury"
+          ],
+          "writable": true,
+          "relations": [
+            "config"
+          ]
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "triggerMilestoneAutoRelease",
+      "discriminator": [
+        116,
+        131,
+        228,
+        110,
+        205,
+        141,
+        129,
+        72
+      ],
+      "accounts": [
+        {
+          "name": "escrow",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  101,
+                  115,
+                  99,
+                  114,
+                  111,
+                  119
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "escrow.client",
+                "account": "escrowAccount"
+              },
+              {
+                "kind": "account",
+                "path": "escrow.freelancer",
+                "account": "escrowAccount"
+              },
+              {
+                "kind": "account",
+                "path": "escrow.escrowId",
+                "account": "escrowAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "freelancer",
+          "docs": [
+            "CHECK: Freelancer account to receive funds, validated by escrow.freelancer"
+          ],
+          "writable": true
+        },
+        {
+          "name": "config",
+          "relations": [
+            "escrow"
+          ]
+        },
+        {
+          "name": "treasury",
+          "docs": [
+            "CHECK: Fee recipient, validated by config.treasury"
+          ],
+          "writable": true,
+          "relations": [
+            "config"
+          ]
+        }
+      ],
+      "args": [
+        {
+          "name": "index",
+          "type": "u8"
+        }
+      ]
+    },
+    {
+      "name": "triggerTokenAutoRelease",
+      "discriminator": [
+        86,
+        40,
+        25,
+        207,
+        196,
+        249,
+        26,
+        175
+      ],
+      "accounts": [
+        {
+          "name": "escrow",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  101,
+                  115,
+                  99,
+                  114,
+                  111,
+                  119
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "escrow.client",
+                "account": "escrowAccount"
+              },
+              {
+                "kind": "account",
+                "path": "escrow.freelancer",
+                "account": "escrowAccount"
+              },
+              {
+                "kind": "account",
+                "path": "escrow.escrowId",
+                "account": "escrowAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "vault",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  118,
+                  97,
+                  117,
+                  108,
+                  116
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "escrow"
+              }
+            ]
+          }
+        },
+        {
+          "name": "freelancerToken",
+          "writable": true
+        },
+        {
+          "name": "config",
+          "relations": [
+            "escrow"
+          ]
+        },
+        {
+          "name": "treasuryToken",
+          "writable": true
+        },
+        {
+          "name": "tokenProgram",
+          "address": "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA"
+        }
+      ],
+      "args": []
+    }
+  ],
+  "accounts": [
+    {
+      "name": "config",
+      "discriminator": [
+        155,
+        12,
+        170,
+        224,
+        30,
+        250,
+        204,
+        130
+      ]
+    },
+    {
+      "name": "escrowAccount",
+      "discriminator": [
+        36,
+        69,
+        48,
+        18,
+        128,
+        225,
+        125,
+        135
+      ]
+    }
+  ],
+  "events": [
+    {
+      "name": "fundsMoved",
+      "discriminator": [
+        45,
+        213,
+        142,
+        27,
+        233,
+        76,
+        210,
+        8
+      ]
+    }
+  ],
+  "errors": [
+    {
+      "code": 6000,
+      "name": "invalidDeadline",
+      "msg": "Deadline must be in the future"
+    },
+    {
+      "code": 6001,
+      "name": "invalidAmount",
+      "msg": "Amount must be greater than zero"
+    },
+    {
+      "code": 6002,
+      "name": "unauthorizedFreelancer",
+      "msg": "Only freelancer can submit work"
+    },
+    {
+      "code": 6003,
+      "name": "unauthorizedClient",
+      "msg": "Only client can approve release"
+    },
+    {
+      "code": 6004,
+      "name": "workNotSubmitted",
+      "msg": "Freelancer must submit work first"
+    },
+    {
+      "code": 6005,
+      "name": "alreadySubmitted",
+      "msg": "Work already submitted"
+    },
+    {
+      "code": 6006,
+      "name": "alreadyReleased",
+      "msg": "Funds already released"
+    },
+    {
+      "code": 6007,
+      "name": "deadlineNotPassed",
+      "msg": "Cannot auto-release before deadline"
+    },
+    {
+      "code": 6008,
+      "name": "metadataTooLong",
+      "msg": "Metadata reference exceeds max length"
+    },
+    {
+      "code": 6009,
+      "name": "escrowIdTooLong",
+      "msg": "Escrow ID exceeds max length"
+    },
+    {
+      "code": 6010,
+      "name": "alreadyRefunded",
+      "msg": "Funds already refunded to client"
+    },
+    {
+      "code": 6011,
+      "name": "refundBeforeDeadline",
+      "msg": "Cannot refund before deadline"
+    },
+    {
+      "code": 6012,
+      "name": "invalidMilestoneCount",
+      "msg": "Milestone count must be between 1 and 10"
+    },
+    {
+      "code": 6013,
+      "name": "invalidMilestone",
+      "msg": "Milestone index out of range"
+    },
+    {
+      "code": 6014,
+      "name": "milestoneOutOfOrder",
+      "msg": "Earlier milestones must be submitted first"
+    },
+    {
+      "code": 6015,
+      "name": "usesMilestones",
+      "msg": "Escrow has milestones, use the milestone instructions"
+    },
+    {
+      "code": 6016,
+      "name": "invalidArbiter",
+      "msg": "Arbiter must differ from client and freelancer"
+    },
+    {
+      "code": 6017,
+      "name": "noArbiter",
+      "msg": "Escrow has no arbiter"
+    },
+    {
+      "code": 6018,
+      "name": "unauthorizedParty",
+      "msg": "Only client or freelancer can raise a dispute"
+    },
+    {
+      "code": 6019,
+      "name": "unauthorizedArbiter",
+      "msg": "Only the arbiter can resolve the dispute"
+    },
+    {
+      "code": 6020,
+      "name": "alreadyDisputed",
+      "msg": "Escrow is already disputed"
+    },
+    {
+      "code": 6021,
+      "name": "notDisputed",
+      "msg": "Escrow is not disputed"
+    },
+    {
+      "code": 6022,
+      "name": "escrowDisputed",
+      "msg": "Escrow is under dispute"
+    },
+    {
+      "code": 6023,
+      "name": "disputeAfterDeadline",
+      "msg": "Cannot raise a dispute after the deadline or the review period"
+    },
+    {
+      "code": 6024,
+      "name": "invalidSplit",
+      "msg": "Freelancer share must be at most 10000 basis points"
+    },
+    {
+      "code": 6025,
+      "name": "invalidFee",
+      "msg": "Fee must be at most 10000 basis points"
+    },
+    {
+      "code": 6026,
+      "name": "invalidConfig",
+      "msg": "Config does not match the escrow"
+    },
+    {
+      "code": 6027,
+      "name": "invalidTreasury",
+      "msg": "Treasury does not match the config"
+    },
+    {
+      "code": 6028,
+      "name": "programPaused",
+      "msg": "Program is paused"
+    },
+    {
+      "code": 6029,
+      "name": "unauthorizedAuthority",
+      "msg": "Only the config authority can do this"
+    },
+    {
+      "code": 6030,
+      "name": "usesToken",
+      "msg": "Escrow holds SPL tokens, use the token instructions"
+    },
+    {
+      "code": 6031,
+      "name": "invalidMint",
+      "msg": "Token account mint does not match the escrow"
+    },
+    {
+      "code": 6032,
+      "name": "notSettled",
+      "msg": "Escrow must be released or refunded before it is closed"
+    },
+    {
+      "code": 6033,
+      "name": "noDeadlineProposal",
+      "msg": "No deadline extension has been proposed"
+    },
+    {
+      "code": 6034,
+      "name": "ownDeadlineProposal",
+      "msg": "The other party must accept a deadline extension"
+    },
+    {
+      "code": 6035,
+      "name": "revisionAfterDeadline",
+      "msg": "Revisions can only be requested before the deadline or the end of the review period"
+    },
+    {
+      "code": 6036,
+      "name": "tooManyRevisions",
+      "msg": "Maximum revision rounds reached"
+    },
+    {
+      "code": 6037,
+      "name": "notAccepted",
+      "msg": "Freelancer has not accepted the escrow"
+    },
+    {
+      "code": 6038,
+      "name": "alreadyAccepted",
+      "msg": "Freelancer has already accepted the escrow"
+    },
+    {
+      "code": 6039,
+      "name": "invitationExpired",
+      "msg": "Cannot accept an escrow after its deadline"
+    },
+    {
+      "code": 6040,
+      "name": "invalidReviewPeriod",
+      "msg": "Review period must be between 0 and 30 days"
+    },
+    {
+      "code": 6041,
+      "name": "submissionAfterDeadline",
+      "msg": "Work must be submitted before the deadline"
+    },
+    {
+      "code": 6042,
+      "name": "reviewPeriodActive",
+      "msg": "The client's review period has not ended"
+    },
+    {
+      "code": 6043,
+      "name": "noSettlementProposal",
+      "msg": "No settlement has been proposed"
+    },
+    {
+      "code": 6044,
+      "name": "ownSettlementProposal",
+      "msg": "The other party must accept the proposed settlement"
+    },
+    {
+      "code": 6045,
+      "name": "settlementMismatch",
+      "msg": "The proposed settlement has changed"
+    },
+    {
+      "code": 6046,
+      "name": "partialReleaseTooLarge",
+      "msg": "A partial release must leave funds in the escrow"
+    },
+    {
+      "code": 6047,
+      "name": "invalidRecipient",
+      "msg": "Leftover vault tokens must go to the party the escrow paid"
+    }
+  ],
+  "types": [
+    {
+      "name": "config",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "bump",
+            "type": "u8"
+          },
+          {
+            "name": "authority",
+            "type": "pubkey"
+          },
+          {
+            "name": "isActive",
+            "type": "bool"
+          },
+          {
+            "name": "isPaused",
+            "type": "bool"
+          },
+          {
+            "name": "feeBps",
+            "type": "u16"
+          },
+          {
+            "name": "treasury",
+            "type": "pubkey"
+          },
+          {
+            "name": "version",
+            "type": "u8"
+          }
+        ]
+      }
+    },
+    {
+      "name": "deadlineProposal",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "proposer",
+            "type": "pubkey"
+          },
+          {
+            "name": "deadline",
+            "type": "i64"
+          }
+        ]
+      }
+    },
+    {
+      "name": "escrowAccount",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "client",
+            "type": "pubkey"
+          },
+          {
+            "name": "freelancer",
+            "type": "pubkey"
+          },
+          {
+            "name": "arbiter",
+            "type": {
+              "option": "pubkey"
+            }
+          },
+          {
+            "name": "config",
+            "type": "pubkey"
+          },
+          {
+            "name": "mint",
+            "type": {
+              "option": "pubkey"
+            }
+          },
+          {
+            "name": "amount",
+            "type": "u64"
+          },
+          {
+            "name": "deadline",
+            "type": "i64"
+          },
+          {
+            "name": "reviewPeriod",
+            "type": "i64"
+          },
+          {
+            "name": "createdAt",
+            "type": "i64"
+          },
+          {
+            "name": "submittedAt",
+            "type": {
+              "option": "i64"
+            }
+          },
+          {
+            "name": "releasedAt",
+            "type": {
+              "option": "i64"
+            }
+          },
+          {
+            "name": "deadlineProposal",
+            "type": {
+              "option": {
+                "defined": {
+                  "name": "deadlineProposal"
+                }
+              }
+            }
+          },
+          {
+            "name": "settlementProposal",
+            "type": {
+              "option": {
+                "defined": {
+                  "name": "settlementProposal"
+                }
+              }
+            }
+          },
+          {
+            "name": "isAccepted",
+            "type": "bool"
+          },
+          {
+            "name": "isSubmitted",
+            "type": "bool"
+          },
+          {
+            "name": "isReleased",
+            "type": "bool"
+          },
+          {
+            "name": "isRefunded",
+            "type": "bool"
+          },
+          {
+            "name": "isDisputed",
+            "type": "bool"
+          },
+          {
+            "name": "metadataRef",
+            "type": "string"
+          },
+          {
+            "name": "escrowId",
+            "type": "string"
+          },
+          {
+            "name": "bump",
+            "type": "u8"
+          },
+          {
+            "name": "milestones",
+            "type": {
+              "vec": {
+                "defined": {
+                  "name": "milestone"
+                }
+              }
+            }
+          },
+          {
+            "name": "revisions",
+            "type": {
+              "vec": {
+                "defined": {
+                  "name": "revision"
+                }
+              }
+            }
+          }
+        ]
+      }
+    },
+    {
+      "name": "fundMovementKind",
+      "type": {
+        "kind": "enum",
+        "variants": [
+          {
+            "name": "deposit"
+          },
+          {
+            "name": "release"
+          },
+          {
+            "name": "refund"
+          }
+        ]
+      }
+    },
+    {
+      "name": "fundsMoved",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "escrow",
+            "type": "pubkey"
+          },
+          {
+            "name": "kind",
+            "type": {
+              "defined": {
+                "name": "fundMovementKind"
+              }
+            }
+          },
+          {
+            "name": "amount",
+            "type": "u64"
+          },
+          {
+            "name": "balance",
+            "type": "u64"
+          },
+          {
+            "name": "timestamp",
+            "type": "i64"
+          }
+        ]
+      }
+    },
+    {
+      "name": "milestone",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "amount",
+            "type": "u64"
+          },
+          {
+            "name": "deadline",
+            "type": "i64"
+          },
+          {
+            "name": "metadataRef",
+            "type": "string"
+          },
+          {
+            "name": "submittedAt",
+            "type": {
+              "option": "i64"
+            }
+          },
+          {
+            "name": "isSubmitted",
+            "type": "bool"
+          },
+          {
+            "name": "isReleased",
+            "type": "bool"
+          }
+        ]
+      }
+    },
+    {
+      "name": "milestoneInput",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "amount",
+            "type": "u64"
+          },
+          {
+            "name": "deadline",
+            "type": "i64"
+          }
+        ]
+      }
+    },
+    {
+      "name": "revision",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "submissionRef",
+            "type": "string"
+          },
+          {
+            "name": "reasonRef",
+            "type": "string"
+          }
+        ]
+      }
+    },
+    {
+      "name": "settlementProposal",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "proposer",
+            "type": "pubkey"
+          },
+          {
+            "name": "freelancerBps",
+            "type": "u16"
+          }
+        ]
+      }
+    }
+  ]
+};
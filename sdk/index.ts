@@ -0,0 +1,13 @@
+/**
+ * Trustless Escrow SDK
+ *
+ * Framework-free client for the escrow program. Works in the browser behind a
+ * wallet adapter and in Node with a Keypair signer.
+ */
+
+export * from "./escrowSDK";
+export * from "./escrowErrors";
+export * from "./sendTransaction";
+export * from "./signer";
+export * from "./clusters";
+export { default } from "./escrowSDK";
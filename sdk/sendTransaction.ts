@@ -0,0 +1,181 @@
+/**
+ * Transaction send pipeline
+ *
+ * Sends a signed transaction against its own blockhash window, rebroadcasts
+ * until it lands or the blockhash expires, and reports each commitment level
+ * the transaction reaches along the way.
+ */
+
+import { utils } from "@coral-xyz/anchor";
+import {
+  Connection,
+  TransactionConfirmationStatus,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { EscrowErrorCode, classifySimulationError } from "./escrowErrors";
+
+export type TransactionStatus = 'sent' | TransactionConfirmationStatus;
+
+export type TransactionStatusCallback = (status: TransactionStatus, signature: string) => void;
+
+// Landed and succeeded
+export interface SendConfirmed {
+  status: 'confirmed';
+  signature: string;
+  slot: number;
+}
+
+// Landed on-chain but the program rejected it; retrying will fail again
+export interface SendFailed {
+  status: 'failed';
+  signature: string;
+  error: string;
+  code: EscrowErrorCode;
+}
+
+// Never landed before the blockhash expired; safe to rebuild and retry
+export interface SendExpired {
+  status: 'expired';
+  signature: string;
+}
+
+export type SendOutcome = SendConfirmed | SendFailed | SendExpired;
+
+export interface SendOptions {
+  lastValidBlockHeight: number;
+  commitment?: 'confirmed' | 'finalized';
+  onStatus?: TransactionStatusCallback;
+  rebroadcastIntervalMs?: number;
+}
+
+const COMMITMENT_ORDER: TransactionStatus[] = ['sent', 'processed', 'confirmed', 'finalized'];
+
+// How long to keep reporting progress towards finalization after returning
+const FINALIZATION_TIMEOUT_MS = 60_000;
+
+// A blockhash lives for about 150 blocks; past this long without a successful poll the
+// window is over whatever the block height, so the last RPC error is surfaced instead
+const BLOCKHASH_LIFETIME_MS = 90_000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Emits each status once, in order, including levels skipped between polls
+ */
+function createStatusReporter(signature: string, onStatus?: TransactionStatusCallback) {
+  let reached = -1;
+  return (status: TransactionStatus) => {
+    const target = COMMITMENT_ORDER.indexOf(status);
+    while (reached < target) {
+      reached += 1;
+      onStatus?.(COMMITMENT_ORDER[reached], signature);
+    }
+  };
+}
+
+/**
+ * Keep polling in the background so callers still hear about finalization
+ */
+async function trackFinalization(
+  connection: Connection,
+  signature: string,
+  report: (status: TransactionStatus) => void,
+  intervalMs: number
+): Promise<void> {
+  const stopAt = Date.now() + FINALIZATION_TIMEOUT_MS;
+  while (Date.now() < stopAt) {
+    await sleep(intervalMs);
+    try {
+      const { value } = await connection.getSignatureStatuses([signature]);
+      if (value[0]?.confirmationStatus === 'finalized') {
+        report('finalized');
+        return;
+      }
+    } catch {
+      // Progress reporting only; the outcome is already settled
+    }
+  }
+}
+
+/**
+ * Send a signed transaction and wait until it reaches the target commitment,
+ * fails on-chain, or its blockhash expires
+ */
+export async function sendAndConfirmTransaction(
+  connection: Connection,
+  transaction: VersionedTransaction,
+  options: SendOptions
+): Promise<SendOutcome> {
+  const {
+    lastValidBlockHeight,
+    commitment = 'confirmed',
+    onStatus,
+    rebroadcastIntervalMs = 2000,
+  } = options;
+
+  const raw = transaction.serialize();
+  const signature = utils.bytes.bs58.encode(transaction.signatures[0]);
+  const report = createStatusReporter(signature, onStatus);
+
+  // Preflight already ran as a simulation, and we rebroadcast ourselves
+  const send = () => connection.sendRawTransaction(raw, { skipPreflight: true, maxRetries: 0 });
+
+  await send();
+  report('sent');
+
+  let lastPollAt = Date.now();
+  for (;;) {
+    await sleep(rebroadcastIntervalMs);
+
+    // RPC errors are usually transient; keep polling until the outcome is known
+    try {
+      const { value } = await connection.getSignatureStatuses([signature]);
+      const status = value[0];
+      lastPollAt = Date.now();
+
+      if (status?.err) {
+        const code = classifySimulationError(status.err);
+        return { status: 'failed', signature, error: `Transaction failed: ${code}`, code };
+      }
+
+      if (status?.confirmationStatus) {
+        report(status.confirmationStatus);
+        const reachedTarget =
+          COMMITMENT_ORDER.indexOf(status.confirmationStatus) >= COMMITMENT_ORDER.indexOf(commitment);
+        if (reachedTarget) {
+          if (onStatus && status.confirmationStatus !== 'finalized') {
+            void trackFinalization(connection, signature, report, rebroadcastIntervalMs);
+          }
+          return { status: 'confirmed', signature, slot: status.slot };
+        }
+        // Already processed; rebroadcasting would only add load
+        continue;
+      }
+
+      const blockHeight = await connection.getBlockHeight('confirmed');
+      if (blockHeight > lastValidBlockHeight) {
+        // One last look in case it landed right at the end of the window
+        const { value: [finalStatus] } = await connection.getSignatureStatuses([signature], {
+          searchTransactionHistory: true,
+        });
+        if (!finalStatus) {
+          return { status: 'expired', signature };
+        }
+        if (finalStatus.err) {
+          const code = classifySimulationError(finalStatus.err);
+          return { status: 'failed', signature, error: `Transaction failed: ${code}`, code };
+        }
+        // Landed; keep polling until it reaches the target commitment
+        continue;
+      }
+
+      try {
+        await send();
+      } catch {
+        // Rebroadcast failures are transient; the status poll decides the outcome
+      }
+    } catch (error) {
+      if (Date.now() - lastPollAt > BLOCKHASH_LIFETIME_MS) throw error;
+    }
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Transaction signers
+ *
+ * The SDK signs through this interface so it can run behind a browser wallet
+ * adapter, a local Keypair, or any custom signer such as a KMS or HSM.
+ */
+
+import {
+  Keypair,
+  PublicKey,
+  Transaction,
+  VersionedTransaction,
+} from "@solana/web3.js";
+
+export interface EscrowSigner {
+  publicKey: PublicKey;
+  signTransaction<T extends Transaction | VersionedTransaction>(transaction: T): Promise<T>;
+  signAllTransactions<T extends Transaction | VersionedTransaction>(transactions: T[]): Promise<T[]>;
+}
+
+/**
+ * Sign with a local Keypair, e.g. in backend jobs and scripts
+ */
+export function keypairSigner(keypair: Keypair): EscrowSigner {
+  const sign = <T extends Transaction | VersionedTransaction>(transaction: T): T => {
+    if (transaction instanceof VersionedTransaction) {
+      transaction.sign([keypair]);
+    } else {
+      transaction.partialSign(keypair);
+    }
+    return transaction;
+  };
+
+  return {
+    publicKey: keypair.publicKey,
+    signTransaction: async (transaction) => sign(transaction),
+    signAllTransactions: async (transactions) => transactions.map(sign),
+  };
+}
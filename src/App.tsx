@@ -2,18 +2,18 @@ import React, { useMemo } from 'react';
 import { Routes, Route } from 'react-router-dom';
 import { Toaster } from '@/components/ui/toaster';
 import { ConnectionProvider, WalletProvider } from '@solana/wallet-adapter-react';
-import { WalletAdapterNetwork } from '@solana/wallet-adapter-base';
 import { PhantomWalletAdapter } from '@solana/wallet-adapter-wallets';
 import { WalletModalProvider } from '@solana/wallet-adapter-react-ui';
-import { clusterApiUrl } from '@solana/web3.js';
+import ClusterProvider from '@/components/ClusterProvider';
+import { useCluster } from '@/hooks/useCluster';
 import NotFound from './pages/NotFound';
 import Index from './pages/Index';
 
 import '@solana/wallet-adapter-react-ui/styles.css';
 
-const App = () => {
-    const network = WalletAdapterNetwork.Devnet;
-    const endpoint = useMemo(() => clusterApiUrl(network), [network]);
+const SolanaProviders = ({ children }: { children: React.ReactNode }) => {
+    const { cluster } = useCluster();
+    const endpoint = cluster.rpcUrl;
 
     const wallets = useMemo(() => [new PhantomWalletAdapter()], []);
 
@@ -21,15 +21,25 @@ const App = () => {
         <ConnectionProvider endpoint={endpoint}>
             <WalletProvider wallets={wallets} autoConnect>
                 <WalletModalProvider>
-                    <Routes>
-                        <Route path="/" element={<Index />} />
-                        <Route path="*" element={<NotFound />} />
-                    </Routes>
-                    <Toaster />
+                    {children}
                 </WalletModalProvider>
             </WalletProvider>
         </ConnectionProvider>
     );
 };
 
-export default App;
\ No newline at end of file
+const App = () => {
+    return (
+        <ClusterProvider>
+            <SolanaProviders>
+                <Routes>
+                    <Route path="/" element={<Index />} />
+                    <Route path="*" element={<NotFound />} />
+                </Routes>
+                <Toaster />
+            </SolanaProviders>
+        </ClusterProvider>
+    );
+};
+
+export default App;
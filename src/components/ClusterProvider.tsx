@@ -0,0 +1,22 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { ClusterName } from '@sdk';
+import { ClusterContext } from '@/hooks/useCluster';
+import { getCluster, loadClusterSelection, saveClusterSelection } from '@/lib/clusters';
+
+const ClusterProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [selection, setSelection] = useState(loadClusterSelection);
+
+  const setCluster = useCallback((name: ClusterName, customRpcUrl?: string) => {
+    saveClusterSelection(name, customRpcUrl);
+    setSelection((prev) => ({ name, customRpcUrl: customRpcUrl ?? prev.customRpcUrl }));
+  }, []);
+
+  const value = useMemo(
+    () => ({ cluster: getCluster(selection.name, selection.customRpcUrl), setCluster }),
+    [selection, setCluster]
+  );
+
+  return <ClusterContext.Provider value={value}>{children}</ClusterContext.Provider>;
+};
+
+export default ClusterProvider;
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { Shield, Loader2 } from 'lucide-react';
+import { Shield, Loader2, AlertCircle, Plus, X } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -10,25 +10,193 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 import { useToast } from '@/hooks/use-toast';
+import {
+  EscrowError,
+  EscrowErrorCode,
+  DEFAULT_REVIEW_PERIOD,
+  MAX_BPS,
+  MAX_MILESTONES,
+  MAX_REVIEW_PERIOD,
+  PriorityFeeLevel,
+  SimulationPreview,
+  calculatePlatformFee,
+} from '@sdk';
+import { CreateEscrowParams, TokenInfo } from '@/lib/types';
+import PriorityFeeSelector from '@/components/PriorityFeeSelector';
+import { formatAddress, formatSol, lamportsToSol, solToLamports } from '@/lib/utils';
 
 interface CreateEscrowModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onCreateEscrow: (freelancer: string, amount: number, deadline: Date) => Promise<void>;
+  priorityFeeLevel: PriorityFeeLevel;
+  feeBps: number | null;
+  isPaused: boolean;
+  tokens: TokenInfo[];
+  onPriorityFeeLevelChange: (level: PriorityFeeLevel) => void;
+  onPreviewEscrow: (params: CreateEscrowParams) => Promise<SimulationPreview>;
+  onCreateEscrow: (params: CreateEscrowParams) => Promise<void>;
+}
+
+interface MilestoneRow {
+  amount: string;
+  deadline: string;
 }
 
-const CreateEscrowModal: React.FC<CreateEscrowModalProps> = ({ isOpen, onClose, onCreateEscrow }) => {
+const emptyMilestone = (): MilestoneRow => ({ amount: '', deadline: '' });
+
+// Currency choices besides the cluster's listed tokens
+const SOL = 'SOL';
+const CUSTOM_MINT = 'custom';
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+const errorMessages: Partial<Record<EscrowErrorCode, string>> = {
+  WalletNotConnected: 'Connect your wallet to create an escrow.',
+  WalletRejected: 'You rejected the transaction in your wallet. No funds were moved.',
+  BlockhashExpired: 'The transaction expired before it was confirmed. Please try again.',
+  InsufficientFunds: 'Your wallet does not have enough SOL to cover the amount plus fees.',
+  NetworkUnavailable: 'Cannot reach the Solana network. Check your connection and try again.',
+  RpcError: 'The RPC node is not responding. Please try again in a moment.',
+  Timeout: 'The network took too long to respond. Please try again.',
+  InvalidDeadline: 'The deadline must be in the future. Pick a later date.',
+  InvalidAmount: 'The amount must be greater than 0.',
+  InvalidInput: 'Check the freelancer wallet address and try again.',
+  EscrowIdTooLong: 'The generated escrow ID is too long. Please try again.',
+  InvalidArbiter: 'The arbiter must be a different wallet from you and the freelancer.',
+  InvalidMilestoneCount: `An escrow can have between 1 and ${MAX_MILESTONES} milestones.`,
+  ProgramPaused: 'The escrow program is paused. New escrows cannot be created right now.',
+  InvalidMint: 'That address is not an SPL Token mint on this network.',
+  InvalidReviewPeriod: `The review period must be between 0 and ${MAX_REVIEW_PERIOD / SECONDS_PER_DAY} days.`,
+};
+
+const formatReviewPeriod = (seconds: number): string => {
+  const days = seconds / SECONDS_PER_DAY;
+  return `${Number.isInteger(days) ? days : days.toFixed(2)} ${days === 1 ? 'day' : 'days'}`;
+};
+
+const getErrorDescription = (error: unknown, fallback: string): string => {
+  const code = error instanceof EscrowError ? error.code : undefined;
+  return (code && errorMessages[code]) || (error as Error)?.message || fallback;
+};
+
+const CreateEscrowModal: React.FC<CreateEscrowModalProps> = ({
+  isOpen,
+  onClose,
+  priorityFeeLevel,
+  feeBps,
+  isPaused,
+  tokens,
+  onPriorityFeeLevelChange,
+  onPreviewEscrow,
+  onCreateEscrow,
+}) => {
   const [freelancerAddress, setFreelancerAddress] = useState('');
+  const [arbiterAddress, setArbiterAddress] = useState('');
+  const [currency, setCurrency] = useState(SOL);
+  const [customMint, setCustomMint] = useState('');
   const [amount, setAmount] = useState('');
   const [deadline, setDeadline] = useState('');
+  const [reviewDays, setReviewDays] = useState(String(DEFAULT_REVIEW_PERIOD / SECONDS_PER_DAY));
+  const [useMilestones, setUseMilestones] = useState(false);
+  const [milestones, setMilestones] = useState<MilestoneRow[]>([emptyMilestone(), emptyMilestone()]);
+  const [params, setParams] = useState<CreateEscrowParams | null>(null);
+  const [preview, setPreview] = useState<SimulationPreview | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  // Token escrows are single-payment with no arbiter
+  const token = tokens.find((t) => t.mint === currency);
+  const mint = currency === SOL ? undefined : currency === CUSTOM_MINT ? customMint.trim() : currency;
+  const symbol = token?.symbol ?? (currency === CUSTOM_MINT ? 'tokens' : SOL);
+
+  const updateMilestone = (index: number, field: keyof MilestoneRow, value: string) => {
+    setMilestones((rows) => rows.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  // Validate the milestone rows; each deadline must come after the previous one
+  const parseMilestones = (): CreateEscrowParams['milestones'] | null => {
+    if (milestones.some((row) => !row.amount || !row.deadline)) {
+      toast({
+        title: 'Missing Fields',
+        description: 'Every milestone needs an amount and a deadline.',
+        variant: 'destructive',
+      });
+      return null;
+    }
+
+    const parsed = milestones.map((row) => ({ amount: parseFloat(row.amount), deadline: new Date(row.deadline) }));
+    if (parsed.some((milestone) => isNaN(milestone.amount) || milestone.amount <= 0)) {
+      toast({
+        title: 'Invalid Amount',
+        description: 'Every milestone amount must be greater than 0.',
+        variant: 'destructive',
+      });
+      return null;
+    }
+
+    const outOfOrder = parsed.some(
+      (milestone, i) => milestone.deadline <= (i === 0 ? new Date() : parsed[i - 1].deadline)
+    );
+    if (outOfOrder) {
+      toast({
+        title: 'Invalid Deadline',
+        description: 'Milestone deadlines must be in the future and each later than the one before.',
+        variant: 'destructive',
+      });
+      return null;
+    }
+
+    return parsed;
+  };
+
+  // Review period in whole seconds; fractional days allow e.g. a 12 hour window
+  const parseReviewPeriod = (): number | null => {
+    const days = parseFloat(reviewDays);
+    const seconds = Math.round(days * SECONDS_PER_DAY);
+    if (isNaN(days) || seconds < 0 || seconds > MAX_REVIEW_PERIOD) {
+      toast({
+        title: 'Invalid Review Period',
+        description: errorMessages.InvalidReviewPeriod,
+        variant: 'destructive',
+      });
+      return null;
+    }
+    return seconds;
+  };
+
+  const handleReview = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!freelancerAddress || !amount || !deadline) {
+    const reviewPeriod = parseReviewPeriod();
+    if (reviewPeriod === null) return;
+
+    if (useMilestones && !mint) {
+      if (!freelancerAddress) {
+        toast({
+          title: 'Missing Fields',
+          description: 'Please fill in all required fields.',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      const parsed = parseMilestones();
+      if (!parsed) return;
+
+      await runPreview({
+        freelancer: freelancerAddress,
+        amount: parsed.reduce((sum, milestone) => sum + milestone.amount, 0),
+        deadline: parsed[parsed.length - 1].deadline,
+        milestones: parsed,
+        reviewPeriod,
+        arbiter: arbiterAddress.trim() || undefined,
+      });
+      return;
+    }
+
+    if (!freelancerAddress || !amount || !deadline || (currency === CUSTOM_MINT && !mint)) {
       toast({
         title: 'Missing Fields',
         description: 'Please fill in all required fields.',
@@ -47,6 +215,15 @@ const CreateEscrowModal: React.FC<CreateEscrowModalProps> = ({ isOpen, onClose,
       return;
     }
 
+    if (token && (amount.split('.')[1]?.length ?? 0) > token.decimals) {
+      toast({
+        title: 'Invalid Amount',
+        description: `${token.symbol} supports at most ${token.decimals} decimal places.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
     const deadlineDate = new Date(deadline);
     if (deadlineDate <= new Date()) {
       toast({
@@ -57,18 +234,51 @@ const CreateEscrowModal: React.FC<CreateEscrowModalProps> = ({ isOpen, onClose,
       return;
     }
 
+    await runPreview({
+      freelancer: freelancerAddress,
+      amount: amountNum,
+      deadline: deadlineDate,
+      reviewPeriod,
+      ...(mint ? { mint } : { arbiter: arbiterAddress.trim() || undefined }),
+    });
+  };
+
+  const runPreview = async (reviewed: CreateEscrowParams) => {
     setIsLoading(true);
     try {
-      await onCreateEscrow(freelancerAddress, amountNum, deadlineDate);
+      setParams(reviewed);
+      setPreview(await onPreviewEscrow(reviewed));
+    } catch (error) {
+      toast({
+        title: 'Review Failed',
+        description: getErrorDescription(error, 'Failed to simulate the escrow. Please try again.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Re-simulate so the fee breakdown reflects the new priority fee
+  const handleFeeLevelChange = async (level: PriorityFeeLevel) => {
+    onPriorityFeeLevelChange(level);
+    if (params) await runPreview(params);
+  };
+
+  const handleConfirm = async () => {
+    if (!params) return;
+    setIsLoading(true);
+    try {
+      await onCreateEscrow(params);
       toast({
         title: 'Escrow Created',
         description: 'Your escrow has been created successfully.',
       });
       handleClose();
-    } catch (error: any) {
+    } catch (error) {
       toast({
         title: 'Creation Failed',
-        description: error.message || 'Failed to create escrow. Please try again.',
+        description: getErrorDescription(error, 'Failed to create escrow. Please try again.'),
         variant: 'destructive',
       });
     } finally {
@@ -78,14 +288,37 @@ const CreateEscrowModal: React.FC<CreateEscrowModalProps> = ({ isOpen, onClose,
 
   const handleClose = () => {
     setFreelancerAddress('');
+    setArbiterAddress('');
+    setCurrency(SOL);
+    setCustomMint('');
     setAmount('');
     setDeadline('');
+    setReviewDays(String(DEFAULT_REVIEW_PERIOD / SECONDS_PER_DAY));
+    setUseMilestones(false);
+    setMilestones([emptyMilestone(), emptyMilestone()]);
+    setParams(null);
+    setPreview(null);
     onClose();
   };
 
   // Get minimum date (now + 1 hour)
   const minDate = new Date(Date.now() + 3600000).toISOString().slice(0, 16);
 
+  // Total debit is the locked amount plus the PDA rent deposit and network fee;
+  // token escrows lock tokens, so only rent and fees come out of the SOL balance
+  const amountLocked = params?.amount ?? 0;
+  const rent = preview ? lamportsToSol(preview.rentDeposit) : 0;
+  const networkFee = preview ? lamportsToSol(preview.networkFee) : 0;
+  const priorityFee = preview ? lamportsToSol(preview.priorityFee) : 0;
+  const totalDebit = (params?.mint ? 0 : amountLocked) + rent + networkFee + priorityFee;
+
+  // Platform fee is deducted from each release, so the freelancer nets the rest
+  const platformFee = !feeBps
+    ? 0
+    : params?.mint
+      ? (amountLocked * feeBps) / MAX_BPS
+      : lamportsToSol(calculatePlatformFee(solToLamports(amountLocked), feeBps));
+
   return (
     <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="bg-card border-border sm:max-w-md">
@@ -97,103 +330,389 @@ const CreateEscrowModal: React.FC<CreateEscrowModalProps> = ({ isOpen, onClose,
             <div>
               <DialogTitle className="text-foreground">Create New Escrow</DialogTitle>
               <DialogDescription className="text-muted-foreground">
-                Lock SOL in a trustless escrow contract
+                Lock SOL or SPL tokens in a trustless escrow contract
               </DialogDescription>
             </div>
           </div>
         </DialogHeader>
 
-        <form onSubmit={handleSubmit} className="space-y-5 mt-4">
-          {/* Freelancer Address */}
-          <div className="space-y-2">
-            <Label htmlFor="freelancer" className="text-foreground">
-              Freelancer Wallet Address
-            </Label>
-            <Input
-              id="freelancer"
-              placeholder="Enter Solana wallet address..."
-              value={freelancerAddress}
-              onChange={(e) => setFreelancerAddress(e.target.value)}
-              className="bg-secondary border-border text-foreground placeholder:text-muted-foreground font-mono text-sm"
-            />
-            <p className="text-xs text-muted-foreground">
-              The wallet that will receive funds upon work completion
-            </p>
-          </div>
+        {preview ? (
+          <div className="space-y-5 mt-4">
+            {/* Cost Breakdown */}
+            <div className="rounded-lg bg-secondary/50 divide-y divide-border">
+              {params?.arbiter && (
+                <div className="flex items-center justify-between p-3 text-sm">
+                  <span className="text-muted-foreground">Arbiter</span>
+                  <span className="font-mono text-foreground">{formatAddress(params.arbiter)}</span>
+                </div>
+              )}
+              {params?.milestones?.map((milestone, i) => (
+                <div key={i} className="flex items-center justify-between p-3 text-sm">
+                  <span className="text-muted-foreground">
+                    Milestone {i + 1} · due {milestone.deadline.toLocaleDateString()}
+                  </span>
+                  <span className="font-medium text-foreground">{formatSol(milestone.amount)} SOL</span>
+                </div>
+              ))}
+              {params?.reviewPeriod !== undefined && (
+                <div className="flex items-center justify-between p-3 text-sm">
+                  <span className="text-muted-foreground">Review period</span>
+                  <span className="font-medium text-foreground">
+                    {formatReviewPeriod(params.reviewPeriod)}
+                  </span>
+                </div>
+              )}
+              <div className="flex items-center justify-between p-3 text-sm">
+                <span className="text-muted-foreground">Amount locked</span>
+                <span className="font-medium text-foreground">
+                  {formatSol(amountLocked, token?.decimals ?? 4)} {symbol}
+                </span>
+              </div>
+              <div className="flex items-center justify-between p-3 text-sm">
+                <span className="text-muted-foreground">
+                  {params?.mint ? 'Escrow and vault account rent' : 'Escrow account rent'}
+                </span>
+                <span className="font-medium text-foreground">{formatSol(rent, 6)} SOL</span>
+              </div>
+              <div className="flex items-center justify-between p-3 text-sm">
+                <span className="text-muted-foreground">Network fee</span>
+                <span className="font-medium text-foreground">{formatSol(networkFee, 6)} SOL</span>
+              </div>
+              <div className="flex items-center justify-between p-3 text-sm">
+                <span className="text-muted-foreground">Priority fee</span>
+                <span className="font-medium text-foreground">{formatSol(priorityFee, 6)} SOL</span>
+              </div>
+              <div className="flex items-center justify-between p-3">
+                <span className="text-sm font-medium text-foreground">Total debit from wallet</span>
+                <span className="text-lg font-bold text-foreground">{formatSol(totalDebit, 6)} SOL</span>
+              </div>
+            </div>
 
-          {/* Amount */}
-          <div className="space-y-2">
-            <Label htmlFor="amount" className="text-foreground">
-              Amount (SOL)
-            </Label>
-            <Input
-              id="amount"
-              type="number"
-              step="0.001"
-              min="0.001"
-              placeholder="0.00"
-              value={amount}
-              onChange={(e) => setAmount(e.target.value)}
-              className="bg-secondary border-border text-foreground placeholder:text-muted-foreground"
-            />
-            <p className="text-xs text-muted-foreground">
-              Amount to lock in escrow (min 0.001 SOL)
-            </p>
-          </div>
+            {feeBps !== null && (
+              <div className="rounded-lg bg-secondary/50 divide-y divide-border">
+                <div className="flex items-center justify-between p-3 text-sm">
+                  <span className="text-muted-foreground">Platform fee on release ({feeBps / 100}%)</span>
+                  <span className="font-medium text-foreground">
+                    {formatSol(platformFee, 6)} {symbol}
+                  </span>
+                </div>
+                <div className="flex items-center justify-between p-3 text-sm">
+                  <span className="text-muted-foreground">Freelancer receives</span>
+                  <span className="font-medium text-foreground">
+                    {formatSol(amountLocked - platformFee, 6)} {symbol}
+                  </span>
+                </div>
+              </div>
+            )}
 
-          {/* Deadline */}
-          <div className="space-y-2">
-            <Label htmlFor="deadline" className="text-foreground">
-              Deadline
-            </Label>
-            <Input
-              id="deadline"
-              type="datetime-local"
-              min={minDate}
-              value={deadline}
-              onChange={(e) => setDeadline(e.target.value)}
-              className="bg-secondary border-border text-foreground"
+            <PriorityFeeSelector
+              value={priorityFeeLevel}
+              onChange={handleFeeLevelChange}
+              disabled={isLoading}
             />
-            <p className="text-xs text-muted-foreground">
-              Auto-release triggers after this date if work is submitted
-            </p>
-          </div>
 
-          {/* Info Box */}
-          <div className="p-3 rounded-lg bg-primary/10 border border-primary/20">
-            <p className="text-sm text-foreground">
-              <strong>How it works:</strong> Funds are locked in a program-controlled PDA. 
-              After freelancer submits work, you can approve release or funds auto-release after deadline.
-            </p>
+            {/* Simulation Result */}
+            {preview.willSucceed ? (
+              <p className="text-xs text-muted-foreground">
+                Simulation succeeded
+                {preview.unitsConsumed !== undefined && ` using ${preview.unitsConsumed.toLocaleString()} compute units`}.
+                The rent deposit stays with the escrow account.
+              </p>
+            ) : (
+              <div className="p-3 rounded-lg bg-destructive/10 border border-destructive/20 flex gap-2">
+                <AlertCircle className="h-4 w-4 text-destructive shrink-0 mt-0.5" />
+                <p className="text-sm text-foreground">
+                  {(preview.code && errorMessages[preview.code]) || preview.error || 'This transaction is expected to fail.'}
+                </p>
+              </div>
+            )}
+
+            {/* Actions */}
+            <div className="flex gap-3 pt-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setPreview(null)}
+                className="flex-1 border-border hover:bg-secondary"
+                disabled={isLoading}
+              >
+                Back
+              </Button>
+              <Button
+                type="button"
+                onClick={handleConfirm}
+                className="flex-1 bg-gradient-primary hover:opacity-90 text-white border-0"
+                disabled={isLoading || isPaused || !preview.willSucceed}
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    Creating...
+                  </>
+                ) : (
+                  'Confirm & Sign'
+                )}
+              </Button>
+            </div>
           </div>
+        ) : (
+          <form onSubmit={handleReview} className="space-y-5 mt-4">
+            {/* Freelancer Address */}
+            <div className="space-y-2">
+              <Label htmlFor="freelancer" className="text-foreground">
+                Freelancer Wallet Address
+              </Label>
+              <Input
+                id="freelancer"
+                placeholder="Enter Solana wallet address..."
+                value={freelancerAddress}
+                onChange={(e) => setFreelancerAddress(e.target.value)}
+                className="bg-secondary border-border text-foreground placeholder:text-muted-foreground font-mono text-sm"
+              />
+              <p className="text-xs text-muted-foreground">
+                The wallet that will receive funds upon work completion
+              </p>
+            </div>
 
-          {/* Actions */}
-          <div className="flex gap-3 pt-2">
-            <Button
-              type="button"
-              variant="outline"
-              onClick={handleClose}
-              className="flex-1 border-border hover:bg-secondary"
-              disabled={isLoading}
-            >
-              Cancel
-            </Button>
-            <Button
-              type="submit"
-              className="flex-1 bg-gradient-primary hover:opacity-90 text-white border-0"
-              disabled={isLoading}
-            >
-              {isLoading ? (
-                <>
-                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                  Creating...
-                </>
-              ) : (
-                'Create Escrow'
+            {/* Currency */}
+            <div className="space-y-2">
+              <Label className="text-foreground">Currency</Label>
+              <ToggleGroup
+                type="single"
+                size="sm"
+                value={currency}
+                onValueChange={(value) => value && setCurrency(value)}
+                className="justify-start bg-secondary rounded-md p-0.5 w-fit"
+              >
+                {[{ value: SOL, label: SOL }, ...tokens.map((t) => ({ value: t.mint, label: t.symbol }))].map(
+                  (option) => (
+                    <ToggleGroupItem
+                      key={option.value}
+                      value={option.value}
+                      className="text-xs px-2.5 data-[state=on]:bg-primary data-[state=on]:text-white"
+                    >
+                      {option.label}
+                    </ToggleGroupItem>
+                  )
+                )}
+                <ToggleGroupItem
+                  value={CUSTOM_MINT}
+                  className="text-xs px-2.5 data-[state=on]:bg-primary data-[state=on]:text-white"
+                >
+                  Other token
+                </ToggleGroupItem>
+              </ToggleGroup>
+              {currency === CUSTOM_MINT && (
+                <Input
+                  placeholder="Enter SPL token mint address..."
+                  value={customMint}
+                  onChange={(e) => setCustomMint(e.target.value)}
+                  className="bg-secondary border-border text-foreground placeholder:text-muted-foreground font-mono text-sm"
+                />
               )}
-            </Button>
-          </div>
-        </form>
+              {currency !== SOL && (
+                <p className="text-xs text-muted-foreground">
+                  Token escrows are a single payment without an arbiter
+                </p>
+              )}
+            </div>
+
+            {/* Arbiter (optional) */}
+            {currency === SOL && (
+              <div className="space-y-2">
+                <Label htmlFor="arbiter" className="text-foreground">
+                  Arbiter Wallet Address <span className="text-muted-foreground font-normal">(optional)</span>
+                </Label>
+                <Input
+                  id="arbiter"
+                  placeholder="Enter Solana wallet address..."
+                  value={arbiterAddress}
+                  onChange={(e) => setArbiterAddress(e.target.value)}
+                  className="bg-secondary border-border text-foreground placeholder:text-muted-foreground font-mono text-sm"
+                />
+                <p className="text-xs text-muted-foreground">
+                  A neutral party who splits the funds if either side raises a dispute
+                </p>
+              </div>
+            )}
+
+            {/* Payment Schedule */}
+            <div className="flex items-center justify-between">
+              <Label className="text-foreground">Payment</Label>
+              {currency === SOL && (
+                <button
+                  type="button"
+                  onClick={() => setUseMilestones(!useMilestones)}
+                  className="text-xs text-primary hover:underline"
+                >
+                  {useMilestones ? 'Use a single payment' : 'Split into milestones'}
+                </button>
+              )}
+            </div>
+
+            {useMilestones && currency === SOL ? (
+              <div className="space-y-3">
+                {milestones.map((row, i) => (
+                  <div key={i} className="space-y-2 p-3 rounded-lg bg-secondary/50">
+                    <div className="flex items-center justify-between">
+                      <span className="text-xs font-medium text-muted-foreground">Milestone {i + 1}</span>
+                      {milestones.length > 1 && (
+                        <button
+                          type="button"
+                          onClick={() => setMilestones(milestones.filter((_, j) => j !== i))}
+                          className="text-muted-foreground hover:text-foreground transition-colors"
+                          title="Remove milestone"
+                        >
+                          <X className="h-4 w-4" />
+                        </button>
+                      )}
+                    </div>
+                    <div className="flex gap-2">
+                      <Input
+                        type="number"
+                        step="0.001"
+                        min="0.001"
+                        placeholder="SOL"
+                        value={row.amount}
+                        onChange={(e) => updateMilestone(i, 'amount', e.target.value)}
+                        className="w-28 bg-secondary border-border text-foreground placeholder:text-muted-foreground"
+                      />
+                      <Input
+                        type="datetime-local"
+                        min={minDate}
+                        value={row.deadline}
+                        onChange={(e) => updateMilestone(i, 'deadline', e.target.value)}
+                        className="flex-1 bg-secondary border-border text-foreground"
+                      />
+                    </div>
+                  </div>
+                ))}
+                <div className="flex items-center justify-between">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setMilestones([...milestones, emptyMilestone()])}
+                    disabled={milestones.length >= MAX_MILESTONES}
+                    className="border-border hover:bg-secondary"
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add milestone
+                  </Button>
+                  <span className="text-xs text-muted-foreground">
+                    Total {formatSol(milestones.reduce((sum, row) => sum + (parseFloat(row.amount) || 0), 0))} SOL
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Each milestone is submitted, approved and auto-released on its own, in order
+                </p>
+              </div>
+            ) : (
+              <>
+                {/* Amount */}
+                <div className="space-y-2">
+                  <Label htmlFor="amount" className="text-foreground">
+                    Amount ({symbol})
+                  </Label>
+                  <Input
+                    id="amount"
+                    type="number"
+                    step={token ? 10 ** -token.decimals : currency === CUSTOM_MINT ? 'any' : 0.001}
+                    min={token ? 10 ** -token.decimals : currency === CUSTOM_MINT ? 0 : 0.001}
+                    placeholder="0.00"
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                    className="bg-secondary border-border text-foreground placeholder:text-muted-foreground"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    {currency === SOL ? 'Amount to lock in escrow (min 0.001 SOL)' : `Amount of ${symbol} to lock in the escrow vault`}
+                  </p>
+                </div>
+
+                {/* Deadline */}
+                <div className="space-y-2">
+                  <Label htmlFor="deadline" className="text-foreground">
+                    Deadline
+                  </Label>
+                  <Input
+                    id="deadline"
+                    type="datetime-local"
+                    min={minDate}
+                    value={deadline}
+                    onChange={(e) => setDeadline(e.target.value)}
+                    className="bg-secondary border-border text-foreground"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Work submitted after this date is rejected
+                  </p>
+                </div>
+              </>
+            )}
+
+            {/* Review Period */}
+            <div className="space-y-2">
+              <Label htmlFor="reviewPeriod" className="text-foreground">
+                Review Period (days)
+              </Label>
+              <Input
+                id="reviewPeriod"
+                type="number"
+                step="any"
+                min="0"
+                max={MAX_REVIEW_PERIOD / SECONDS_PER_DAY}
+                value={reviewDays}
+                onChange={(e) => setReviewDays(e.target.value)}
+                className="bg-secondary border-border text-foreground placeholder:text-muted-foreground"
+              />
+              <p className="text-xs text-muted-foreground">
+                Time you have to review each submission before it can be auto-released
+              </p>
+            </div>
+
+            {isPaused && (
+              <div className="p-3 rounded-lg bg-destructive/10 border border-destructive/20 flex gap-2">
+                <AlertCircle className="h-4 w-4 text-destructive shrink-0 mt-0.5" />
+                <p className="text-sm text-foreground">{errorMessages.ProgramPaused}</p>
+              </div>
+            )}
+
+            {/* Info Box */}
+            <div className="p-3 rounded-lg bg-primary/10 border border-primary/20">
+              <p className="text-sm text-foreground">
+                <strong>How it works:</strong> Funds are locked in a program-controlled PDA. 
+                After freelancer submits work, you can approve release or funds auto-release once both the deadline and
+                your review period have passed.
+              </p>
+            </div>
+
+            {/* Actions */}
+            <div className="flex gap-3 pt-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleClose}
+                className="flex-1 border-border hover:bg-secondary"
+                disabled={isLoading}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                className="flex-1 bg-gradient-primary hover:opacity-90 text-white border-0"
+                disabled={isLoading || isPaused}
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    Simulating...
+                  </>
+                ) : (
+                  'Review Escrow'
+                )}
+              </Button>
+            </div>
+          </form>
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -1,27 +1,83 @@
-import React from 'react';
-import { Inbox, Plus, Filter } from 'lucide-react';
+import React, { useState } from 'react';
+import { Inbox, Plus, Filter, Archive, Loader2, Mail, ArrowUpDown } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import EscrowCard from './EscrowCard';
 import { Escrow } from '@/lib/types';
 import { useWallet } from '@solana/wallet-adapter-react';
+import { useToast } from '@/hooks/use-toast';
+import { EscrowError } from '@sdk';
 
 interface DashboardProps {
   escrows: Escrow[];
   onViewDetails: (escrow: Escrow) => void;
   onCreateEscrow: () => void;
+  onCloseSettledEscrows: () => Promise<void>;
+  createDisabled?: boolean;
   isLoading?: boolean;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ escrows, onViewDetails, onCreateEscrow, isLoading }) => {
+type SortKey = 'created' | 'submitted' | 'released' | 'deadline';
+
+// Newest first for lifecycle timestamps, soonest first for deadlines; escrows
+// without the timestamp sort last
+const sortOptions: { value: SortKey; label: string; compare: (a: Escrow, b: Escrow) => number }[] = [
+  { value: 'created', label: 'Newest', compare: (a, b) => b.createdAt - a.createdAt },
+  { value: 'submitted', label: 'Recently submitted', compare: (a, b) => (b.submittedAt ?? 0) - (a.submittedAt ?? 0) },
+  { value: 'released', label: 'Recently released', compare: (a, b) => (b.releasedAt ?? 0) - (a.releasedAt ?? 0) },
+  { value: 'deadline', label: 'Deadline', compare: (a, b) => a.deadline - b.deadline },
+];
+
+const Dashboard: React.FC<DashboardProps> = ({
+  escrows,
+  onViewDetails,
+  onCreateEscrow,
+  onCloseSettledEscrows,
+  createDisabled,
+  isLoading,
+}) => {
   const { publicKey } = useWallet();
   const walletAddress = publicKey?.toBase58();
+  const [isClosing, setIsClosing] = useState(false);
+  const [sortKey, setSortKey] = useState<SortKey>('created');
+  const { toast } = useToast();
 
   // Filter escrows by role
   const clientEscrows = escrows.filter(e => e.client === walletAddress);
   const freelancerEscrows = escrows.filter(e => e.freelancer === walletAddress);
+  const arbiterEscrows = escrows.filter(e => e.arbiter === walletAddress);
   const allEscrows = escrows;
 
+  // Escrows waiting for this wallet to accept them as the freelancer
+  const invitations = freelancerEscrows.filter(e => e.status === 'awaiting_acceptance');
+
+  // Released or refunded escrows the wallet created still hold their rent until closed
+  const settledEscrows = clientEscrows.filter(e => e.status === 'completed' || e.status === 'refunded');
+
+  const handleCloseSettled = async () => {
+    setIsClosing(true);
+    try {
+      await onCloseSettledEscrows();
+    } catch (error) {
+      toast({
+        title: 'Close Failed',
+        description:
+          error instanceof EscrowError && error.code === 'WalletRejected'
+            ? 'You rejected the transaction in your wallet. Escrows closed so far stay closed.'
+            : (error as Error)?.message || 'Failed to close settled escrows.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsClosing(false);
+    }
+  };
+
+  const sortEscrows = (escrowList: Escrow[]) => {
+    const { compare } = sortOptions.find((option) => option.value === sortKey)!;
+    return [...escrowList].sort(compare);
+  };
+
   const renderEscrowGrid = (escrowList: Escrow[], emptyMessage: string) => {
     if (isLoading) {
       return (
@@ -43,6 +99,7 @@ const Dashboard: React.FC<DashboardProps> = ({ escrows, onViewDetails, onCreateE
           <p className="text-muted-foreground mb-6">{emptyMessage}</p>
           <Button
             onClick={onCreateEscrow}
+            disabled={createDisabled}
             className="bg-gradient-primary hover:opacity-90 text-white border-0"
           >
             <Plus className="h-4 w-4 mr-2" />
@@ -54,7 +111,7 @@ const Dashboard: React.FC<DashboardProps> = ({ escrows, onViewDetails, onCreateE
 
     return (
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-        {escrowList.map((escrow) => (
+        {sortEscrows(escrowList).map((escrow) => (
           <EscrowCard
             key={escrow.id}
             escrow={escrow}
@@ -78,17 +135,49 @@ const Dashboard: React.FC<DashboardProps> = ({ escrows, onViewDetails, onCreateE
               Manage your escrows and track payment status
             </p>
           </div>
-          <Button
-            onClick={onCreateEscrow}
-            className="bg-gradient-primary hover:opacity-90 text-white border-0"
-          >
-            <Plus className="h-4 w-4 mr-2" />
-            New Escrow
-          </Button>
+          <div className="flex gap-3">
+            {settledEscrows.length > 0 && (
+              <Button
+                variant="outline"
+                onClick={handleCloseSettled}
+                disabled={isClosing}
+                className="border-border hover:bg-secondary"
+                title="Close released and refunded escrows and reclaim their rent"
+              >
+                {isClosing ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Archive className="h-4 w-4 mr-2" />
+                )}
+                Close All Settled ({settledEscrows.length})
+              </Button>
+            )}
+            <Button
+              onClick={onCreateEscrow}
+              disabled={createDisabled}
+              className="bg-gradient-primary hover:opacity-90 text-white border-0"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              New Escrow
+            </Button>
+          </div>
         </div>
 
+        {invitations.length > 0 && (
+          <div className="mb-10">
+            <h3 className="text-lg font-semibold text-foreground flex items-center gap-2 mb-1">
+              <Mail className="h-5 w-5 text-primary" />
+              Invitations ({invitations.length})
+            </h3>
+            <p className="text-sm text-muted-foreground mb-4">
+              Review the terms and accept an escrow before starting work
+            </p>
+            {renderEscrowGrid(invitations, '')}
+          </div>
+        )}
+
         <Tabs defaultValue="all" className="w-full">
-          <div className="flex items-center justify-between mb-6">
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
             <TabsList className="bg-secondary border border-border">
               <TabsTrigger 
                 value="all" 
@@ -108,7 +197,30 @@ const Dashboard: React.FC<DashboardProps> = ({ escrows, onViewDetails, onCreateE
               >
                 As Freelancer ({freelancerEscrows.length})
               </TabsTrigger>
+              {arbiterEscrows.length > 0 && (
+                <TabsTrigger 
+                  value="arbiter" 
+                  className="data-[state=active]:bg-primary data-[state=active]:text-white"
+                >
+                  As Arbiter ({arbiterEscrows.length})
+                </TabsTrigger>
+              )}
             </TabsList>
+            <div className="flex items-center gap-2">
+              <ArrowUpDown className="h-4 w-4 text-muted-foreground" />
+              <Select value={sortKey} onValueChange={(value) => setSortKey(value as SortKey)}>
+                <SelectTrigger className="w-44 bg-secondary border-border" aria-label="Sort escrows">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {sortOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
 
           <TabsContent value="all" className="mt-0">
@@ -122,6 +234,10 @@ const Dashboard: React.FC<DashboardProps> = ({ escrows, onViewDetails, onCreateE
           <TabsContent value="freelancer" className="mt-0">
             {renderEscrowGrid(freelancerEscrows, "You don't have any escrows as a freelancer.")}
           </TabsContent>
+
+          <TabsContent value="arbiter" className="mt-0">
+            {renderEscrowGrid(arbiterEscrows, "You are not the arbiter on any escrows.")}
+          </TabsContent>
         </Tabs>
       </div>
     </section>
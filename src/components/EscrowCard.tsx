@@ -1,5 +1,5 @@
 import React from 'react';
-import { Clock, User, Wallet, ExternalLink } from 'lucide-react';
+import { CalendarDays, Clock, User, Wallet, ExternalLink } from 'lucide-react';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Escrow, EscrowStatus } from '@/lib/types';
@@ -12,16 +12,20 @@ interface EscrowCardProps {
 }
 
 const statusConfig: Record<EscrowStatus, { label: string; className: string }> = {
+  awaiting_acceptance: { label: 'Awaiting Acceptance', className: 'status-awaiting' },
   pending: { label: 'Awaiting Submission', className: 'status-pending' },
   submitted: { label: 'Work Submitted', className: 'status-submitted' },
   completed: { label: 'Completed', className: 'status-completed' },
   expired: { label: 'Deadline Passed', className: 'status-expired' },
+  refunded: { label: 'Refunded', className: 'status-refunded' },
+  disputed: { label: 'In Dispute', className: 'status-disputed' },
 };
 
 const EscrowCard: React.FC<EscrowCardProps> = ({ escrow, currentWallet, onViewDetails }) => {
   const status = statusConfig[escrow.status];
   const isClient = currentWallet === escrow.client;
   const isFreelancer = currentWallet === escrow.freelancer;
+  const isArbiter = currentWallet === escrow.arbiter;
   const timeRemaining = getTimeRemaining(escrow.deadline);
 
   return (
@@ -39,7 +43,13 @@ const EscrowCard: React.FC<EscrowCardProps> = ({ escrow, currentWallet, onViewDe
                 Escrow #{escrow.id.slice(0, 8)}
               </p>
               <p className="text-xs text-muted-foreground">
-                {isClient ? 'You are the Client' : isFreelancer ? 'You are the Freelancer' : 'Observer'}
+                {isClient
+                  ? 'You are the Client'
+                  : isFreelancer
+                    ? 'You are the Freelancer'
+                    : isArbiter
+                      ? 'You are the Arbiter'
+                      : 'Observer'}
               </p>
             </div>
           </div>
@@ -53,9 +63,21 @@ const EscrowCard: React.FC<EscrowCardProps> = ({ escrow, currentWallet, onViewDe
         {/* Amount */}
         <div className="flex items-center justify-between p-3 rounded-lg bg-secondary/50">
           <span className="text-sm text-muted-foreground">Amount</span>
-          <span className="text-lg font-bold text-foreground">{formatSol(escrow.amount)} SOL</span>
+          <span className="text-lg font-bold text-foreground">{formatSol(escrow.amount)} {escrow.token?.symbol ?? 'SOL'}</span>
         </div>
 
+        {/* Milestone Progress */}
+        {escrow.milestones.length > 0 && (
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">Milestones</span>
+            <span className="font-medium text-foreground">
+              {escrow.currentMilestone !== undefined
+                ? `${escrow.currentMilestone + 1} of ${escrow.milestones.length}`
+                : `${escrow.milestones.length} of ${escrow.milestones.length} released`}
+            </span>
+          </div>
+        )}
+
         {/* Parties */}
         <div className="space-y-2">
           <div className="flex items-center justify-between text-sm">
@@ -74,6 +96,15 @@ const EscrowCard: React.FC<EscrowCardProps> = ({ escrow, currentWallet, onViewDe
           </div>
         </div>
 
+        {/* Created */}
+        <div className="flex items-center justify-between text-sm">
+          <div className="flex items-center gap-2 text-muted-foreground">
+            <CalendarDays className="h-4 w-4" />
+            <span>Created</span>
+          </div>
+          <span className="text-foreground">{new Date(escrow.createdAt).toLocaleDateString()}</span>
+        </div>
+
         {/* Deadline */}
         <div className="flex items-center justify-between text-sm">
           <div className="flex items-center gap-2 text-muted-foreground">
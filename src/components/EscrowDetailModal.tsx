@@ -1,12 +1,14 @@
 import React, { useState } from 'react';
 import { 
   Shield, Clock, User, Wallet, FileText, CheckCircle, 
-  AlertCircle, Loader2, ExternalLink, Copy, Check 
+  AlertCircle, Loader2, ExternalLink, Copy, Check, RotateCcw, Scale, Archive, MessageSquare, Mail, UserCheck, Hourglass, Handshake,
+  PlusCircle, Coins, History 
 } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
   DialogDescription,
+  DialogFooter,
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
@@ -14,21 +16,55 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
+import { Slider } from '@/components/ui/slider';
 import { useToast } from '@/hooks/use-toast';
-import { Escrow, EscrowStatus } from '@/lib/types';
-import { formatAddress, formatSol, getTimeRemaining } from '@/lib/utils';
+import { Escrow, EscrowStatus, FundingLedgerEntry, FundMovementKind } from '@/lib/types';
+import {
+  EscrowError,
+  EscrowErrorCode,
+  MAX_BPS,
+  MAX_REVISIONS,
+  PriorityFeeLevel,
+  RESUBMISSION_WINDOW,
+  calculatePlatformFee,
+  explorerUrl,
+} from '@sdk';
+import { useCluster } from '@/hooks/useCluster';
+import PriorityFeeSelector from '@/components/PriorityFeeSelector';
+import { formatAddress, formatSol, getTimeRemaining, lamportsToSol, solToLamports } from '@/lib/utils';
 
 interface EscrowDetailModalProps {
   escrow: Escrow | null;
   isOpen: boolean;
   onClose: () => void;
   currentWallet?: string;
-  onSubmitWork: (escrowId: string, metadataRef: string) => Promise<void>;
-  onApproveRelease: (escrowId: string) => Promise<void>;
-  onTriggerAutoRelease: (escrowId: string) => Promise<void>;
+  priorityFeeLevel: PriorityFeeLevel;
+  isPaused: boolean;
+  onPriorityFeeLevelChange: (level: PriorityFeeLevel) => void;
+  onAcceptEscrow: (escrowId: string) => Promise<void>;
+  onSubmitWork: (escrowId: string, metadataRef: string, milestoneIndex?: number) => Promise<void>;
+  onRequestRevision: (escrowId: string, reasonRef: string) => Promise<void>;
+  onApproveRelease: (escrowId: string, milestoneIndex?: number) => Promise<void>;
+  onDepositMore: (escrowId: string, amount: number) => Promise<void>;
+  onReleasePartial: (escrowId: string, amount: number) => Promise<void>;
+  onFetchFundingLedger: (escrow: Escrow) => Promise<FundingLedgerEntry[]>;
+  onTriggerAutoRelease: (escrowId: string, milestoneIndex?: number) => Promise<void>;
+  onRefundEscrow: (escrowId: string) => Promise<void>;
+  onRaiseDispute: (escrowId: string) => Promise<void>;
+  onResolveDispute: (escrowId: string, freelancerBps: number) => Promise<void>;
+  onProposeDeadline: (escrowId: string, deadline: Date) => Promise<void>;
+  onRespondToDeadline: (escrowId: string, accept: boolean) => Promise<void>;
+  onProposeSettlement: (escrowId: string, freelancerBps: number) => Promise<void>;
+  onRespondToSettlement: (escrowId: string, accept: boolean, freelancerBps: number) => Promise<void>;
+  onCloseEscrow: (escrowId: string) => Promise<void>;
 }
 
 const statusConfig: Record<EscrowStatus, { label: string; className: string; icon: React.ReactNode }> = {
+  awaiting_acceptance: {
+    label: 'Awaiting Acceptance',
+    className: 'status-awaiting',
+    icon: <Mail className="h-4 w-4" />
+  },
   pending: { 
     label: 'Awaiting Submission', 
     className: 'status-pending',
@@ -49,6 +85,80 @@ const statusConfig: Record<EscrowStatus, { label: string; className: string; ico
     className: 'status-expired',
     icon: <AlertCircle className="h-4 w-4" />
   },
+  refunded: { 
+    label: 'Refunded', 
+    className: 'status-refunded',
+    icon: <RotateCcw className="h-4 w-4" />
+  },
+  disputed: { 
+    label: 'In Dispute', 
+    className: 'status-disputed',
+    icon: <Scale className="h-4 w-4" />
+  },
+};
+
+const movementLabels: Record<FundMovementKind, string> = {
+  deposit: 'Deposited',
+  release: 'Released',
+  refund: 'Refunded',
+};
+
+const errorMessages: Partial<Record<EscrowErrorCode, string>> = {
+  WalletNotConnected: 'Connect your wallet to manage this escrow.',
+  WalletRejected: 'You rejected the transaction in your wallet. Nothing was changed.',
+  BlockhashExpired: 'The transaction expired before it was confirmed. Please try again.',
+  InsufficientFunds: 'Your wallet does not have enough SOL to pay the network fee.',
+  NetworkUnavailable: 'Cannot reach the Solana network. Check your connection and try again.',
+  RpcError: 'The RPC node is not responding. Please try again in a moment.',
+  Timeout: 'The network took too long to respond. Please try again.',
+  NotFound: 'This escrow no longer exists on-chain. Refresh the dashboard.',
+  UnauthorizedFreelancer: 'Only the freelancer on this escrow can submit work. Switch to that wallet.',
+  UnauthorizedClient: 'Only the client on this escrow can approve the release. Switch to that wallet.',
+  WorkNotSubmitted: 'The freelancer has not submitted work yet, so funds cannot be released.',
+  AlreadySubmitted: 'Work has already been submitted for this escrow.',
+  AlreadyReleased: 'Funds for this escrow have already been released.',
+  DeadlineNotPassed: 'Auto-release is only available after the deadline has passed.',
+  AlreadyRefunded: 'Funds for this escrow have already been refunded to the client.',
+  RefundBeforeDeadline: 'A refund is only available after the deadline has passed.',
+  MetadataTooLong: 'The work reference is too long. Use at most 256 characters.',
+  InvalidInput: 'Enter a work reference (CID, URL, or hash).',
+  InvalidMilestone: 'This milestone does not exist on the escrow. Refresh the dashboard.',
+  MilestoneOutOfOrder: 'Earlier milestones must be submitted first.',
+  UsesMilestones: 'This escrow is paid in milestones. Refresh the dashboard and act on the current milestone.',
+  NoArbiter: 'This escrow has no arbiter, so it cannot be disputed.',
+  UnauthorizedParty: 'Only the client or the freelancer can raise a dispute.',
+  UnauthorizedArbiter: 'Only the arbiter on this escrow can resolve the dispute. Switch to that wallet.',
+  AlreadyDisputed: 'This escrow is already under dispute.',
+  NotDisputed: 'This escrow is not under dispute.',
+  EscrowDisputed: 'This escrow is under dispute. Only the arbiter can release the funds now.',
+  DisputeAfterDeadline: 'Disputes must be raised before the deadline, or before the review period of a submission ends.',
+  InvalidSplit: 'The freelancer share must be between 0% and 100%.',
+  InvalidConfig: 'This escrow belongs to a different platform config. Switch to the network it was created on.',
+  InvalidTreasury: 'The fee treasury does not match the platform config. Refresh and try again.',
+  ProgramPaused: 'The escrow program is paused. Work can be submitted once it resumes.',
+  NotSettled: 'Only released or refunded escrows can be closed.',
+  InvalidDeadline: 'The new deadline must be in the future and later than the current one.',
+  NoDeadlineProposal: 'The deadline proposal is no longer pending. Refresh the dashboard.',
+  OwnDeadlineProposal: 'The other party has to accept your proposed deadline.',
+  RevisionAfterDeadline: 'Revisions can only be requested before the deadline or the end of the review period.',
+  TooManyRevisions: `This escrow has used all ${MAX_REVISIONS} revision rounds.`,
+  NotAccepted: 'The freelancer has to accept this escrow first.',
+  AlreadyAccepted: 'The freelancer has already accepted this escrow, so it can no longer be withdrawn early.',
+  InvitationExpired: 'The deadline of this escrow has passed, so it can no longer be accepted.',
+  InvalidReviewPeriod: 'The review period must be between 0 and 30 days.',
+  SubmissionAfterDeadline: 'The deadline has passed, so work can no longer be submitted. Ask the client to extend it.',
+  ReviewPeriodActive: 'The client is still reviewing this submission. Auto-release opens once the review period ends.',
+  NoSettlementProposal: 'The settlement proposal is no longer pending. Refresh the dashboard.',
+  OwnSettlementProposal: 'The other party has to accept your proposed settlement.',
+  SettlementMismatch: 'The other party changed the proposed split. Review the new proposal before accepting.',
+  InvalidAmount: 'Enter an amount greater than 0.',
+  UsesToken: 'Only SOL escrows can be settled. Token escrows end by approval, auto-release or refund.',
+  PartialReleaseTooLarge: 'A partial release must leave funds in the escrow. Use Approve & Release for the full balance.',
+};
+
+const getErrorDescription = (error: unknown, fallback: string): string => {
+  const code = error instanceof EscrowError ? error.code : undefined;
+  return (code && errorMessages[code]) || (error as Error)?.message || fallback;
 };
 
 const EscrowDetailModal: React.FC<EscrowDetailModalProps> = ({
@@ -56,27 +166,140 @@ const EscrowDetailModal: React.FC<EscrowDetailModalProps> = ({
   isOpen,
   onClose,
   currentWallet,
+  priorityFeeLevel,
+  isPaused,
+  onPriorityFeeLevelChange,
+  onAcceptEscrow,
   onSubmitWork,
+  onRequestRevision,
   onApproveRelease,
+  onDepositMore,
+  onReleasePartial,
+  onFetchFundingLedger,
   onTriggerAutoRelease,
+  onRefundEscrow,
+  onRaiseDispute,
+  onResolveDispute,
+  onProposeDeadline,
+  onRespondToDeadline,
+  onProposeSettlement,
+  onRespondToSettlement,
+  onCloseEscrow,
 }) => {
   const [metadataRef, setMetadataRef] = useState('');
+  const [isAccepting, setIsAccepting] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [revisionReason, setRevisionReason] = useState('');
+  const [isRequestingRevision, setIsRequestingRevision] = useState(false);
   const [isApproving, setIsApproving] = useState(false);
   const [isReleasing, setIsReleasing] = useState(false);
+  const [isRefunding, setIsRefunding] = useState(false);
+  const [isDisputing, setIsDisputing] = useState(false);
+  const [isResolving, setIsResolving] = useState(false);
+  const [isClosing, setIsClosing] = useState(false);
+  const [proposedDeadline, setProposedDeadline] = useState('');
+  const [isExtending, setIsExtending] = useState(false);
+  const [freelancerShare, setFreelancerShare] = useState(50); // percent
+  const [isSettlementOpen, setIsSettlementOpen] = useState(false);
+  const [settlementShare, setSettlementShare] = useState(50); // percent
+  const [isSettling, setIsSettling] = useState(false);
+  const [depositAmount, setDepositAmount] = useState('');
+  const [partialAmount, setPartialAmount] = useState('');
+  const [isFunding, setIsFunding] = useState(false);
+  const [ledger, setLedger] = useState<{ escrowId: string; entries: FundingLedgerEntry[] } | null>(null);
+  const [isLoadingLedger, setIsLoadingLedger] = useState(false);
   const [copiedField, setCopiedField] = useState<string | null>(null);
   const { toast } = useToast();
+  const { cluster } = useCluster();
 
   if (!escrow) return null;
 
   const status = statusConfig[escrow.status];
   const isClient = currentWallet === escrow.client;
   const isFreelancer = currentWallet === escrow.freelancer;
+  const isArbiter = !!escrow.arbiter && currentWallet === escrow.arbiter;
   const timeRemaining = getTimeRemaining(escrow.deadline);
+  const reviewRemaining = escrow.autoReleaseAt !== undefined ? getTimeRemaining(escrow.autoReleaseAt) : null;
+  const hasMilestones = escrow.milestones.length > 0;
+  const milestone = escrow.currentMilestone !== undefined ? escrow.milestones[escrow.currentMilestone] : undefined;
+  const releasedCount = escrow.milestones.filter((m) => m.isReleased).length;
 
-  const canSubmitWork = isFreelancer && escrow.status === 'pending';
+  const isInvitation = escrow.status === 'awaiting_acceptance';
+  const canAccept = isFreelancer && isInvitation && !timeRemaining.isExpired;
+  const canSubmitWork = isFreelancer && escrow.status === 'pending' && !timeRemaining.isExpired;
   const canApprove = isClient && escrow.status === 'submitted';
-  const canAutoRelease = escrow.status === 'submitted' && timeRemaining.isExpired;
+  const revisionsLeft = MAX_REVISIONS - escrow.revisions.length;
+  // A submission can be sent back or disputed until it becomes eligible for auto-release
+  const canRequestRevision = isClient && !hasMilestones && escrow.status === 'submitted' && revisionsLeft > 0;
+  const latestRevision = escrow.revisions[escrow.revisions.length - 1];
+  // Auto-release waits for both the deadline and the client's review period
+  const canAutoRelease =
+    (escrow.status === 'submitted' || escrow.status === 'expired') && !!reviewRemaining?.isExpired;
+  // Before the freelancer accepts, the client can withdraw at any time
+  const canRefund = isClient && ((escrow.status === 'pending' && timeRemaining.isExpired) || isInvitation);
+  const canRaiseDispute =
+    (isClient || isFreelancer) &&
+    !!escrow.arbiter &&
+    ((escrow.status === 'pending' && !timeRemaining.isExpired) || escrow.status === 'submitted');
+  const canResolve = isArbiter && escrow.status === 'disputed';
+  const proposal = escrow.deadlineProposal;
+  const proposedByYou = !!proposal && proposal.proposer === currentWallet;
+  const canProposeDeadline =
+    (isClient || isFreelancer) &&
+    !hasMilestones &&
+    !proposal &&
+    (escrow.status === 'pending' || escrow.status === 'submitted' || escrow.status === 'expired');
+  const canRespondToDeadline = (isClient || isFreelancer) && !!proposal && !proposedByYou;
+  // Mutual cancellation is open to both parties on accepted SOL escrows until they are settled
+  const isActive = escrow.status === 'pending' || escrow.status === 'submitted' || escrow.status === 'expired';
+  const settlement = escrow.settlementProposal;
+  const settlementByYou = !!settlement && settlement.proposer === currentWallet;
+  // Settlements only move SOL; token escrows end by approval, auto-release or refund
+  const canProposeSettlement = (isClient || isFreelancer) && !escrow.token && isActive;
+  const isSettlementUnavailable = (isClient || isFreelancer) && !!escrow.token && isActive;
+  const canRespondToSettlement = (isClient || isFreelancer) && !!settlement && !settlementByYou && isActive;
+  const settlementPayout = settlement ? (escrow.amount * settlement.freelancerBps) / MAX_BPS : 0;
+  const proposedSettlementPayout = (escrow.amount * settlementShare) / 100;
+  // Top-ups and partial releases apply to single-payment SOL escrows; paying out early needs an accepted escrow
+  const canAdjustFunds = isClient && !hasMilestones && !escrow.token;
+  const canDeposit = canAdjustFunds && (isInvitation || isActive);
+  const canReleasePartial = canAdjustFunds && isActive;
+  const partialPayout = parseFloat(partialAmount) || 0;
+  const ledgerEntries = ledger?.escrowId === escrow.id ? ledger.entries : null;
+  const canCloseEscrow = isClient && (escrow.status === 'completed' || escrow.status === 'refunded');
+  const freelancerPayout = (escrow.amount * freelancerShare) / 100;
+
+  const symbol = escrow.token?.symbol ?? 'SOL';
+  // Fee of the Config this escrow is bound to, which is the one charged on release
+  const feeBps = escrow.feeBps ?? null;
+
+  // Platform fee deducted from whatever the freelancer is paid, rounded in lamports or token base units
+  const platformFee = (amount: number) => {
+    if (!feeBps) return 0;
+    if (!escrow.token) return lamportsToSol(calculatePlatformFee(solToLamports(amount), feeBps));
+    const baseUnits = 10 ** escrow.token.decimals;
+    return calculatePlatformFee(Math.round(amount * baseUnits), feeBps) / baseUnits;
+  };
+  const releaseAmount = milestone?.amount ?? escrow.amount;
+
+  const handleAccept = async () => {
+    setIsAccepting(true);
+    try {
+      await onAcceptEscrow(escrow.id);
+      toast({
+        title: 'Escrow Accepted',
+        description: 'You can now submit work before the deadline.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Acceptance Failed',
+        description: getErrorDescription(error, 'Failed to accept escrow.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setIsAccepting(false);
+    }
+  };
 
   const handleSubmitWork = async () => {
     if (!metadataRef.trim()) {
@@ -90,7 +313,7 @@ const EscrowDetailModal: React.FC<EscrowDetailModalProps> = ({
 
     setIsSubmitting(true);
     try {
-      await onSubmitWork(escrow.id, metadataRef);
+      await onSubmitWork(escrow.id, metadataRef, escrow.currentMilestone);
       toast({
         title: 'Work Submitted',
         description: 'Your work has been submitted successfully.',
@@ -99,7 +322,7 @@ const EscrowDetailModal: React.FC<EscrowDetailModalProps> = ({
     } catch (error: any) {
       toast({
         title: 'Submission Failed',
-        description: error.message || 'Failed to submit work.',
+        description: getErrorDescription(error, 'Failed to submit work.'),
         variant: 'destructive',
       });
     } finally {
@@ -107,10 +330,39 @@ const EscrowDetailModal: React.FC<EscrowDetailModalProps> = ({
     }
   };
 
+  const handleRequestRevision = async () => {
+    if (!revisionReason.trim()) {
+      toast({
+        title: 'Missing Reason',
+        description: 'Please describe the changes you need (text, URL, or CID).',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsRequestingRevision(true);
+    try {
+      await onRequestRevision(escrow.id, revisionReason);
+      toast({
+        title: 'Revision Requested',
+        description: 'The freelancer can now resubmit their work.',
+      });
+      setRevisionReason('');
+    } catch (error) {
+      toast({
+        title: 'Request Failed',
+        description: getErrorDescription(error, 'Failed to request a revision.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setIsRequestingRevision(false);
+    }
+  };
+
   const handleApprove = async () => {
     setIsApproving(true);
     try {
-      await onApproveRelease(escrow.id);
+      await onApproveRelease(escrow.id, escrow.currentMilestone);
       toast({
         title: 'Funds Released',
         description: 'Funds have been released to the freelancer.',
@@ -118,7 +370,7 @@ const EscrowDetailModal: React.FC<EscrowDetailModalProps> = ({
     } catch (error: any) {
       toast({
         title: 'Approval Failed',
-        description: error.message || 'Failed to approve release.',
+        description: getErrorDescription(error, 'Failed to approve release.'),
         variant: 'destructive',
       });
     } finally {
@@ -126,10 +378,82 @@ const EscrowDetailModal: React.FC<EscrowDetailModalProps> = ({
     }
   };
 
+  const loadLedger = async () => {
+    setIsLoadingLedger(true);
+    try {
+      setLedger({ escrowId: escrow.id, entries: await onFetchFundingLedger(escrow) });
+    } catch (error) {
+      toast({
+        title: 'Ledger Unavailable',
+        description: getErrorDescription(error, 'Failed to load the funding ledger.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoadingLedger(false);
+    }
+  };
+
+  const handleDeposit = async () => {
+    const amount = parseFloat(depositAmount);
+    if (!(amount > 0)) {
+      toast({ title: 'Invalid Amount', description: errorMessages.InvalidAmount, variant: 'destructive' });
+      return;
+    }
+
+    setIsFunding(true);
+    try {
+      await onDepositMore(escrow.id, amount);
+      toast({
+        title: 'Funds Added',
+        description: `${formatSol(amount)} ${symbol} more is now locked for the freelancer.`,
+      });
+      setDepositAmount('');
+      if (ledgerEntries) await loadLedger();
+    } catch (error) {
+      toast({
+        title: 'Deposit Failed',
+        description: getErrorDescription(error, 'Failed to add funds.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setIsFunding(false);
+    }
+  };
+
+  const handleReleasePartial = async () => {
+    if (!(partialPayout > 0)) {
+      toast({ title: 'Invalid Amount', description: errorMessages.InvalidAmount, variant: 'destructive' });
+      return;
+    }
+    if (partialPayout >= escrow.amount) {
+      toast({ title: 'Invalid Amount', description: errorMessages.PartialReleaseTooLarge, variant: 'destructive' });
+      return;
+    }
+
+    setIsFunding(true);
+    try {
+      await onReleasePartial(escrow.id, partialPayout);
+      toast({
+        title: 'Funds Released',
+        description: `${formatSol(partialPayout)} ${symbol} has been paid to the freelancer. The rest stays locked.`,
+      });
+      setPartialAmount('');
+      if (ledgerEntries) await loadLedger();
+    } catch (error) {
+      toast({
+        title: 'Release Failed',
+        description: getErrorDescription(error, 'Failed to release funds.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setIsFunding(false);
+    }
+  };
+
   const handleAutoRelease = async () => {
     setIsReleasing(true);
     try {
-      await onTriggerAutoRelease(escrow.id);
+      await onTriggerAutoRelease(escrow.id, escrow.currentMilestone);
       toast({
         title: 'Auto-Release Triggered',
         description: 'Funds have been released to the freelancer.',
@@ -137,7 +461,7 @@ const EscrowDetailModal: React.FC<EscrowDetailModalProps> = ({
     } catch (error: any) {
       toast({
         title: 'Release Failed',
-        description: error.message || 'Failed to trigger auto-release.',
+        description: getErrorDescription(error, 'Failed to trigger auto-release.'),
         variant: 'destructive',
       });
     } finally {
@@ -145,6 +469,176 @@ const EscrowDetailModal: React.FC<EscrowDetailModalProps> = ({
     }
   };
 
+  const handleRefund = async () => {
+    setIsRefunding(true);
+    try {
+      await onRefundEscrow(escrow.id);
+      toast({
+        title: isInvitation ? 'Escrow Withdrawn' : 'Escrow Refunded',
+        description: 'Funds have been returned to your wallet.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Refund Failed',
+        description: getErrorDescription(error, 'Failed to refund escrow.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setIsRefunding(false);
+    }
+  };
+
+  const handleProposeDeadline = async () => {
+    const deadline = new Date(proposedDeadline);
+    if (!proposedDeadline || deadline.getTime() <= Math.max(escrow.deadline, Date.now())) {
+      toast({
+        title: 'Invalid Deadline',
+        description: errorMessages.InvalidDeadline,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsExtending(true);
+    try {
+      await onProposeDeadline(escrow.id, deadline);
+      toast({
+        title: 'Extension Proposed',
+        description: 'The new deadline applies once the other party accepts it.',
+      });
+      setProposedDeadline('');
+    } catch (error) {
+      toast({
+        title: 'Proposal Failed',
+        description: getErrorDescription(error, 'Failed to propose a new deadline.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setIsExtending(false);
+    }
+  };
+
+  const handleRespondToDeadline = async (accept: boolean) => {
+    setIsExtending(true);
+    try {
+      await onRespondToDeadline(escrow.id, accept);
+      toast({
+        title: accept ? 'Deadline Extended' : proposedByYou ? 'Proposal Withdrawn' : 'Extension Rejected',
+        description: accept ? 'The new deadline is now in effect.' : 'The current deadline stays in effect.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Update Failed',
+        description: getErrorDescription(error, 'Failed to update the deadline proposal.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setIsExtending(false);
+    }
+  };
+
+  const handleProposeSettlement = async () => {
+    setIsSettling(true);
+    try {
+      await onProposeSettlement(escrow.id, Math.round((settlementShare / 100) * MAX_BPS));
+      toast({
+        title: 'Settlement Proposed',
+        description: 'The funds are split and the escrow closed once the other party accepts.',
+      });
+      setIsSettlementOpen(false);
+    } catch (error) {
+      toast({
+        title: 'Proposal Failed',
+        description: getErrorDescription(error, 'Failed to propose a settlement.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSettling(false);
+    }
+  };
+
+  const handleRespondToSettlement = async (accept: boolean) => {
+    if (!settlement) return;
+    setIsSettling(true);
+    try {
+      await onRespondToSettlement(escrow.id, accept, settlement.freelancerBps);
+      toast({
+        title: accept ? 'Escrow Settled' : settlementByYou ? 'Proposal Withdrawn' : 'Settlement Rejected',
+        description: accept
+          ? 'The funds have been split and the escrow closed.'
+          : 'The escrow continues on its current terms.',
+      });
+      // Accepting closes the escrow account
+      if (accept) onClose();
+    } catch (error) {
+      toast({
+        title: 'Settlement Failed',
+        description: getErrorDescription(error, 'Failed to update the settlement proposal.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSettling(false);
+    }
+  };
+
+  const handleCloseEscrow = async () => {
+    setIsClosing(true);
+    try {
+      await onCloseEscrow(escrow.id);
+      toast({
+        title: 'Escrow Closed',
+        description: 'The account rent has been returned to your wallet.',
+      });
+      onClose();
+    } catch (error) {
+      toast({
+        title: 'Close Failed',
+        description: getErrorDescription(error, 'Failed to close escrow.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setIsClosing(false);
+    }
+  };
+
+  const handleRaiseDispute = async () => {
+    setIsDisputing(true);
+    try {
+      await onRaiseDispute(escrow.id);
+      toast({
+        title: 'Dispute Raised',
+        description: 'Auto-release is frozen until the arbiter resolves the dispute.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Dispute Failed',
+        description: getErrorDescription(error, 'Failed to raise dispute.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setIsDisputing(false);
+    }
+  };
+
+  const handleResolve = async () => {
+    setIsResolving(true);
+    try {
+      await onResolveDispute(escrow.id, Math.round((freelancerShare / 100) * MAX_BPS));
+      toast({
+        title: 'Dispute Resolved',
+        description: 'Funds have been split between the client and the freelancer.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Resolution Failed',
+        description: getErrorDescription(error, 'Failed to resolve dispute.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
   const copyToClipboard = (text: string, field: string) => {
     navigator.clipboard.writeText(text);
     setCopiedField(field);
@@ -161,8 +655,17 @@ const EscrowDetailModal: React.FC<EscrowDetailModalProps> = ({
             </div>
             <div className="flex-1">
               <DialogTitle className="text-foreground">Escrow Details</DialogTitle>
-              <DialogDescription className="text-muted-foreground font-mono text-xs">
+              <DialogDescription className="text-muted-foreground font-mono text-xs flex items-center gap-1.5">
                 #{escrow.id.slice(0, 16)}...
+                <a
+                  href={explorerUrl(cluster, 'address', escrow.id)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="hover:text-foreground transition-colors"
+                  title="View on Solana Explorer"
+                >
+                  <ExternalLink className="h-3 w-3" />
+                </a>
               </DialogDescription>
             </div>
             <span className={`px-3 py-1.5 rounded-full text-xs font-medium flex items-center gap-1.5 ${status.className}`}>
@@ -175,10 +678,52 @@ const EscrowDetailModal: React.FC<EscrowDetailModalProps> = ({
         <div className="space-y-5 mt-4">
           {/* Amount Card */}
           <div className="p-4 rounded-lg bg-gradient-primary/10 border border-primary/20">
-            <p className="text-sm text-muted-foreground mb-1">Escrow Amount</p>
-            <p className="text-3xl font-bold text-foreground">{formatSol(escrow.amount)} SOL</p>
+            <p className="text-sm text-muted-foreground mb-1">
+              {hasMilestones ? 'Remaining in Escrow' : 'Escrow Amount'}
+            </p>
+            <p className="text-3xl font-bold text-foreground">{formatSol(escrow.amount)} {symbol}</p>
           </div>
 
+          {/* Milestones */}
+          {hasMilestones && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">Milestones</span>
+                <span className="text-foreground font-medium">
+                  {releasedCount} of {escrow.milestones.length} released
+                </span>
+              </div>
+              <div className="h-1.5 rounded-full bg-secondary overflow-hidden">
+                <div
+                  className="h-full bg-gradient-primary"
+                  style={{ width: `${(releasedCount / escrow.milestones.length) * 100}%` }}
+                />
+              </div>
+              {escrow.milestones.map((m) => (
+                <div
+                  key={m.index}
+                  className={`flex items-center justify-between p-3 rounded-lg bg-secondary/50 text-sm ${
+                    m.index === escrow.currentMilestone ? 'border border-primary/30' : ''
+                  }`}
+                >
+                  <div>
+                    <p className="text-foreground font-medium">Milestone {m.index + 1}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Due {new Date(m.deadline).toLocaleString()}
+                      {m.metadataRef && <span className="font-mono"> · {m.metadataRef}</span>}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-foreground">{formatSol(m.amount)} {symbol}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {m.isReleased ? 'Released' : m.isSubmitted ? 'Submitted' : 'Pending'}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Parties */}
           <div className="space-y-3">
             <div className="flex items-center justify-between p-3 rounded-lg bg-secondary/50">
@@ -218,13 +763,36 @@ const EscrowDetailModal: React.FC<EscrowDetailModalProps> = ({
                 </button>
               </div>
             </div>
+
+            {escrow.arbiter && (
+              <div className="flex items-center justify-between p-3 rounded-lg bg-secondary/50">
+                <div className="flex items-center gap-2">
+                  <Scale className="h-4 w-4 text-muted-foreground" />
+                  <span className="text-sm text-muted-foreground">Arbiter</span>
+                  {isArbiter && (
+                    <span className="px-1.5 py-0.5 rounded text-xs bg-primary/20 text-primary">You</span>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="font-mono text-sm text-foreground">{formatAddress(escrow.arbiter)}</span>
+                  <button
+                    onClick={() => copyToClipboard(escrow.arbiter!, 'arbiter')}
+                    className="text-muted-foreground hover:text-foreground transition-colors"
+                  >
+                    {copiedField === 'arbiter' ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                  </button>
+                </div>
+              </div>
+            )}
           </div>
 
           {/* Deadline */}
           <div className="flex items-center justify-between p-3 rounded-lg bg-secondary/50">
             <div className="flex items-center gap-2">
               <Clock className="h-4 w-4 text-muted-foreground" />
-              <span className="text-sm text-muted-foreground">Deadline</span>
+              <span className="text-sm text-muted-foreground">
+                {milestone ? `Milestone ${milestone.index + 1} Deadline` : 'Deadline'}
+              </span>
             </div>
             <div className="text-right">
               <p className={`font-medium ${timeRemaining.isExpired ? 'text-destructive' : 'text-foreground'}`}>
@@ -236,8 +804,178 @@ const EscrowDetailModal: React.FC<EscrowDetailModalProps> = ({
             </div>
           </div>
 
+          {/* Review Countdown */}
+          {reviewRemaining && (
+            <div className="flex items-center justify-between p-3 rounded-lg bg-secondary/50">
+              <div className="flex items-center gap-2">
+                <Hourglass className="h-4 w-4 text-muted-foreground" />
+                <span className="text-sm text-muted-foreground">Client Review</span>
+              </div>
+              <div className="text-right">
+                <p className="font-medium text-foreground">
+                  {reviewRemaining.isExpired ? 'Auto-release open' : reviewRemaining.display}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {reviewRemaining.isExpired ? 'Since' : 'Auto-release from'}{' '}
+                  {new Date(escrow.autoReleaseAt!).toLocaleString()}
+                </p>
+              </div>
+            </div>
+          )}
+
+          {/* Timeline */}
+          <div className="p-3 rounded-lg bg-secondary/50 space-y-2 text-sm">
+            {[
+              { label: 'Created', time: escrow.createdAt },
+              { label: hasMilestones ? 'Last Submission' : 'Submitted', time: escrow.submittedAt },
+              { label: 'Released', time: escrow.releasedAt },
+            ].map(({ label, time }) => (
+              <div key={label} className="flex items-center justify-between">
+                <span className="text-muted-foreground">{label}</span>
+                <span className={time ? 'text-foreground' : 'text-muted-foreground'}>
+                  {time ? new Date(time).toLocaleString() : 'Not yet'}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          {/* Deadline Extension */}
+          {proposal && (
+            <div className="p-3 rounded-lg bg-primary/10 border border-primary/20 space-y-3">
+              <p className="text-sm text-foreground">
+                {proposedByYou
+                  ? 'You proposed'
+                  : proposal.proposer === escrow.client
+                    ? 'The client proposed'
+                    : 'The freelancer proposed'}{' '}
+                extending the deadline to{' '}
+                <span className="font-medium">{new Date(proposal.deadline).toLocaleString()}</span>
+              </p>
+              <p className="text-xs text-muted-foreground">
+                The current deadline stays in effect until {proposedByYou ? 'the other party accepts' : 'you accept'}.
+              </p>
+              {canRespondToDeadline && (
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    onClick={() => handleRespondToDeadline(true)}
+                    disabled={isExtending}
+                    className="flex-1 bg-gradient-primary hover:opacity-90 text-white border-0"
+                  >
+                    {isExtending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Accept
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleRespondToDeadline(false)}
+                    disabled={isExtending}
+                    className="flex-1 border-border hover:bg-secondary"
+                  >
+                    Reject
+                  </Button>
+                </div>
+              )}
+              {proposedByYou && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleRespondToDeadline(false)}
+                  disabled={isExtending}
+                  className="w-full border-border hover:bg-secondary"
+                >
+                  {isExtending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Withdraw Proposal
+                </Button>
+              )}
+            </div>
+          )}
+
+          {/* Settlement */}
+          {settlement && isActive && (
+            <div className="p-3 rounded-lg bg-primary/10 border border-primary/20 space-y-3">
+              <p className="text-sm text-foreground">
+                {settlementByYou
+                  ? 'You proposed'
+                  : settlement.proposer === escrow.client
+                    ? 'The client proposed'
+                    : 'The freelancer proposed'}{' '}
+                cancelling the escrow with{' '}
+                <span className="font-medium">{settlement.freelancerBps / 100}%</span> to the freelancer
+              </p>
+              <div className="flex items-center justify-between text-xs text-muted-foreground">
+                <span>Client receives {formatSol(escrow.amount - settlementPayout)} {symbol}</span>
+                <span>Freelancer receives {formatSol(settlementPayout)} {symbol}</span>
+              </div>
+              {feeBps !== null && (
+                <p className="text-xs text-muted-foreground">
+                  {feeBps / 100}% platform fee on the freelancer share: {formatSol(platformFee(settlementPayout), 6)}{' '}
+                  {symbol}. Accepting pays out both shares and closes the escrow.
+                </p>
+              )}
+              {canRespondToSettlement && (
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    onClick={() => handleRespondToSettlement(true)}
+                    disabled={isSettling}
+                    className="flex-1 bg-gradient-primary hover:opacity-90 text-white border-0"
+                  >
+                    {isSettling && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Accept
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleRespondToSettlement(false)}
+                    disabled={isSettling}
+                    className="flex-1 border-border hover:bg-secondary"
+                  >
+                    Reject
+                  </Button>
+                </div>
+              )}
+              {settlementByYou && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleRespondToSettlement(false)}
+                  disabled={isSettling}
+                  className="w-full border-border hover:bg-secondary"
+                >
+                  {isSettling && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Withdraw Proposal
+                </Button>
+              )}
+            </div>
+          )}
+
+          {canProposeDeadline && (
+            <div className="space-y-2">
+              <Label className="text-sm text-muted-foreground">Propose a Later Deadline</Label>
+              <div className="flex gap-2">
+                <Input
+                  type="datetime-local"
+                  min={new Date(Math.max(escrow.deadline, Date.now()) + 60000).toISOString().slice(0, 16)}
+                  value={proposedDeadline}
+                  onChange={(e) => setProposedDeadline(e.target.value)}
+                  className="flex-1 bg-secondary border-border text-foreground"
+                />
+                <Button
+                  variant="outline"
+                  onClick={handleProposeDeadline}
+                  disabled={isExtending || !proposedDeadline}
+                  className="border-border hover:bg-secondary"
+                >
+                  {isExtending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Propose
+                </Button>
+              </div>
+            </div>
+          )}
+
           {/* Metadata Reference */}
-          {escrow.metadataRef && (
+          {escrow.metadataRef && !hasMilestones && (
             <div className="p-3 rounded-lg bg-secondary/50">
               <p className="text-sm text-muted-foreground mb-2 flex items-center gap-2">
                 <FileText className="h-4 w-4" />
@@ -270,23 +1008,160 @@ const EscrowDetailModal: React.FC<EscrowDetailModalProps> = ({
             </div>
           )}
 
+          {/* Revision History */}
+          {escrow.revisions.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">Revisions</span>
+                <span className="text-foreground font-medium">
+                  {escrow.revisions.length} of {MAX_REVISIONS} used
+                </span>
+              </div>
+              {escrow.revisions.map((revision, index) => (
+                <div key={index} className="p-3 rounded-lg bg-secondary/50 text-sm space-y-1">
+                  <p className="text-foreground font-medium">Submission {index + 1}</p>
+                  <p className="text-xs text-muted-foreground font-mono truncate">{revision.submissionRef}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Changes requested: <span className="font-mono">{revision.reasonRef}</span>
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Funding Ledger */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground flex items-center gap-2">
+                <History className="h-4 w-4" />
+                Funding Ledger
+              </span>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={loadLedger}
+                disabled={isLoadingLedger}
+                className="h-7 text-xs text-muted-foreground hover:text-foreground"
+              >
+                {isLoadingLedger && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                {ledgerEntries ? 'Refresh' : 'Show'}
+              </Button>
+            </div>
+            {ledgerEntries?.length === 0 && (
+              <p className="text-xs text-muted-foreground">No fund movements found for this escrow.</p>
+            )}
+            {ledgerEntries?.map((entry, index) => (
+              <div key={`${entry.signature}-${index}`} className="flex items-center justify-between p-3 rounded-lg bg-secondary/50 text-sm">
+                <div>
+                  <p className="text-foreground font-medium">{movementLabels[entry.kind]}</p>
+                  <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+                    {new Date(entry.timestamp).toLocaleString()}
+                    <a
+                      href={explorerUrl(cluster, 'tx', entry.signature)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="hover:text-foreground transition-colors"
+                      title="View on Solana Explorer"
+                    >
+                      <ExternalLink className="h-3 w-3" />
+                    </a>
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p className={entry.kind === 'deposit' ? 'text-foreground' : 'text-muted-foreground'}>
+                    {entry.kind === 'deposit' ? '+' : '-'}
+                    {formatSol(entry.amount)} {symbol}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatSol(entry.balance)} {symbol} locked
+                  </p>
+                </div>
+              </div>
+            ))}
+          </div>
+
           <Separator className="bg-border" />
 
           {/* Actions */}
           <div className="space-y-3">
+            {(canAccept ||
+              canSubmitWork ||
+              canApprove ||
+              canAutoRelease ||
+              canRefund ||
+              canRaiseDispute ||
+              canResolve ||
+              canRespondToSettlement ||
+              canDeposit ||
+              canReleasePartial) && (
+              <PriorityFeeSelector
+                value={priorityFeeLevel}
+                onChange={onPriorityFeeLevelChange}
+                disabled={
+                  isAccepting ||
+                  isSubmitting ||
+                  isRequestingRevision ||
+                  isApproving ||
+                  isReleasing ||
+                  isRefunding ||
+                  isDisputing ||
+                  isResolving ||
+                  isSettling ||
+                  isFunding
+                }
+              />
+            )}
+
+            {isInvitation && (
+              <p className="text-xs text-muted-foreground text-center">
+                {isFreelancer
+                  ? 'Accept this escrow to start work. The client can withdraw the funds until you do.'
+                  : 'Waiting for the freelancer to accept. You can withdraw the funds until they do.'}
+              </p>
+            )}
+
+            {/* Freelancer: Accept Invitation */}
+            {canAccept && (
+              <Button
+                onClick={handleAccept}
+                disabled={isAccepting}
+                className="w-full bg-gradient-primary hover:opacity-90 text-white border-0"
+              >
+                {isAccepting ? (
+                  <>
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    Accepting...
+                  </>
+                ) : (
+                  <>
+                    <UserCheck className="h-4 w-4 mr-2" />
+                    Accept Escrow
+                  </>
+                )}
+              </Button>
+            )}
+
             {/* Freelancer: Submit Work */}
             {canSubmitWork && (
               <div className="space-y-3">
-                <Label className="text-foreground">Submit Work Reference</Label>
+                <Label className="text-foreground">
+                  {milestone ? `Submit Milestone ${milestone.index + 1} Reference` : 'Submit Work Reference'}
+                </Label>
+                {latestRevision && (
+                  <p className="text-xs text-muted-foreground">
+                    The client requested changes: <span className="font-mono">{latestRevision.reasonRef}</span>
+                  </p>
+                )}
                 <Input
                   placeholder="Enter CID, URL, or hash..."
                   value={metadataRef}
                   onChange={(e) => setMetadataRef(e.target.value)}
                   className="bg-secondary border-border text-foreground font-mono text-sm"
                 />
+                {isPaused && <p className="text-xs text-destructive">{errorMessages.ProgramPaused}</p>}
                 <Button
                   onClick={handleSubmitWork}
-                  disabled={isSubmitting}
+                  disabled={isSubmitting || isPaused}
                   className="w-full bg-gradient-primary hover:opacity-90 text-white border-0"
                 >
                   {isSubmitting ? (
@@ -304,6 +1179,14 @@ const EscrowDetailModal: React.FC<EscrowDetailModalProps> = ({
               </div>
             )}
 
+            {/* Platform fee on the next release */}
+            {(canApprove || canAutoRelease) && feeBps !== null && (
+              <p className="text-xs text-muted-foreground text-center">
+                Releases {formatSol(releaseAmount)} {symbol}: the freelancer receives{' '}
+                {formatSol(releaseAmount - platformFee(releaseAmount), 6)} {symbol} after the {feeBps / 100}% platform fee
+              </p>
+            )}
+
             {/* Client: Approve Release */}
             {canApprove && (
               <Button
@@ -319,13 +1202,113 @@ const EscrowDetailModal: React.FC<EscrowDetailModalProps> = ({
                 ) : (
                   <>
                     <CheckCircle className="h-4 w-4 mr-2" />
-                    Approve & Release Funds
+                    {milestone ? `Approve & Release Milestone ${milestone.index + 1}` : 'Approve & Release Funds'}
                   </>
                 )}
               </Button>
             )}
 
-            {/* Anyone: Auto-Release (if deadline passed and work submitted) */}
+            {/* Client: Request Revision (within the review window, rounds left) */}
+            {canRequestRevision && (
+              <div className="space-y-3">
+                <Label className="text-foreground">
+                  Request Changes ({revisionsLeft} {revisionsLeft === 1 ? 'round' : 'rounds'} left)
+                </Label>
+                <Input
+                  placeholder="Describe the changes, or a URL or CID..."
+                  value={revisionReason}
+                  onChange={(e) => setRevisionReason(e.target.value)}
+                  className="bg-secondary border-border text-foreground text-sm"
+                />
+                <p className="text-xs text-muted-foreground">
+                  The deadline moves to at least {RESUBMISSION_WINDOW / (24 * 60 * 60)} days from now so the freelancer has time to resubmit.
+                </p>
+                <Button
+                  onClick={handleRequestRevision}
+                  disabled={isRequestingRevision}
+                  variant="outline"
+                  className="w-full border-border hover:bg-secondary"
+                >
+                  {isRequestingRevision ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      Requesting...
+                    </>
+                  ) : (
+                    <>
+                      <MessageSquare className="h-4 w-4 mr-2" />
+                      Request Revision
+                    </>
+                  )}
+                </Button>
+              </div>
+            )}
+
+            {/* Client: Pay part of the escrow early */}
+            {canReleasePartial && (
+              <div className="space-y-2">
+                <Label className="text-sm text-muted-foreground">Release Part of the Funds</Label>
+                <div className="flex gap-2">
+                  <Input
+                    type="number"
+                    min="0"
+                    step="any"
+                    placeholder={`Less than ${formatSol(escrow.amount)}`}
+                    value={partialAmount}
+                    onChange={(e) => setPartialAmount(e.target.value)}
+                    className="flex-1 bg-secondary border-border text-foreground"
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={handleReleasePartial}
+                    disabled={isFunding || !partialAmount}
+                    className="border-border hover:bg-secondary"
+                  >
+                    {isFunding ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Coins className="h-4 w-4 mr-2" />}
+                    Release
+                  </Button>
+                </div>
+                {partialPayout > 0 && feeBps !== null && (
+                  <p className="text-xs text-muted-foreground">
+                    The freelancer receives {formatSol(partialPayout - platformFee(partialPayout), 6)} {symbol} after the{' '}
+                    {feeBps / 100}% platform fee; {formatSol(Math.max(escrow.amount - partialPayout, 0))} {symbol} stays
+                    locked
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* Client: Top up the escrow when the scope grows */}
+            {canDeposit && (
+              <div className="space-y-2">
+                <Label className="text-sm text-muted-foreground">Add Funds</Label>
+                <div className="flex gap-2">
+                  <Input
+                    type="number"
+                    min="0"
+                    step="any"
+                    placeholder={`Amount in ${symbol}`}
+                    value={depositAmount}
+                    onChange={(e) => setDepositAmount(e.target.value)}
+                    className="flex-1 bg-secondary border-border text-foreground"
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={handleDeposit}
+                    disabled={isFunding || isPaused || !depositAmount}
+                    className="border-border hover:bg-secondary"
+                  >
+                    {isFunding ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <PlusCircle className="h-4 w-4 mr-2" />}
+                    Deposit
+                  </Button>
+                </div>
+                {isPaused && (
+                  <p className="text-xs text-destructive">The escrow program is paused. Funds can be added once it resumes.</p>
+                )}
+              </div>
+            )}
+
+            {/* Anyone: Auto-Release (if work submitted and both deadline and review period passed) */}
             {canAutoRelease && (
               <Button
                 onClick={handleAutoRelease}
@@ -347,17 +1330,179 @@ const EscrowDetailModal: React.FC<EscrowDetailModalProps> = ({
               </Button>
             )}
 
+            {/* Client: Refund (if deadline passed and nothing submitted), or withdraw before acceptance */}
+            {canRefund && (
+              <Button
+                onClick={handleRefund}
+                disabled={isRefunding}
+                variant="outline"
+                className="w-full border-primary text-primary hover:bg-primary hover:text-white"
+              >
+                {isRefunding ? (
+                  <>
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    {isInvitation ? 'Withdrawing...' : 'Refunding...'}
+                  </>
+                ) : (
+                  <>
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    {isInvitation ? 'Withdraw' : 'Refund'}
+                  </>
+                )}
+              </Button>
+            )}
+
+            {/* Client or Freelancer: Raise Dispute (before deadline, arbiter set) */}
+            {canRaiseDispute && (
+              <Button
+                onClick={handleRaiseDispute}
+                disabled={isDisputing}
+                variant="outline"
+                className="w-full border-border text-muted-foreground hover:bg-secondary hover:text-foreground"
+              >
+                {isDisputing ? (
+                  <>
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    Raising Dispute...
+                  </>
+                ) : (
+                  <>
+                    <Scale className="h-4 w-4 mr-2" />
+                    Raise Dispute
+                  </>
+                )}
+              </Button>
+            )}
+
+            {/* Client or Freelancer: Propose a split and cancel by mutual agreement */}
+            {canProposeSettlement && (
+              <Button
+                onClick={() => {
+                  setSettlementShare(settlement ? settlement.freelancerBps / 100 : 50);
+                  setIsSettlementOpen(true);
+                }}
+                disabled={isSettling}
+                variant="outline"
+                className="w-full border-border text-muted-foreground hover:bg-secondary hover:text-foreground"
+              >
+                <Handshake className="h-4 w-4 mr-2" />
+                {settlement ? 'Propose a Different Settlement' : 'Propose Settlement'}
+              </Button>
+            )}
+            {isSettlementUnavailable && (
+              <p className="text-xs text-muted-foreground text-center">
+                Settlements are only available for SOL escrows. This token escrow ends by approval, auto-release or
+                refund.
+              </p>
+            )}
+
+            {/* Dispute Panel */}
+            {escrow.status === 'disputed' && (
+              <div className="p-4 rounded-lg bg-secondary/50 space-y-4">
+                <div className="text-center">
+                  <Scale className="h-8 w-8 text-muted-foreground mx-auto mb-2" />
+                  <p className="text-sm text-foreground font-medium">Escrow Under Dispute</p>
+                  <p className="text-xs text-muted-foreground">
+                    {canResolve
+                      ? 'Choose how the locked funds are split between the parties'
+                      : 'Auto-release is frozen until the arbiter splits the funds'}
+                  </p>
+                </div>
+
+                {canResolve && (
+                  <>
+                    <div className="space-y-3">
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="text-muted-foreground">Freelancer share</span>
+                        <span className="font-medium text-foreground">{freelancerShare}%</span>
+                      </div>
+                      <Slider
+                        value={[freelancerShare]}
+                        onValueChange={([value]) => setFreelancerShare(value)}
+                        min={0}
+                        max={100}
+                        step={1}
+                        disabled={isResolving}
+                      />
+                      <div className="flex items-center justify-between text-xs text-muted-foreground">
+                        <span>Client receives {formatSol(escrow.amount - freelancerPayout)} {symbol}</span>
+                        <span>Freelancer receives {formatSol(freelancerPayout)} {symbol}</span>
+                      </div>
+                      {feeBps !== null && (
+                        <p className="text-xs text-muted-foreground text-center">
+                          {feeBps / 100}% platform fee on the freelancer share:{' '}
+                          {formatSol(platformFee(freelancerPayout), 6)} {symbol}
+                        </p>
+                      )}
+                    </div>
+                    <Button
+                      onClick={handleResolve}
+                      disabled={isResolving}
+                      className="w-full bg-gradient-primary hover:opacity-90 text-white border-0"
+                    >
+                      {isResolving ? (
+                        <>
+                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                          Resolving...
+                        </>
+                      ) : (
+                        <>
+                          <Scale className="h-4 w-4 mr-2" />
+                          Resolve Dispute
+                        </>
+                      )}
+                    </Button>
+                  </>
+                )}
+              </div>
+            )}
+
             {/* Completed Status */}
             {escrow.status === 'completed' && (
               <div className="p-4 rounded-lg bg-green-500/10 border border-green-500/20 text-center">
                 <CheckCircle className="h-8 w-8 text-green-500 mx-auto mb-2" />
                 <p className="text-sm text-foreground font-medium">Escrow Completed</p>
-                <p className="text-xs text-muted-foreground">Funds have been released to the freelancer</p>
+                <p className="text-xs text-muted-foreground">
+                  {escrow.isDisputed
+                    ? 'The arbiter resolved the dispute and split the funds'
+                    : 'Funds have been released to the freelancer'}
+                </p>
+              </div>
+            )}
+
+            {/* Refunded Status */}
+            {escrow.status === 'refunded' && (
+              <div className="p-4 rounded-lg bg-secondary/50 text-center">
+                <RotateCcw className="h-8 w-8 text-muted-foreground mx-auto mb-2" />
+                <p className="text-sm text-foreground font-medium">Escrow Refunded</p>
+                <p className="text-xs text-muted-foreground">No work was submitted before the deadline, so funds went back to the client</p>
               </div>
             )}
 
+            {/* Client: Close a settled escrow and reclaim its rent */}
+            {canCloseEscrow && (
+              <Button
+                onClick={handleCloseEscrow}
+                disabled={isClosing}
+                variant="outline"
+                className="w-full border-border text-muted-foreground hover:bg-secondary hover:text-foreground"
+              >
+                {isClosing ? (
+                  <>
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    Closing...
+                  </>
+                ) : (
+                  <>
+                    <Archive className="h-4 w-4 mr-2" />
+                    Close Escrow & Reclaim Rent
+                  </>
+                )}
+              </Button>
+            )}
+
             {/* Pending with instructions */}
-            {escrow.status === 'pending' && !isFreelancer && (
+            {escrow.status === 'pending' && !isFreelancer && !canRefund && (
               <div className="p-4 rounded-lg bg-secondary/50 text-center">
                 <Clock className="h-8 w-8 text-muted-foreground mx-auto mb-2" />
                 <p className="text-sm text-foreground">Awaiting Work Submission</p>
@@ -366,6 +1511,66 @@ const EscrowDetailModal: React.FC<EscrowDetailModalProps> = ({
             )}
           </div>
         </div>
+
+        {/* Settlement Dialog */}
+        <Dialog open={isSettlementOpen} onOpenChange={setIsSettlementOpen}>
+          <DialogContent className="bg-card border-border sm:max-w-md">
+            <DialogHeader>
+              <DialogTitle className="text-foreground">Propose Settlement</DialogTitle>
+              <DialogDescription className="text-muted-foreground">
+                Cancel the escrow by mutual agreement. Once the other party accepts, the locked funds are split
+                as below and the escrow is closed.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-3">
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">Freelancer share</span>
+                <span className="font-medium text-foreground">{settlementShare}%</span>
+              </div>
+              <Slider
+                value={[settlementShare]}
+                onValueChange={([value]) => setSettlementShare(value)}
+                min={0}
+                max={100}
+                step={1}
+                disabled={isSettling}
+              />
+              <div className="flex items-center justify-between text-xs text-muted-foreground">
+                <span>Client receives {formatSol(escrow.amount - proposedSettlementPayout)} {symbol}</span>
+                <span>Freelancer receives {formatSol(proposedSettlementPayout)} {symbol}</span>
+              </div>
+              {feeBps !== null && (
+                <p className="text-xs text-muted-foreground text-center">
+                  {feeBps / 100}% platform fee on the freelancer share:{' '}
+                  {formatSol(platformFee(proposedSettlementPayout), 6)} {symbol}
+                </p>
+              )}
+              {settlement && (
+                <p className="text-xs text-muted-foreground">
+                  This replaces the pending proposal of {settlement.freelancerBps / 100}% to the freelancer.
+                </p>
+              )}
+            </div>
+            <DialogFooter className="gap-2">
+              <Button
+                variant="outline"
+                onClick={() => setIsSettlementOpen(false)}
+                disabled={isSettling}
+                className="border-border hover:bg-secondary"
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={handleProposeSettlement}
+                disabled={isSettling}
+                className="bg-gradient-primary hover:opacity-90 text-white border-0"
+              >
+                {isSettling && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Propose
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
       </DialogContent>
     </Dialog>
   );
@@ -1,7 +1,12 @@
 import React from 'react';
 import { Shield, Github, Twitter, ExternalLink } from 'lucide-react';
+import { explorerHomeUrl } from '@sdk';
+import { useCluster } from '@/hooks/useCluster';
 
 const Footer: React.FC = () => {
+  const { cluster } = useCluster();
+  const isMainnet = cluster.name === 'mainnet-beta';
+
   return (
     <footer className="py-12 border-t border-border">
       <div className="container mx-auto px-4">
@@ -20,7 +25,7 @@ const Footer: React.FC = () => {
           {/* Links */}
           <div className="flex items-center gap-6">
             <a
-              href="https://explorer.solana.com/?cluster=devnet"
+              href={explorerHomeUrl(cluster)}
               target="_blank"
               rel="noopener noreferrer"
               className="text-sm text-muted-foreground hover:text-foreground flex items-center gap-1 transition-colors"
@@ -28,15 +33,17 @@ const Footer: React.FC = () => {
               Solana Explorer
               <ExternalLink className="h-3 w-3" />
             </a>
-            <a
-              href="https://devnet.solana.com"
-              target="_blank"
-              rel="noopener noreferrer"
-              className="text-sm text-muted-foreground hover:text-foreground flex items-center gap-1 transition-colors"
-            >
-              Devnet Faucet
-              <ExternalLink className="h-3 w-3" />
-            </a>
+            {cluster.name === 'devnet' && (
+              <a
+                href="https://faucet.solana.com"
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-sm text-muted-foreground hover:text-foreground flex items-center gap-1 transition-colors"
+              >
+                Devnet Faucet
+                <ExternalLink className="h-3 w-3" />
+              </a>
+            )}
           </div>
 
           {/* Social Links */}
@@ -59,7 +66,8 @@ const Footer: React.FC = () => {
         {/* Bottom */}
         <div className="mt-8 pt-8 border-t border-border flex flex-col sm:flex-row items-center justify-between gap-4">
           <p className="text-sm text-muted-foreground">
-            Built on Solana Devnet. All transactions are on testnet.
+            Connected to Solana {cluster.label}.{' '}
+            {isMainnet ? 'Transactions move real funds.' : 'Tokens on this network have no real value.'}
           </p>
           <p className="text-sm text-muted-foreground">
             No custody, no middleman, no trust required.
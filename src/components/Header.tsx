@@ -2,6 +2,7 @@ import React from 'react';
 import { Shield, Menu } from 'lucide-react';
 import { WalletMultiButton } from '@solana/wallet-adapter-react-ui';
 import { Button } from '@/components/ui/button';
+import NetworkSwitcher from '@/components/NetworkSwitcher';
 import {
   Sheet,
   SheetContent,
@@ -10,9 +11,10 @@ import {
 
 interface HeaderProps {
   onCreateEscrow: () => void;
+  createDisabled?: boolean;
 }
 
-const Header: React.FC<HeaderProps> = ({ onCreateEscrow }) => {
+const Header: React.FC<HeaderProps> = ({ onCreateEscrow, createDisabled }) => {
   return (
     <header className="sticky top-0 z-50 w-full border-b border-border bg-background/80 backdrop-blur-lg">
       <div className="container mx-auto px-4">
@@ -42,10 +44,12 @@ const Header: React.FC<HeaderProps> = ({ onCreateEscrow }) => {
           <div className="flex items-center gap-3">
             <Button 
               onClick={onCreateEscrow}
+              disabled={createDisabled}
               className="hidden sm:flex bg-gradient-primary hover:opacity-90 text-white border-0"
             >
               Create Escrow
             </Button>
+            <NetworkSwitcher />
             <WalletMultiButton />
             
             {/* Mobile Menu */}
@@ -65,6 +69,7 @@ const Header: React.FC<HeaderProps> = ({ onCreateEscrow }) => {
                   </a>
                   <Button 
                     onClick={onCreateEscrow}
+                    disabled={createDisabled}
                     className="bg-gradient-primary hover:opacity-90 text-white border-0 mt-4"
                   >
                     Create Escrow
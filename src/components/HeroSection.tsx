@@ -3,13 +3,16 @@ import { Shield, Lock, Zap, ArrowRight } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useWallet } from '@solana/wallet-adapter-react';
 import { WalletMultiButton } from '@solana/wallet-adapter-react-ui';
+import { useCluster } from '@/hooks/useCluster';
 
 interface HeroSectionProps {
   onCreateEscrow: () => void;
+  createDisabled?: boolean;
 }
 
-const HeroSection: React.FC<HeroSectionProps> = ({ onCreateEscrow }) => {
+const HeroSection: React.FC<HeroSectionProps> = ({ onCreateEscrow, createDisabled }) => {
   const { connected } = useWallet();
+  const { cluster } = useCluster();
 
   const features = [
     {
@@ -43,7 +46,7 @@ const HeroSection: React.FC<HeroSectionProps> = ({ onCreateEscrow }) => {
               <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-primary opacity-75"></span>
               <span className="relative inline-flex rounded-full h-2 w-2 bg-primary"></span>
             </span>
-            <span className="text-sm text-primary font-medium">Live on Solana Devnet</span>
+            <span className="text-sm text-primary font-medium">Live on Solana {cluster.label}</span>
           </div>
 
           {/* Headline */}
@@ -63,6 +66,7 @@ const HeroSection: React.FC<HeroSectionProps> = ({ onCreateEscrow }) => {
             {connected ? (
               <Button
                 onClick={onCreateEscrow}
+                disabled={createDisabled}
                 size="lg"
                 className="bg-gradient-primary hover:opacity-90 text-white border-0 px-8 py-6 text-lg animate-pulse-glow"
               >
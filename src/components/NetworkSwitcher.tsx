@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { Check, Globe } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { CLUSTER_NAMES, ClusterName } from '@sdk';
+import { clusters } from '@/lib/clusters';
+import { useCluster } from '@/hooks/useCluster';
+import { cn } from '@/lib/utils';
+
+const NetworkSwitcher: React.FC = () => {
+  const { cluster, setCluster } = useCluster();
+  const [open, setOpen] = useState(false);
+  const [customRpcUrl, setCustomRpcUrl] = useState(cluster.name === 'custom' ? cluster.rpcUrl : '');
+  const [customError, setCustomError] = useState<string | null>(null);
+
+  const selectCluster = (name: ClusterName) => {
+    if (name === 'custom') return;
+    setCluster(name);
+    setOpen(false);
+  };
+
+  const applyCustomRpc = () => {
+    try {
+      const url = new URL(customRpcUrl.trim());
+      if (!['http:', 'https:'].includes(url.protocol)) throw new Error();
+    } catch {
+      setCustomError('Enter an http(s) RPC URL');
+      return;
+    }
+    setCustomError(null);
+    setCluster('custom', customRpcUrl.trim());
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2 border-border">
+          <Globe className="h-4 w-4" />
+          <span className="hidden sm:inline">{cluster.label}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 bg-card border-border space-y-3">
+        <p className="text-sm font-medium text-foreground">Network</p>
+        <div className="space-y-1">
+          {CLUSTER_NAMES.filter((name) => name !== 'custom').map((name) => (
+            <button
+              key={name}
+              onClick={() => selectCluster(name)}
+              className={cn(
+                'w-full flex items-center justify-between px-3 py-2 rounded-md text-sm transition-colors',
+                cluster.name === name
+                  ? 'bg-primary/10 text-primary'
+                  : 'text-muted-foreground hover:bg-secondary hover:text-foreground'
+              )}
+            >
+              {clusters[name].label}
+              {cluster.name === name && <Check className="h-4 w-4" />}
+            </button>
+          ))}
+        </div>
+        <div className="space-y-2 pt-2 border-t border-border">
+          <p className="text-xs text-muted-foreground flex items-center justify-between">
+            {clusters.custom.label}
+            {cluster.name === 'custom' && <Check className="h-4 w-4 text-primary" />}
+          </p>
+          <div className="flex gap-2">
+            <Input
+              value={customRpcUrl}
+              onChange={(e) => setCustomRpcUrl(e.target.value)}
+              placeholder="https://my-rpc.example.com"
+              className="h-8 text-xs bg-secondary border-border"
+            />
+            <Button size="sm" className="h-8" onClick={applyCustomRpc} disabled={!customRpcUrl.trim()}>
+              Use
+            </Button>
+          </div>
+          {customError && <p className="text-xs text-destructive">{customError}</p>}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default NetworkSwitcher;
@@ -0,0 +1,18 @@
+import React from 'react';
+import { PauseCircle } from 'lucide-react';
+
+const PausedBanner: React.FC = () => {
+  return (
+    <div className="w-full border-b border-destructive/20 bg-destructive/10">
+      <div className="container mx-auto px-4 py-3 flex items-center gap-3">
+        <PauseCircle className="h-5 w-5 text-destructive shrink-0" />
+        <p className="text-sm text-foreground">
+          The escrow program is paused. New escrows and work submissions are disabled; releases and refunds still
+          work.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default PausedBanner;
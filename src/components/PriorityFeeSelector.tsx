@@ -0,0 +1,48 @@
+import React from 'react';
+import { Zap } from 'lucide-react';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { PriorityFeeLevel } from '@sdk';
+
+interface PriorityFeeSelectorProps {
+  value: PriorityFeeLevel;
+  onChange: (level: PriorityFeeLevel) => void;
+  disabled?: boolean;
+}
+
+const feeLevels: { value: PriorityFeeLevel; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'low', label: 'Low' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'high', label: 'High' },
+];
+
+const PriorityFeeSelector: React.FC<PriorityFeeSelectorProps> = ({ value, onChange, disabled }) => {
+  return (
+    <div className="flex items-center justify-between gap-3">
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Zap className="h-4 w-4" />
+        <span>Priority fee</span>
+      </div>
+      <ToggleGroup
+        type="single"
+        size="sm"
+        value={value}
+        onValueChange={(level) => level && onChange(level as PriorityFeeLevel)}
+        disabled={disabled}
+        className="bg-secondary rounded-md p-0.5"
+      >
+        {feeLevels.map((level) => (
+          <ToggleGroupItem
+            key={level.value}
+            value={level.value}
+            className="text-xs px-2.5 data-[state=on]:bg-primary data-[state=on]:text-white"
+          >
+            {level.label}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+    </div>
+  );
+};
+
+export default PriorityFeeSelector;
@@ -0,0 +1,20 @@
+import { createContext, useContext } from 'react';
+import { ClusterConfig, ClusterName } from '@sdk';
+
+export interface ClusterContextValue {
+  cluster: ClusterConfig;
+  setCluster: (name: ClusterName, customRpcUrl?: string) => void;
+}
+
+export const ClusterContext = createContext<ClusterContextValue | null>(null);
+
+/**
+ * Selected cluster; the connection, SDK and explorer links all follow it
+ */
+export const useCluster = (): ClusterContextValue => {
+  const context = useContext(ClusterContext);
+  if (!context) {
+    throw new Error('useCluster must be used within a ClusterProvider');
+  }
+  return context;
+};
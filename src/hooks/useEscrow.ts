@@ -1,54 +1,169 @@
-import { useState, useCallback, useEffect, useMemo } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { useConnection, useWallet } from '@solana/wallet-adapter-react';
 import { PublicKey, LAMPORTS_PER_SOL } from '@solana/web3.js';
 import { AnchorProvider } from '@coral-xyz/anchor';
-import { Escrow, EscrowStatus, CreateEscrowParams, TransactionResult } from '@/lib/types';
-import { EscrowSDK, EscrowAccountData } from '@/lib/escrowSDK';
+import BN from 'bn.js';
+import { Escrow, CreateEscrowParams, FundingLedgerEntry, TokenInfo, TransactionResult } from '@/lib/types';
+import {
+  EscrowSDK,
+  EscrowAccountData,
+  ConfigAccountData,
+  PriorityFeeLevel,
+  SDKResult,
+  SimulationPreview,
+  TransactionStatus,
+  CreateEscrowParams as SDKCreateEscrowParams,
+  CreateMilestoneEscrowParams,
+  CreateTokenEscrowParams,
+  fromBaseUnits,
+  getAutoReleaseTime,
+  getCurrentMilestoneIndex,
+  getEscrowStatus,
+  toErrorResult,
+} from '@sdk';
+import { useCluster } from '@/hooks/useCluster';
 import { useToast } from '@/hooks/use-toast';
-import { lamportsToSol } from '@/lib/utils';
+import { formatAddress, lamportsToSol } from '@/lib/utils';
+
+const transactionStatusTitles: Record<TransactionStatus, string> = {
+  sent: 'Transaction Sent',
+  processed: 'Transaction Processed',
+  confirmed: 'Transaction Confirmed',
+  finalized: 'Transaction Finalized',
+};
 
 /**
  * Convert on-chain escrow data to UI-friendly format
  */
 const convertEscrowData = (
   publicKey: PublicKey,
-  account: EscrowAccountData
+  account: EscrowAccountData,
+  token?: TokenInfo,
+  feeBps?: number
 ): Escrow => {
   const now = Date.now();
-  const deadline = account.deadline.toNumber() * 1000; // Convert seconds to ms
-  
-  let status: EscrowStatus = 'pending';
-  if (account.isReleased) {
-    status = 'completed';
-  } else if (account.isSubmitted && deadline < now) {
-    status = 'expired'; // Ready for auto-release
-  } else if (account.isSubmitted) {
-    status = 'submitted';
-  }
+  const milestones = account.milestones.map((milestone, index) => ({
+    index,
+    amount: milestone.amount.toNumber() / LAMPORTS_PER_SOL,
+    deadline: milestone.deadline.toNumber() * 1000, // Convert seconds to ms
+    metadataRef: milestone.metadataRef || undefined,
+    isSubmitted: milestone.isSubmitted,
+    isReleased: milestone.isReleased,
+  }));
+  const currentMilestone = getCurrentMilestoneIndex(account);
+  const deadline = milestones[currentMilestone]?.deadline ?? account.deadline.toNumber() * 1000;
+  const autoReleaseAt = getAutoReleaseTime(account);
 
   return {
     id: publicKey.toString(),
     client: account.client.toString(),
     freelancer: account.freelancer.toString(),
-    amount: account.amount.toNumber() / LAMPORTS_PER_SOL,
+    arbiter: account.arbiter?.toString(),
+    token,
+    feeBps,
+    amount: token ? fromBaseUnits(account.amount, token.decimals) : account.amount.toNumber() / LAMPORTS_PER_SOL,
     deadline,
-    status,
+    deadlineProposal: account.deadlineProposal
+      ? {
+          proposer: account.deadlineProposal.proposer.toString(),
+          deadline: account.deadlineProposal.deadline.toNumber() * 1000, // Convert seconds to ms
+        }
+      : undefined,
+    settlementProposal: account.settlementProposal
+      ? {
+          proposer: account.settlementProposal.proposer.toString(),
+          freelancerBps: account.settlementProposal.freelancerBps,
+        }
+      : undefined,
+    reviewPeriod: account.reviewPeriod.toNumber(),
+    status: getEscrowStatus(account, now),
     metadataRef: account.metadataRef || undefined,
+    isAccepted: account.isAccepted,
     isSubmitted: account.isSubmitted,
     isReleased: account.isReleased,
-    createdAt: now, // Not stored on-chain
+    isRefunded: account.isRefunded,
+    isDisputed: account.isDisputed,
+    milestones,
+    revisions: account.revisions.map(({ submissionRef, reasonRef }) => ({ submissionRef, reasonRef })),
+    currentMilestone: currentMilestone === -1 ? undefined : currentMilestone,
+    createdAt: account.createdAt.toNumber() * 1000, // Convert seconds to ms
+    submittedAt: account.submittedAt ? account.submittedAt.toNumber() * 1000 : undefined,
+    releasedAt: account.releasedAt ? account.releasedAt.toNumber() * 1000 : undefined,
+    autoReleaseAt: autoReleaseAt ?? undefined,
     pda: publicKey.toString(),
   };
 };
 
+/**
+ * Map form params to SDK create params; milestones replace the single amount and deadline
+ */
+const toCreateParams = (
+  escrowId: string,
+  params: CreateEscrowParams
+): SDKCreateEscrowParams | CreateMilestoneEscrowParams | CreateTokenEscrowParams => {
+  if (params.mint) {
+    return {
+      escrowId,
+      freelancer: params.freelancer,
+      mint: params.mint,
+      amount: params.amount,
+      deadline: params.deadline.getTime(),
+      reviewPeriod: params.reviewPeriod,
+    };
+  }
+  if (params.milestones?.length) {
+    return {
+      escrowId,
+      freelancer: params.freelancer,
+      milestones: params.milestones.map((milestone) => ({
+        amount: milestone.amount,
+        deadline: milestone.deadline.getTime(),
+      })),
+      reviewPeriod: params.reviewPeriod,
+      arbiter: params.arbiter,
+    };
+  }
+  return {
+    escrowId,
+    freelancer: params.freelancer,
+    amount: params.amount,
+    deadline: params.deadline.getTime(),
+    reviewPeriod: params.reviewPeriod,
+    arbiter: params.arbiter,
+  };
+};
+
 export const useEscrow = () => {
   const { connection } = useConnection();
+  const { cluster } = useCluster();
   const { publicKey, signTransaction, signAllTransactions } = useWallet();
   const { toast } = useToast();
   
   const [escrows, setEscrows] = useState<Escrow[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [programReady, setProgramReady] = useState(false);
+  const [config, setConfig] = useState<ConfigAccountData | null>(null);
+  const [priorityFeeLevel, setPriorityFeeLevelState] = useState<PriorityFeeLevel>('medium');
+  const priorityFeeLevelRef = useRef(priorityFeeLevel);
+  const statusToastRef = useRef<ReturnType<typeof toast> | null>(null);
+  const tokenInfoRef = useRef(new Map<string, TokenInfo>());
+  const configFeeRef = useRef(new Map<string, number>());
+
+  // Follow the in-flight transaction through each commitment level in a single toast
+  const reportTransactionStatus = useCallback(
+    (status: TransactionStatus, signature: string) => {
+      const props = {
+        title: transactionStatusTitles[status],
+        description: `Transaction: ${signature.slice(0, 8)}...`,
+      };
+      if (status === 'sent' || !statusToastRef.current) {
+        statusToastRef.current = toast(props);
+      } else {
+        statusToastRef.current.update({ id: statusToastRef.current.id, ...props });
+      }
+    },
+    [toast]
+  );
 
   // Initialize SDK
   const sdk = useMemo(() => {
@@ -60,18 +175,119 @@ export const useEscrow = () => {
         { publicKey, signTransaction, signAllTransactions },
         { commitment: 'confirmed' }
       );
-      return new EscrowSDK(provider);
+      return new EscrowSDK(provider, {
+        programId: cluster.programId,
+        configAddress: cluster.configAddress ?? undefined,
+        priorityFee: { level: priorityFeeLevelRef.current },
+        onTransactionStatus: reportTransactionStatus,
+      });
     } catch (error) {
       console.error('Failed to initialize SDK:', error);
       return null;
     }
-  }, [connection, publicKey, signTransaction, signAllTransactions]);
+  }, [
+    connection,
+    cluster.programId,
+    cluster.configAddress,
+    publicKey,
+    signTransaction,
+    signAllTransactions,
+    reportTransactionStatus,
+  ]);
+
+  // Change the priority fee level; applied to the current SDK immediately
+  const setPriorityFeeLevel = useCallback(
+    (level: PriorityFeeLevel) => {
+      priorityFeeLevelRef.current = level;
+      sdk?.setPriorityFee({ level });
+      setPriorityFeeLevelState(level);
+    },
+    [sdk]
+  );
 
   // Check if SDK is ready
   useEffect(() => {
     setProgramReady(!!sdk);
   }, [sdk]);
 
+  // The cluster's Config sets the platform fee and the pause flag; followed live
+  useEffect(() => {
+    if (!sdk) {
+      setConfig(null);
+      return;
+    }
+
+    let cancelled = false;
+    sdk.fetchConfig().then((result) => {
+      if (cancelled) return;
+      if (!result.success) console.error('Failed to fetch config:', result.error);
+      setConfig(result.success && result.data ? result.data : null);
+    });
+    const unsubscribe = sdk.subscribeToConfig(setConfig);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [sdk]);
+
+  // Token info by mint, seeded from the cluster registry; other mints are looked up on first sight
+  useEffect(() => {
+    tokenInfoRef.current = new Map(cluster.tokens.map((token) => [token.mint, token]));
+  }, [cluster.tokens]);
+
+  // Config fees are per cluster, so start over whenever the SDK is rebuilt
+  useEffect(() => {
+    configFeeRef.current = new Map();
+  }, [sdk]);
+
+  const resolveTokens = useCallback(
+    async (accounts: EscrowAccountData[]) => {
+      if (!sdk) return;
+
+      const unknown = new Set(
+        accounts
+          .map((account) => account.mint?.toBase58())
+          .filter((mint): mint is string => !!mint && !tokenInfoRef.current.has(mint))
+      );
+      await Promise.all(
+        [...unknown].map(async (mint) => {
+          const result = await sdk.fetchMintDecimals(new PublicKey(mint));
+          if (result.success && result.data !== undefined) {
+            tokenInfoRef.current.set(mint, { mint, symbol: formatAddress(mint), decimals: result.data });
+          }
+        })
+      );
+    },
+    [sdk]
+  );
+
+  // Platform fee by Config address; a Config's fee never changes, so each is read once
+  const resolveConfigs = useCallback(
+    async (accounts: EscrowAccountData[]) => {
+      if (!sdk) return;
+
+      const unknown = new Set(
+        accounts.map((account) => account.config.toBase58()).filter((config) => !configFeeRef.current.has(config))
+      );
+      await Promise.all(
+        [...unknown].map(async (config) => {
+          const result = await sdk.fetchConfig(new PublicKey(config));
+          if (result.success && result.data) {
+            configFeeRef.current.set(config, result.data.feeBps);
+          }
+        })
+      );
+    },
+    [sdk]
+  );
+
+  // Convert with the escrow's token info; base units are shown as-is if the mint could not be read
+  const toEscrow = useCallback((publicKey: PublicKey, account: EscrowAccountData): Escrow => {
+    const mint = account.mint?.toBase58();
+    const token = mint ? (tokenInfoRef.current.get(mint) ?? { mint, symbol: formatAddress(mint), decimals: 0 }) : undefined;
+    return convertEscrowData(publicKey, account, token, configFeeRef.current.get(account.config.toBase58()));
+  }, []);
+
   // Fetch all escrows for current user
   const fetchEscrows = useCallback(async () => {
     if (!sdk || !publicKey) {
@@ -81,18 +297,13 @@ export const useEscrow = () => {
 
     setIsLoading(true);
     try {
-      // Fetch all escrows and filter by user
-      const result = await sdk.fetchAllEscrows();
+      // Fetch escrows where the user is client, freelancer or arbiter
+      const result = await sdk.fetchEscrowsByParticipant(publicKey);
       
       if (result.success && result.data) {
-        const userAddress = publicKey.toString();
-        const userEscrows = result.data
-          .filter(
-            (e) =>
-              e.account.client.toString() === userAddress ||
-              e.account.freelancer.toString() === userAddress
-          )
-          .map((e) => convertEscrowData(e.publicKey, e.account));
+        const accounts = result.data.map((e) => e.account);
+        await Promise.all([resolveTokens(accounts), resolveConfigs(accounts)]);
+        const userEscrows = result.data.map((e) => toEscrow(e.publicKey, e.account));
 
         setEscrows(userEscrows);
       } else {
@@ -105,7 +316,7 @@ export const useEscrow = () => {
     } finally {
       setIsLoading(false);
     }
-  }, [sdk, publicKey]);
+  }, [sdk, publicKey, resolveTokens, resolveConfigs, toEscrow]);
 
   // Initial fetch when SDK is ready
   useEffect(() => {
@@ -116,22 +327,65 @@ export const useEscrow = () => {
     }
   }, [sdk, publicKey, fetchEscrows]);
 
+  // Simulate escrow creation to preview its outcome and cost
+  const previewCreateEscrow = useCallback(
+    async (params: CreateEscrowParams): Promise<SDKResult<SimulationPreview>> => {
+      if (!sdk) {
+        return { success: false, error: 'Wallet not connected', code: 'WalletNotConnected' };
+      }
+
+      return sdk.simulateCreateEscrow(toCreateParams(sdk.generateEscrowId(), params));
+    },
+    [sdk]
+  );
+
+  // Patch escrows live as their accounts change on-chain; resubscribes when the wallet changes
+  useEffect(() => {
+    if (!sdk || !publicKey) return;
+
+    const upsert = (updated: Escrow) =>
+      setEscrows((prev) => {
+        const index = prev.findIndex((e) => e.id === updated.id);
+        if (index === -1) return [...prev, updated];
+        const next = [...prev];
+        next[index] = updated;
+        return next;
+      });
+    // Latest account per escrow, so a slow lookup never overwrites a newer update
+    const latest = new Map<string, EscrowAccountData>();
+
+    return sdk.subscribeToProgramEscrows(
+      { participant: publicKey },
+      (record) => {
+        const id = record.publicKey.toBase58();
+        latest.set(id, record.account);
+        upsert(toEscrow(record.publicKey, record.account));
+
+        // A new token or Config is looked up after the update is shown
+        Promise.all([resolveTokens([record.account]), resolveConfigs([record.account])]).then(() => {
+          const account = latest.get(id);
+          if (account) upsert(toEscrow(record.publicKey, account));
+        });
+      },
+      (escrowAddress) => {
+        const id = escrowAddress.toBase58();
+        latest.delete(id);
+        setEscrows((prev) => prev.filter((e) => e.id !== id));
+      }
+    );
+  }, [sdk, publicKey, resolveTokens, resolveConfigs, toEscrow]);
+
   // Create new escrow
   const createEscrow = useCallback(
     async (params: CreateEscrowParams): Promise<TransactionResult> => {
       if (!sdk) {
-        return { success: false, error: 'Wallet not connected' };
+        return { success: false, error: 'Wallet not connected', code: 'WalletNotConnected' };
       }
 
       try {
         const escrowId = sdk.generateEscrowId();
         
-        const result = await sdk.createEscrow({
-          escrowId,
-          freelancer: params.freelancer,
-          amount: params.amount,
-          deadline: params.deadline.getTime(),
-        });
+        const result = await sdk.createEscrow(toCreateParams(escrowId, params));
 
         if (result.success && result.data) {
           toast({
@@ -144,26 +398,59 @@ export const useEscrow = () => {
           
           return { success: true, signature: result.data.signature };
         } else {
-          return { success: false, error: result.error };
+          return { success: false, error: result.error, code: result.code };
         }
-      } catch (error: any) {
+      } catch (error) {
         console.error('Create escrow error:', error);
-        return { success: false, error: error.message || 'Failed to create escrow' };
+        return toErrorResult(error, 'Failed to create escrow');
       }
     },
     [sdk, fetchEscrows, toast]
   );
 
-  // Submit work (freelancer)
+  // Accept an escrow invitation (freelancer)
+  const acceptEscrow = useCallback(
+    async (escrowId: string): Promise<TransactionResult> => {
+      if (!sdk) {
+        return { success: false, error: 'Wallet not connected', code: 'WalletNotConnected' };
+      }
+
+      try {
+        const result = await sdk.acceptEscrow(new PublicKey(escrowId));
+
+        if (result.success && result.data) {
+          toast({
+            title: 'Escrow Accepted',
+            description: `Transaction: ${result.data.signature.slice(0, 8)}...`,
+          });
+
+          await fetchEscrows();
+
+          return { success: true, signature: result.data.signature };
+        } else {
+          return { success: false, error: result.error, code: result.code };
+        }
+      } catch (error) {
+        console.error('Accept escrow error:', error);
+        return toErrorResult(error, 'Failed to accept escrow');
+      }
+    },
+    [sdk, fetchEscrows, toast]
+  );
+
+  // Submit work (freelancer), for one milestone when an index is given
   const submitWork = useCallback(
-    async (escrowId: string, metadataRef: string): Promise<TransactionResult> => {
+    async (escrowId: string, metadataRef: string, milestoneIndex?: number): Promise<TransactionResult> => {
       if (!sdk) {
-        return { success: false, error: 'Wallet not connected' };
+        return { success: false, error: 'Wallet not connected', code: 'WalletNotConnected' };
       }
 
       try {
         const escrowAddress = new PublicKey(escrowId);
-        const result = await sdk.submitWork(escrowAddress, metadataRef);
+        const result =
+          milestoneIndex === undefined
+            ? await sdk.submitWork(escrowAddress, metadataRef)
+            : await sdk.submitMilestone(escrowAddress, milestoneIndex, metadataRef);
 
         if (result.success && result.data) {
           toast({
@@ -176,26 +463,59 @@ export const useEscrow = () => {
           
           return { success: true, signature: result.data.signature };
         } else {
-          return { success: false, error: result.error };
+          return { success: false, error: result.error, code: result.code };
         }
-      } catch (error: any) {
+      } catch (error) {
         console.error('Submit work error:', error);
-        return { success: false, error: error.message || 'Failed to submit work' };
+        return toErrorResult(error, 'Failed to submit work');
+      }
+    },
+    [sdk, fetchEscrows, toast]
+  );
+
+  // Send submitted work back to the freelancer (client)
+  const requestRevision = useCallback(
+    async (escrowId: string, reasonRef: string): Promise<TransactionResult> => {
+      if (!sdk) {
+        return { success: false, error: 'Wallet not connected', code: 'WalletNotConnected' };
+      }
+
+      try {
+        const result = await sdk.requestRevision(new PublicKey(escrowId), reasonRef);
+
+        if (result.success && result.data) {
+          toast({
+            title: 'Revision Requested',
+            description: `Transaction: ${result.data.signature.slice(0, 8)}...`,
+          });
+
+          await fetchEscrows();
+
+          return { success: true, signature: result.data.signature };
+        } else {
+          return { success: false, error: result.error, code: result.code };
+        }
+      } catch (error) {
+        console.error('Request revision error:', error);
+        return toErrorResult(error, 'Failed to request revision');
       }
     },
     [sdk, fetchEscrows, toast]
   );
 
-  // Approve release (client)
+  // Approve release (client), for one milestone when an index is given
   const approveRelease = useCallback(
-    async (escrowId: string): Promise<TransactionResult> => {
+    async (escrowId: string, milestoneIndex?: number): Promise<TransactionResult> => {
       if (!sdk) {
-        return { success: false, error: 'Wallet not connected' };
+        return { success: false, error: 'Wallet not connected', code: 'WalletNotConnected' };
       }
 
       try {
         const escrowAddress = new PublicKey(escrowId);
-        const result = await sdk.approveRelease(escrowAddress);
+        const result =
+          milestoneIndex === undefined
+            ? await sdk.approveRelease(escrowAddress)
+            : await sdk.approveMilestone(escrowAddress, milestoneIndex);
 
         if (result.success && result.data) {
           toast({
@@ -208,26 +528,119 @@ export const useEscrow = () => {
           
           return { success: true, signature: result.data.signature };
         } else {
-          return { success: false, error: result.error };
+          return { success: false, error: result.error, code: result.code };
         }
-      } catch (error: any) {
+      } catch (error) {
         console.error('Approve release error:', error);
-        return { success: false, error: error.message || 'Failed to approve release' };
+        return toErrorResult(error, 'Failed to approve release');
+      }
+    },
+    [sdk, fetchEscrows, toast]
+  );
+
+  // Add SOL to a single-payment escrow (client)
+  const depositMore = useCallback(
+    async (escrowId: string, amount: number): Promise<TransactionResult> => {
+      if (!sdk) {
+        return { success: false, error: 'Wallet not connected', code: 'WalletNotConnected' };
+      }
+
+      try {
+        const result = await sdk.depositMore(new PublicKey(escrowId), amount);
+
+        if (result.success && result.data) {
+          toast({
+            title: 'Funds Added',
+            description: `Transaction: ${result.data.signature.slice(0, 8)}...`,
+          });
+
+          // Refresh escrows
+          await fetchEscrows();
+
+          return { success: true, signature: result.data.signature };
+        } else {
+          return { success: false, error: result.error, code: result.code };
+        }
+      } catch (error) {
+        console.error('Deposit error:', error);
+        return toErrorResult(error, 'Failed to deposit funds');
+      }
+    },
+    [sdk, fetchEscrows, toast]
+  );
+
+  // Pay part of a single-payment escrow early (client); the rest stays locked
+  const releasePartial = useCallback(
+    async (escrowId: string, amount: number): Promise<TransactionResult> => {
+      if (!sdk) {
+        return { success: false, error: 'Wallet not connected', code: 'WalletNotConnected' };
+      }
+
+      try {
+        const result = await sdk.releasePartial(new PublicKey(escrowId), amount);
+
+        if (result.success && result.data) {
+          toast({
+            title: 'Funds Released',
+            description: `Transaction: ${result.data.signature.slice(0, 8)}...`,
+          });
+
+          // Refresh escrows
+          await fetchEscrows();
+
+          return { success: true, signature: result.data.signature };
+        } else {
+          return { success: false, error: result.error, code: result.code };
+        }
+      } catch (error) {
+        console.error('Partial release error:', error);
+        return toErrorResult(error, 'Failed to release funds');
       }
     },
     [sdk, fetchEscrows, toast]
   );
 
-  // Trigger auto-release
+  // Funding ledger of an escrow, oldest first, in SOL or whole tokens like the escrow amount
+  const fetchFundingLedger = useCallback(
+    async (escrow: Escrow): Promise<SDKResult<FundingLedgerEntry[]>> => {
+      if (!sdk) {
+        return { success: false, error: 'Wallet not connected', code: 'WalletNotConnected' };
+      }
+
+      const result = await sdk.fetchFundingLedger(new PublicKey(escrow.id));
+      if (!result.success || !result.data) {
+        return { success: false, error: result.error, code: result.code };
+      }
+
+      const toAmount = (amount: BN) =>
+        escrow.token ? fromBaseUnits(amount, escrow.token.decimals) : amount.toNumber() / LAMPORTS_PER_SOL;
+      return {
+        success: true,
+        data: result.data.map((entry) => ({
+          kind: entry.kind,
+          amount: toAmount(entry.amount),
+          balance: toAmount(entry.balance),
+          timestamp: entry.timestamp,
+          signature: entry.signature,
+        })),
+      };
+    },
+    [sdk]
+  );
+
+  // Trigger auto-release, for one milestone when an index is given
   const triggerAutoRelease = useCallback(
-    async (escrowId: string): Promise<TransactionResult> => {
+    async (escrowId: string, milestoneIndex?: number): Promise<TransactionResult> => {
       if (!sdk) {
-        return { success: false, error: 'Wallet not connected' };
+        return { success: false, error: 'Wallet not connected', code: 'WalletNotConnected' };
       }
 
       try {
         const escrowAddress = new PublicKey(escrowId);
-        const result = await sdk.triggerAutoRelease(escrowAddress);
+        const result =
+          milestoneIndex === undefined
+            ? await sdk.triggerAutoRelease(escrowAddress)
+            : await sdk.triggerMilestoneAutoRelease(escrowAddress, milestoneIndex);
 
         if (result.success && result.data) {
           toast({
@@ -240,16 +653,301 @@ export const useEscrow = () => {
           
           return { success: true, signature: result.data.signature };
         } else {
-          return { success: false, error: result.error };
+          return { success: false, error: result.error, code: result.code };
         }
-      } catch (error: any) {
+      } catch (error) {
         console.error('Auto release error:', error);
-        return { success: false, error: error.message || 'Failed to trigger auto-release' };
+        return toErrorResult(error, 'Failed to trigger auto-release');
+      }
+    },
+    [sdk, fetchEscrows, toast]
+  );
+
+  // Refund the client after the deadline when nothing was submitted
+  const refundEscrow = useCallback(
+    async (escrowId: string): Promise<TransactionResult> => {
+      if (!sdk) {
+        return { success: false, error: 'Wallet not connected', code: 'WalletNotConnected' };
+      }
+
+      try {
+        const escrowAddress = new PublicKey(escrowId);
+        const result = await sdk.refundEscrow(escrowAddress);
+
+        if (result.success && result.data) {
+          toast({
+            title: 'Escrow Refunded',
+            description: `Transaction: ${result.data.signature.slice(0, 8)}...`,
+          });
+          
+          // Refresh escrows
+          await fetchEscrows();
+          
+          return { success: true, signature: result.data.signature };
+        } else {
+          return { success: false, error: result.error, code: result.code };
+        }
+      } catch (error) {
+        console.error('Refund error:', error);
+        return toErrorResult(error, 'Failed to refund escrow');
+      }
+    },
+    [sdk, fetchEscrows, toast]
+  );
+
+  // Raise a dispute (client or freelancer)
+  const raiseDispute = useCallback(
+    async (escrowId: string): Promise<TransactionResult> => {
+      if (!sdk) {
+        return { success: false, error: 'Wallet not connected', code: 'WalletNotConnected' };
+      }
+
+      try {
+        const escrowAddress = new PublicKey(escrowId);
+        const result = await sdk.raiseDispute(escrowAddress);
+
+        if (result.success && result.data) {
+          toast({
+            title: 'Dispute Raised',
+            description: `Transaction: ${result.data.signature.slice(0, 8)}...`,
+          });
+
+          // Refresh escrows
+          await fetchEscrows();
+
+          return { success: true, signature: result.data.signature };
+        } else {
+          return { success: false, error: result.error, code: result.code };
+        }
+      } catch (error) {
+        console.error('Raise dispute error:', error);
+        return toErrorResult(error, 'Failed to raise dispute');
+      }
+    },
+    [sdk, fetchEscrows, toast]
+  );
+
+  // Resolve a dispute (arbiter), freelancerBps of the locked funds go to the freelancer
+  const resolveDispute = useCallback(
+    async (escrowId: string, freelancerBps: number): Promise<TransactionResult> => {
+      if (!sdk) {
+        return { success: false, error: 'Wallet not connected', code: 'WalletNotConnected' };
+      }
+
+      try {
+        const escrowAddress = new PublicKey(escrowId);
+        const result = await sdk.resolveDispute(escrowAddress, freelancerBps);
+
+        if (result.success && result.data) {
+          toast({
+            title: 'Dispute Resolved',
+            description: `Transaction: ${result.data.signature.slice(0, 8)}...`,
+          });
+
+          // Refresh escrows
+          await fetchEscrows();
+
+          return { success: true, signature: result.data.signature };
+        } else {
+          return { success: false, error: result.error, code: result.code };
+        }
+      } catch (error) {
+        console.error('Resolve dispute error:', error);
+        return toErrorResult(error, 'Failed to resolve dispute');
+      }
+    },
+    [sdk, fetchEscrows, toast]
+  );
+
+  // Propose a later deadline (client or freelancer); applies once the other party accepts
+  const proposeDeadline = useCallback(
+    async (escrowId: string, deadline: Date): Promise<TransactionResult> => {
+      if (!sdk) {
+        return { success: false, error: 'Wallet not connected', code: 'WalletNotConnected' };
+      }
+
+      try {
+        const result = await sdk.proposeDeadline(new PublicKey(escrowId), deadline.getTime());
+
+        if (result.success && result.data) {
+          toast({
+            title: 'Extension Proposed',
+            description: `Transaction: ${result.data.signature.slice(0, 8)}...`,
+          });
+
+          // Refresh escrows
+          await fetchEscrows();
+
+          return { success: true, signature: result.data.signature };
+        } else {
+          return { success: false, error: result.error, code: result.code };
+        }
+      } catch (error) {
+        console.error('Propose deadline error:', error);
+        return toErrorResult(error, 'Failed to propose deadline');
+      }
+    },
+    [sdk, fetchEscrows, toast]
+  );
+
+  // Accept or reject the pending deadline proposal; rejecting your own withdraws it
+  const respondToDeadline = useCallback(
+    async (escrowId: string, accept: boolean): Promise<TransactionResult> => {
+      if (!sdk) {
+        return { success: false, error: 'Wallet not connected', code: 'WalletNotConnected' };
+      }
+
+      try {
+        const escrowAddress = new PublicKey(escrowId);
+        const result = accept ? await sdk.acceptDeadline(escrowAddress) : await sdk.rejectDeadline(escrowAddress);
+
+        if (result.success && result.data) {
+          toast({
+            title: accept ? 'Deadline Extended' : 'Extension Rejected',
+            description: `Transaction: ${result.data.signature.slice(0, 8)}...`,
+          });
+
+          // Refresh escrows
+          await fetchEscrows();
+
+          return { success: true, signature: result.data.signature };
+        } else {
+          return { success: false, error: result.error, code: result.code };
+        }
+      } catch (error) {
+        console.error('Respond to deadline error:', error);
+        return toErrorResult(error, accept ? 'Failed to accept deadline' : 'Failed to reject deadline');
+      }
+    },
+    [sdk, fetchEscrows, toast]
+  );
+
+  // Propose cancelling the escrow with freelancerBps of the locked funds to the freelancer
+  const proposeSettlement = useCallback(
+    async (escrowId: string, freelancerBps: number): Promise<TransactionResult> => {
+      if (!sdk) {
+        return { success: false, error: 'Wallet not connected', code: 'WalletNotConnected' };
+      }
+
+      try {
+        const result = await sdk.proposeSettlement(new PublicKey(escrowId), freelancerBps);
+
+        if (result.success && result.data) {
+          toast({
+            title: 'Settlement Proposed',
+            description: `Transaction: ${result.data.signature.slice(0, 8)}...`,
+          });
+
+          // Refresh escrows
+          await fetchEscrows();
+
+          return { success: true, signature: result.data.signature };
+        } else {
+          return { success: false, error: result.error, code: result.code };
+        }
+      } catch (error) {
+        console.error('Propose settlement error:', error);
+        return toErrorResult(error, 'Failed to propose settlement');
+      }
+    },
+    [sdk, fetchEscrows, toast]
+  );
+
+  // Accept the pending settlement at the split the user saw, or reject it; rejecting your own withdraws it
+  const respondToSettlement = useCallback(
+    async (escrowId: string, accept: boolean, freelancerBps: number): Promise<TransactionResult> => {
+      if (!sdk) {
+        return { success: false, error: 'Wallet not connected', code: 'WalletNotConnected' };
+      }
+
+      try {
+        const escrowAddress = new PublicKey(escrowId);
+        const result = accept
+          ? await sdk.acceptSettlement(escrowAddress, freelancerBps)
+          : await sdk.rejectSettlement(escrowAddress);
+
+        if (result.success && result.data) {
+          toast({
+            title: accept ? 'Escrow Settled' : 'Settlement Rejected',
+            description: `Transaction: ${result.data.signature.slice(0, 8)}...`,
+          });
+
+          // Refresh escrows
+          await fetchEscrows();
+
+          return { success: true, signature: result.data.signature };
+        } else {
+          return { success: false, error: result.error, code: result.code };
+        }
+      } catch (error) {
+        console.error('Respond to settlement error:', error);
+        return toErrorResult(error, accept ? 'Failed to accept settlement' : 'Failed to reject settlement');
       }
     },
     [sdk, fetchEscrows, toast]
   );
 
+  // Close a released or refunded escrow (client) and reclaim its rent
+  const closeEscrow = useCallback(
+    async (escrowId: string): Promise<TransactionResult> => {
+      if (!sdk) {
+        return { success: false, error: 'Wallet not connected', code: 'WalletNotConnected' };
+      }
+
+      try {
+        const result = await sdk.closeEscrow(new PublicKey(escrowId));
+
+        if (result.success && result.data) {
+          toast({
+            title: 'Escrow Closed',
+            description: `Transaction: ${result.data.signature.slice(0, 8)}...`,
+          });
+
+          // Refresh escrows
+          await fetchEscrows();
+
+          return { success: true, signature: result.data.signature };
+        } else {
+          return { success: false, error: result.error, code: result.code };
+        }
+      } catch (error) {
+        console.error('Close escrow error:', error);
+        return toErrorResult(error, 'Failed to close escrow');
+      }
+    },
+    [sdk, fetchEscrows, toast]
+  );
+
+  // Close every released or refunded escrow the wallet created, in as few transactions as fit
+  const closeSettledEscrows = useCallback(async (): Promise<TransactionResult> => {
+    if (!sdk || !publicKey) {
+      return { success: false, error: 'Wallet not connected', code: 'WalletNotConnected' };
+    }
+
+    try {
+      const settled = escrows.filter(
+        (e) => e.client === publicKey.toBase58() && (e.status === 'completed' || e.status === 'refunded')
+      );
+      const result = await sdk.closeEscrows(settled.map((e) => new PublicKey(e.id)));
+
+      // Some batches may have landed before a failure
+      await fetchEscrows();
+
+      if (result.success && result.data) {
+        toast({
+          title: 'Escrows Closed',
+          description: `Closed ${settled.length} settled escrow${settled.length === 1 ? '' : 's'} and reclaimed their rent`,
+        });
+        return { success: true, signature: result.data.signatures[result.data.signatures.length - 1] };
+      } else {
+        return { success: false, error: result.error, code: result.code };
+      }
+    } catch (error) {
+      console.error('Close settled escrows error:', error);
+      return toErrorResult(error, 'Failed to close settled escrows');
+    }
+  }, [sdk, publicKey, escrows, fetchEscrows, toast]);
+
   // Get escrow by ID
   const getEscrow = useCallback(
     (id: string): Escrow | undefined => {
@@ -262,11 +960,31 @@ export const useEscrow = () => {
     escrows,
     isLoading,
     programReady,
+    feeBps: config?.feeBps ?? null,
+    isPaused: config?.isPaused ?? false,
+    tokens: cluster.tokens,
+    priorityFeeLevel,
+    setPriorityFeeLevel,
     fetchEscrows,
+    previewCreateEscrow,
     createEscrow,
+    acceptEscrow,
     submitWork,
+    requestRevision,
     approveRelease,
+    depositMore,
+    releasePartial,
+    fetchFundingLedger,
     triggerAutoRelease,
+    refundEscrow,
+    raiseDispute,
+    resolveDispute,
+    proposeDeadline,
+    respondToDeadline,
+    proposeSettlement,
+    respondToSettlement,
+    closeEscrow,
+    closeSettledEscrows,
     getEscrow,
   };
 };
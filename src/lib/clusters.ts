@@ -0,0 +1,77 @@
+import { CLUSTERS, ClusterConfig, ClusterName, isClusterName } from '@sdk';
+
+// Cluster registry with per-cluster overrides from the environment, e.g.
+// VITE_DEVNET_RPC_URL, VITE_DEVNET_PROGRAM_ID, VITE_DEVNET_CONFIG_ADDRESS
+// (prefixes LOCALNET, DEVNET, MAINNET, CUSTOM)
+const ENV_PREFIXES: Record<ClusterName, string> = {
+  localnet: 'LOCALNET',
+  devnet: 'DEVNET',
+  'mainnet-beta': 'MAINNET',
+  custom: 'CUSTOM',
+};
+
+const STORAGE_KEY = 'trustescrow.cluster';
+const CUSTOM_RPC_STORAGE_KEY = 'trustescrow.customRpcUrl';
+
+const env = import.meta.env as Record<string, string | undefined>;
+
+const withEnvOverrides = (cluster: ClusterConfig): ClusterConfig => {
+  const prefix = ENV_PREFIXES[cluster.name];
+  return {
+    ...cluster,
+    rpcUrl: env[`VITE_${prefix}_RPC_URL`] || cluster.rpcUrl,
+    programId: env[`VITE_${prefix}_PROGRAM_ID`] || cluster.programId,
+    configAddress: env[`VITE_${prefix}_CONFIG_ADDRESS`] || cluster.configAddress,
+  };
+};
+
+export const clusters: Record<ClusterName, ClusterConfig> = {
+  localnet: withEnvOverrides(CLUSTERS.localnet),
+  devnet: withEnvOverrides(CLUSTERS.devnet),
+  'mainnet-beta': withEnvOverrides(CLUSTERS['mainnet-beta']),
+  custom: withEnvOverrides(CLUSTERS.custom),
+};
+
+// Cluster used until the user picks one in the network switcher
+export const DEFAULT_CLUSTER: ClusterName =
+  env.VITE_SOLANA_CLUSTER && isClusterName(env.VITE_SOLANA_CLUSTER) ? env.VITE_SOLANA_CLUSTER : 'devnet';
+
+/**
+ * Resolve a cluster by name; a custom RPC URL only applies to the custom cluster
+ */
+export function getCluster(name: ClusterName, customRpcUrl?: string): ClusterConfig {
+  const cluster = clusters[name];
+  if (name === 'custom' && customRpcUrl) {
+    return { ...cluster, rpcUrl: customRpcUrl };
+  }
+  return cluster;
+}
+
+/**
+ * Load the last selected cluster and custom RPC URL
+ */
+export function loadClusterSelection(): { name: ClusterName; customRpcUrl?: string } {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return {
+      name: stored && isClusterName(stored) ? stored : DEFAULT_CLUSTER,
+      customRpcUrl: localStorage.getItem(CUSTOM_RPC_STORAGE_KEY) || undefined,
+    };
+  } catch {
+    return { name: DEFAULT_CLUSTER };
+  }
+}
+
+/**
+ * Remember the selected cluster across reloads
+ */
+export function saveClusterSelection(name: ClusterName, customRpcUrl?: string): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, name);
+    if (customRpcUrl) {
+      localStorage.setItem(CUSTOM_RPC_STORAGE_KEY, customRpcUrl);
+    }
+  } catch {
+    // Storage unavailable (private mode); selection lasts for this session only
+  }
+}
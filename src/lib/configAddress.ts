@@ -1,7 +0,0 @@
-// Config address for the escrow program
-// This is set to null since initialize_config hasn't been called yet
-// Users will create escrows directly without a global config
-export const configAddress: string | null = null;
-
-// Program ID for the deployed escrow program on devnet
-export const PROGRAM_ID = '8EqACgr8ft77u2zCVK8euLWmHBqxDJ1EW6Hb54GmCzw9';
@@ -1,38 +1,81 @@
-export type EscrowStatus = 'pending' | 'submitted' | 'completed' | 'expired';
+import type { EscrowErrorCode, EscrowStatus, FundMovementKind, TokenInfo } from '@sdk';
 
-export interface Escrow {
-  id: string;
-  client: string;
-  freelancer: string;
+export type { EscrowStatus, FundMovementKind, TokenInfo };
+
+export interface Milestone {
+  index: number;
   amount: number; // in SOL
   deadline: number; // Unix timestamp
-  status: EscrowStatus;
-  metadataRef?: string; // CID, URL, or hash
+  metadataRef?: string;
   isSubmitted: boolean;
   isReleased: boolean;
-  createdAt: number;
-  pda?: string; // Program Derived Address
 }
 
-export interface EscrowAccount {
+export interface Revision {
+  submissionRef: string; // work the client sent back
+  reasonRef: string; // client's requested changes
+}
+
+export interface DeadlineProposal {
+  proposer: string;
+  deadline: number; // Unix timestamp
+}
+
+export interface SettlementProposal {
+  proposer: string;
+  freelancerBps: number; // freelancer's share of the locked funds, the client receives the rest
+}
+
+export interface FundingLedgerEntry {
+  kind: FundMovementKind;
+  amount: number; // in SOL, or whole tokens for token escrows
+  balance: number; // still locked after this movement
+  timestamp: number; // Unix timestamp
+  signature: string;
+}
+
+export interface Escrow {
+  id: string;
   client: string;
   freelancer: string;
-  amount: bigint;
-  deadline: bigint;
+  arbiter?: string; // resolves disputes when set
+  token?: TokenInfo; // SPL token held instead of SOL
+  feeBps?: number; // platform fee of the Config the escrow is bound to, unset until it is read
+  amount: number; // in SOL, or whole tokens for token escrows, still locked
+  deadline: number; // Unix timestamp, of the current milestone for milestone escrows
+  deadlineProposal?: DeadlineProposal; // pending extension, the deadline above still applies
+  settlementProposal?: SettlementProposal; // pending mutual cancellation
+  reviewPeriod: number; // seconds the client has to review a submission
+  status: EscrowStatus;
+  metadataRef?: string; // CID, URL, or hash
+  isAccepted: boolean; // freelancer has accepted the invitation
   isSubmitted: boolean;
   isReleased: boolean;
-  metadataRef: string;
-  bump: number;
+  isRefunded: boolean;
+  isDisputed: boolean; // stays set once the arbiter has resolved the dispute
+  milestones: Milestone[]; // empty for single-payment escrows
+  revisions: Revision[]; // oldest first
+  currentMilestone?: number; // first milestone not yet released
+  createdAt: number; // Unix timestamp, recorded on-chain at creation
+  submittedAt?: number; // latest submission, cleared when a revision is requested
+  releasedAt?: number;
+  autoReleaseAt?: number; // Unix timestamp when the current submission can be auto-released
+  pda?: string; // Program Derived Address
 }
 
 export interface CreateEscrowParams {
   freelancer: string;
   amount: number;
   deadline: Date;
+  milestones?: { amount: number; deadline: Date }[]; // replaces amount and deadline when set
+  reviewPeriod?: number; // seconds, the SDK default when unset
+  arbiter?: string;
+  mint?: string; // SPL token mint, SOL when unset; amount is then in whole tokens
 }
 
 export interface TransactionResult {
   success: boolean;
   signature?: string;
   error?: string;
+  code?: EscrowErrorCode;
 }
@@ -5,80 +5,206 @@ import HeroSection from '@/components/HeroSection';
 import HowItWorks from '@/components/HowItWorks';
 import Dashboard from '@/components/Dashboard';
 import Footer from '@/components/Footer';
+import PausedBanner from '@/components/PausedBanner';
 import CreateEscrowModal from '@/components/CreateEscrowModal';
 import EscrowDetailModal from '@/components/EscrowDetailModal';
 import { useEscrow } from '@/hooks/useEscrow';
-import { Escrow } from '@/lib/types';
+import { CreateEscrowParams, Escrow } from '@/lib/types';
+import { EscrowError } from '@sdk';
 
 const Index: React.FC = () => {
   const { connected, publicKey } = useWallet();
   const { 
     escrows, 
     isLoading, 
+    feeBps,
+    isPaused,
+    tokens,
+    priorityFeeLevel,
+    setPriorityFeeLevel,
+    previewCreateEscrow,
     createEscrow, 
+    acceptEscrow,
     submitWork, 
+    requestRevision,
     approveRelease, 
-    triggerAutoRelease 
+    depositMore,
+    releasePartial,
+    fetchFundingLedger,
+    triggerAutoRelease,
+    refundEscrow,
+    raiseDispute,
+    resolveDispute,
+    proposeDeadline,
+    respondToDeadline,
+    proposeSettlement,
+    respondToSettlement,
+    closeEscrow,
+    closeSettledEscrows
   } = useEscrow();
 
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
-  const [selectedEscrow, setSelectedEscrow] = useState<Escrow | null>(null);
+  const [selectedEscrowId, setSelectedEscrowId] = useState<string | null>(null);
   const [isDetailModalOpen, setIsDetailModalOpen] = useState(false);
 
-  const handleCreateEscrow = async (freelancer: string, amount: number, deadline: Date) => {
-    const result = await createEscrow({ freelancer, amount, deadline });
+  const handlePreviewEscrow = async (params: CreateEscrowParams) => {
+    const result = await previewCreateEscrow(params);
     if (!result.success) {
-      throw new Error(result.error);
+      throw new EscrowError(result.error || 'Simulation failed', result.code);
     }
+    return result.data!;
   };
 
+  const handleCreateEscrow = async (params: CreateEscrowParams) => {
+    const result = await createEscrow(params);
+    if (!result.success) {
+      throw new EscrowError(result.error || 'Transaction failed', result.code);
+    }
+  };
+
+  // Derived from the live escrow list so the detail view follows on-chain updates
+  const selectedEscrow = escrows.find(e => e.id === selectedEscrowId) ?? null;
+
   const handleViewDetails = (escrow: Escrow) => {
-    setSelectedEscrow(escrow);
+    setSelectedEscrowId(escrow.id);
     setIsDetailModalOpen(true);
   };
 
-  const handleSubmitWork = async (escrowId: string, metadataRef: string) => {
-    const result = await submitWork(escrowId, metadataRef);
+  const handleAcceptEscrow = async (escrowId: string) => {
+    const result = await acceptEscrow(escrowId);
+    if (!result.success) {
+      throw new EscrowError(result.error || 'Transaction failed', result.code);
+    }
+  };
+
+  const handleSubmitWork = async (escrowId: string, metadataRef: string, milestoneIndex?: number) => {
+    const result = await submitWork(escrowId, metadataRef, milestoneIndex);
+    if (!result.success) {
+      throw new EscrowError(result.error || 'Transaction failed', result.code);
+    }
+  };
+
+  const handleRequestRevision = async (escrowId: string, reasonRef: string) => {
+    const result = await requestRevision(escrowId, reasonRef);
+    if (!result.success) {
+      throw new EscrowError(result.error || 'Transaction failed', result.code);
+    }
+  };
+
+  const handleApproveRelease = async (escrowId: string, milestoneIndex?: number) => {
+    const result = await approveRelease(escrowId, milestoneIndex);
+    if (!result.success) {
+      throw new EscrowError(result.error || 'Transaction failed', result.code);
+    }
+  };
+
+  const handleDepositMore = async (escrowId: string, amount: number) => {
+    const result = await depositMore(escrowId, amount);
+    if (!result.success) {
+      throw new EscrowError(result.error || 'Transaction failed', result.code);
+    }
+  };
+
+  const handleReleasePartial = async (escrowId: string, amount: number) => {
+    const result = await releasePartial(escrowId, amount);
+    if (!result.success) {
+      throw new EscrowError(result.error || 'Transaction failed', result.code);
+    }
+  };
+
+  const handleFetchFundingLedger = async (escrow: Escrow) => {
+    const result = await fetchFundingLedger(escrow);
+    if (!result.success) {
+      throw new EscrowError(result.error || 'Failed to load funding ledger', result.code);
+    }
+    return result.data!;
+  };
+
+  const handleTriggerAutoRelease = async (escrowId: string, milestoneIndex?: number) => {
+    const result = await triggerAutoRelease(escrowId, milestoneIndex);
+    if (!result.success) {
+      throw new EscrowError(result.error || 'Transaction failed', result.code);
+    }
+  };
+
+  const handleRefundEscrow = async (escrowId: string) => {
+    const result = await refundEscrow(escrowId);
+    if (!result.success) {
+      throw new EscrowError(result.error || 'Transaction failed', result.code);
+    }
+  };
+
+  const handleRaiseDispute = async (escrowId: string) => {
+    const result = await raiseDispute(escrowId);
+    if (!result.success) {
+      throw new EscrowError(result.error || 'Transaction failed', result.code);
+    }
+  };
+
+  const handleResolveDispute = async (escrowId: string, freelancerBps: number) => {
+    const result = await resolveDispute(escrowId, freelancerBps);
+    if (!result.success) {
+      throw new EscrowError(result.error || 'Transaction failed', result.code);
+    }
+  };
+
+  const handleProposeDeadline = async (escrowId: string, deadline: Date) => {
+    const result = await proposeDeadline(escrowId, deadline);
+    if (!result.success) {
+      throw new EscrowError(result.error || 'Transaction failed', result.code);
+    }
+  };
+
+  const handleRespondToDeadline = async (escrowId: string, accept: boolean) => {
+    const result = await respondToDeadline(escrowId, accept);
+    if (!result.success) {
+      throw new EscrowError(result.error || 'Transaction failed', result.code);
+    }
+  };
+
+  const handleProposeSettlement = async (escrowId: string, freelancerBps: number) => {
+    const result = await proposeSettlement(escrowId, freelancerBps);
+    if (!result.success) {
+      throw new EscrowError(result.error || 'Transaction failed', result.code);
+    }
+  };
+
+  const handleRespondToSettlement = async (escrowId: string, accept: boolean, freelancerBps: number) => {
+    const result = await respondToSettlement(escrowId, accept, freelancerBps);
     if (!result.success) {
-      throw new Error(result.error);
+      throw new EscrowError(result.error || 'Transaction failed', result.code);
     }
-    // Refresh the selected escrow
-    const updated = escrows.find(e => e.id === escrowId);
-    if (updated) setSelectedEscrow(updated);
   };
 
-  const handleApproveRelease = async (escrowId: string) => {
-    const result = await approveRelease(escrowId);
+  const handleCloseEscrow = async (escrowId: string) => {
+    const result = await closeEscrow(escrowId);
     if (!result.success) {
-      throw new Error(result.error);
+      throw new EscrowError(result.error || 'Transaction failed', result.code);
     }
-    // Refresh the selected escrow
-    const updated = escrows.find(e => e.id === escrowId);
-    if (updated) setSelectedEscrow(updated);
   };
 
-  const handleTriggerAutoRelease = async (escrowId: string) => {
-    const result = await triggerAutoRelease(escrowId);
+  const handleCloseSettledEscrows = async () => {
+    const result = await closeSettledEscrows();
     if (!result.success) {
-      throw new Error(result.error);
+      throw new EscrowError(result.error || 'Transaction failed', result.code);
     }
-    // Refresh the selected escrow
-    const updated = escrows.find(e => e.id === escrowId);
-    if (updated) setSelectedEscrow(updated);
   };
 
   return (
     <div className="min-h-screen bg-background">
-      <Header onCreateEscrow={() => setIsCreateModalOpen(true)} />
+      <Header onCreateEscrow={() => setIsCreateModalOpen(true)} createDisabled={isPaused} />
+      {isPaused && <PausedBanner />}
       
       <main>
-        <HeroSection onCreateEscrow={() => setIsCreateModalOpen(true)} />
+        <HeroSection onCreateEscrow={() => setIsCreateModalOpen(true)} createDisabled={isPaused} />
         
         {connected && (
           <Dashboard 
             escrows={escrows}
             onViewDetails={handleViewDetails}
             onCreateEscrow={() => setIsCreateModalOpen(true)}
+            onCloseSettledEscrows={handleCloseSettledEscrows}
+            createDisabled={isPaused}
             isLoading={isLoading}
           />
         )}
@@ -92,6 +218,12 @@ const Index: React.FC = () => {
       <CreateEscrowModal
         isOpen={isCreateModalOpen}
         onClose={() => setIsCreateModalOpen(false)}
+        priorityFeeLevel={priorityFeeLevel}
+        feeBps={feeBps}
+        isPaused={isPaused}
+        tokens={tokens}
+        onPriorityFeeLevelChange={setPriorityFeeLevel}
+        onPreviewEscrow={handlePreviewEscrow}
         onCreateEscrow={handleCreateEscrow}
       />
 
@@ -100,12 +232,28 @@ const Index: React.FC = () => {
         isOpen={isDetailModalOpen}
         onClose={() => {
           setIsDetailModalOpen(false);
-          setSelectedEscrow(null);
+          setSelectedEscrowId(null);
         }}
         currentWallet={publicKey?.toBase58()}
+        priorityFeeLevel={priorityFeeLevel}
+        isPaused={isPaused}
+        onPriorityFeeLevelChange={setPriorityFeeLevel}
+        onAcceptEscrow={handleAcceptEscrow}
         onSubmitWork={handleSubmitWork}
+        onRequestRevision={handleRequestRevision}
         onApproveRelease={handleApproveRelease}
+        onDepositMore={handleDepositMore}
+        onReleasePartial={handleReleasePartial}
+        onFetchFundingLedger={handleFetchFundingLedger}
         onTriggerAutoRelease={handleTriggerAutoRelease}
+        onRefundEscrow={handleRefundEscrow}
+        onRaiseDispute={handleRaiseDispute}
+        onResolveDispute={handleResolveDispute}
+        onProposeDeadline={handleProposeDeadline}
+        onRespondToDeadline={handleRespondToDeadline}
+        onProposeSettlement={handleProposeSettlement}
+        onRespondToSettlement={handleRespondToSettlement}
+        onCloseEscrow={handleCloseEscrow}
       />
     </div>
   );
@@ -13,6 +13,7 @@ export default defineConfig({
   resolve: {
     alias: {
       '@': path.resolve(__dirname, 'src'),
+      '@sdk': path.resolve(__dirname, 'sdk'),
     },
   },
   optimizeDeps: {